@@ -0,0 +1,39 @@
+import { Badge } from "@/components/ui/badge";
+import { AlertCircle, AlertTriangle, CheckCircle2 } from "lucide-react";
+import type { QualityStatus } from "@/lib/types";
+
+interface QualityBadgeProps {
+  status: QualityStatus;
+  findingCount?: number;
+  /** Also render a badge for series without warnings or errors */
+  showOk?: boolean;
+}
+
+export const QualityBadge = ({ status, findingCount = 0, showOk = false }: QualityBadgeProps) => {
+  if (status === "error") {
+    return (
+      <Badge variant="destructive" className="gap-1 shrink-0">
+        <AlertCircle className="h-3 w-3" />
+        {findingCount > 1 ? `${findingCount} issues` : "Data error"}
+      </Badge>
+    );
+  }
+
+  if (status === "warning") {
+    return (
+      <Badge variant="outline" className="gap-1 shrink-0 border-amber-500/50 text-amber-600">
+        <AlertTriangle className="h-3 w-3" />
+        {findingCount > 1 ? `${findingCount} warnings` : "Warning"}
+      </Badge>
+    );
+  }
+
+  if (!showOk) return null;
+
+  return (
+    <Badge variant="outline" className="gap-1 shrink-0 text-muted-foreground">
+      <CheckCircle2 className="h-3 w-3" />
+      Quality OK
+    </Badge>
+  );
+};
@@ -3,20 +3,24 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
 import { Loader2, TrendingUp } from "lucide-react";
+import { observationStatusLabel } from "@/lib/observationFlags";
 import type { Currency } from "./SeriesDetail";
 
 interface SeriesChartProps {
   seriesId: string;
   currency: Currency;
   dateRange: { start: string; end: string };
+  /** ISO date; when set, show the values as they were known at the end of that day */
+  asOf?: string;
 }
 
 interface Observation {
   date: string;
   value: number | null;
+  status: string | null;
 }
 
-export const SeriesChart = ({ seriesId, currency, dateRange }: SeriesChartProps) => {
+export const SeriesChart = ({ seriesId, currency, dateRange, asOf }: SeriesChartProps) => {
   const [data, setData] = useState<Observation[]>([]);
   const [loading, setLoading] = useState(true);
   const [stats, setStats] = useState<{ latest: number | null; change: number | null }>({
@@ -32,11 +36,16 @@ export const SeriesChart = ({ seriesId, currency, dateRange }: SeriesChartProps)
       if (currency === "EUR") valueColumn = "value_eur";
       if (currency === "USD") valueColumn = "value_usd";
 
-      let query = supabase
-        .from("observations")
-        .select(`date, ${valueColumn}`)
-        .eq("series_id", seriesId)
-        .order("date", { ascending: true });
+      let query = asOf
+        ? supabase.rpc("observations_as_of", {
+            p_series_id: seriesId,
+            p_as_of: `${asOf}T23:59:59Z`,
+          })
+        : supabase
+            .from("observations")
+            .select(`date, ${valueColumn}, status`)
+            .eq("series_id", seriesId)
+            .order("date", { ascending: true });
 
       if (dateRange.start) {
         query = query.gte("date", dateRange.start);
@@ -51,6 +60,7 @@ export const SeriesChart = ({ seriesId, currency, dateRange }: SeriesChartProps)
         const formattedData = observations.map((obs: any) => ({
           date: obs.date,
           value: obs[valueColumn],
+          status: obs.status ?? null,
         }));
         
         setData(formattedData);
@@ -69,7 +79,16 @@ export const SeriesChart = ({ seriesId, currency, dateRange }: SeriesChartProps)
     };
 
     fetchObservations();
-  }, [seriesId, currency, dateRange]);
+  }, [seriesId, currency, dateRange, asOf]);
+
+  // Only flagged observations get a dot, so provisional or estimated values stand out
+  const renderStatusDot = (props: { cx?: number; cy?: number; index?: number; payload?: Observation }) => {
+    const { cx, cy, payload, index } = props;
+    if (!payload?.status || cx === undefined || cy === undefined) return <g key={index} />;
+    return (
+      <circle key={index} cx={cx} cy={cy} r={3.5} fill="hsl(var(--card))" stroke="hsl(var(--primary))" strokeWidth={2} />
+    );
+  };
 
   if (loading) {
     return (
@@ -94,7 +113,14 @@ export const SeriesChart = ({ seriesId, currency, dateRange }: SeriesChartProps)
     <Card>
       <CardHeader>
         <div className="flex items-center justify-between">
-          <CardTitle>Time Series Data</CardTitle>
+          <div>
+            <CardTitle>Time Series Data</CardTitle>
+            {asOf && (
+              <p className="mt-1 text-sm text-muted-foreground">
+                As known on {new Date(asOf).toLocaleDateString()}
+              </p>
+            )}
+          </div>
           {stats.latest !== null && (
             <div className="text-right">
               <p className="text-2xl font-bold text-foreground font-mono">
@@ -142,20 +168,21 @@ export const SeriesChart = ({ seriesId, currency, dateRange }: SeriesChartProps)
                 borderRadius: "var(--radius)",
               }}
               labelFormatter={(label) => new Date(label).toLocaleDateString()}
-              formatter={(value: number) => [
-                value.toLocaleString(undefined, {
+              formatter={(value: number, _name, item) => {
+                const formatted = value.toLocaleString(undefined, {
                   minimumFractionDigits: 2,
                   maximumFractionDigits: 2,
-                }),
-                "Value",
-              ]}
+                });
+                const label = observationStatusLabel(item?.payload?.status);
+                return [label ? `${formatted} (${label})` : formatted, "Value"];
+              }}
             />
             <Line
               type="monotone"
               dataKey="value"
               stroke="hsl(var(--primary))"
               strokeWidth={2}
-              dot={false}
+              dot={renderStatusDot}
               activeDot={{ r: 4 }}
             />
           </LineChart>
@@ -181,6 +208,11 @@ export const SeriesChart = ({ seriesId, currency, dateRange }: SeriesChartProps)
                       minimumFractionDigits: 2,
                       maximumFractionDigits: 2,
                     })}
+                    {obs.status && (
+                      <sup className="ml-1 text-muted-foreground" title={observationStatusLabel(obs.status) ?? undefined}>
+                        {obs.status}
+                      </sup>
+                    )}
                   </td>
                 </tr>
               ))}
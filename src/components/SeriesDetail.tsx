@@ -1,4 +1,4 @@
-import { useEffect, useState } from "react";
+import { useCallback, useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
@@ -7,6 +7,12 @@ import { Calendar, TrendingUp, Loader2 } from "lucide-react";
 import { SeriesChart } from "./SeriesChart";
 import { CurrencySelector } from "./CurrencySelector";
 import { DateRangePicker } from "./DateRangePicker";
+import { SeriesRevisions } from "./SeriesRevisions";
+import { SeriesQuality } from "./SeriesQuality";
+import { QualityBadge } from "./QualityBadge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { formatObservationRange, formatProviderUpdated, formatUnitMultiplier } from "@/lib/seriesMetadata";
 
 interface SeriesDetailProps {
   seriesId: string;
@@ -15,15 +21,22 @@ interface SeriesDetailProps {
 interface SeriesMetadata {
   id: string;
   source: string;
+  provider_id: string;
   title: string;
   description: string | null;
   freq: string | null;
   unit_original: string | null;
   currency_orig: string | null;
   geo: string | null;
+  seasonal_adjustment: string | null;
+  unit_multiplier: number | null;
+  provider_updated_at: string | null;
+  observation_start: string | null;
+  observation_end: string | null;
+  license: string | null;
 }
 
-import type { Currency } from "@/lib/types";
+import type { Currency, QualityStatus } from "@/lib/types";
 export type { Currency };
 
 export const SeriesDetail = ({ seriesId }: SeriesDetailProps) => {
@@ -34,6 +47,17 @@ export const SeriesDetail = ({ seriesId }: SeriesDetailProps) => {
     start: "",
     end: "",
   });
+  const [asOf, setAsOf] = useState("");
+  const [quality, setQuality] = useState<{ status: QualityStatus; finding_count: number } | null>(null);
+
+  const loadQuality = useCallback(async () => {
+    const { data } = await supabase
+      .from("series_quality_status")
+      .select("status, finding_count")
+      .eq("series_id", seriesId)
+      .maybeSingle();
+    setQuality(data as { status: QualityStatus; finding_count: number } | null);
+  }, [seriesId]);
 
   useEffect(() => {
     const fetchMetadata = async () => {
@@ -51,7 +75,8 @@ export const SeriesDetail = ({ seriesId }: SeriesDetailProps) => {
     };
 
     fetchMetadata();
-  }, [seriesId]);
+    loadQuality();
+  }, [seriesId, loadQuality]);
 
   if (loading) {
     return (
@@ -69,6 +94,10 @@ export const SeriesDetail = ({ seriesId }: SeriesDetailProps) => {
     );
   }
 
+  const scale = formatUnitMultiplier(metadata.unit_multiplier);
+  const observationRange = formatObservationRange(metadata.observation_start, metadata.observation_end);
+  const providerUpdated = formatProviderUpdated(metadata.provider_updated_at);
+
   return (
     <div className="space-y-4">
       {/* Metadata Card */}
@@ -79,9 +108,12 @@ export const SeriesDetail = ({ seriesId }: SeriesDetailProps) => {
               <CardTitle className="text-lg">{metadata.title}</CardTitle>
               <p className="mt-1 text-sm text-muted-foreground font-mono">{metadata.id}</p>
             </div>
-            <Badge variant={metadata.source === "FRED" ? "default" : "secondary"}>
-              {metadata.source}
-            </Badge>
+            <div className="flex items-center gap-2">
+              {quality && <QualityBadge status={quality.status} findingCount={quality.finding_count} showOk />}
+              <Badge variant={metadata.source === "FRED" ? "default" : "secondary"}>
+                {metadata.source}
+              </Badge>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -113,6 +145,36 @@ export const SeriesDetail = ({ seriesId }: SeriesDetailProps) => {
                 <p className="font-medium text-foreground">{metadata.geo}</p>
               </div>
             )}
+            {metadata.seasonal_adjustment && (
+              <div>
+                <p className="text-muted-foreground">Seasonal Adjustment</p>
+                <p className="font-medium text-foreground">{metadata.seasonal_adjustment}</p>
+              </div>
+            )}
+            {scale && (
+              <div>
+                <p className="text-muted-foreground">Scale</p>
+                <p className="font-medium text-foreground">{scale}</p>
+              </div>
+            )}
+            {observationRange && (
+              <div>
+                <p className="text-muted-foreground">Observations</p>
+                <p className="font-medium text-foreground">{observationRange}</p>
+              </div>
+            )}
+            {providerUpdated && (
+              <div>
+                <p className="text-muted-foreground">Provider Updated</p>
+                <p className="font-medium text-foreground">{providerUpdated}</p>
+              </div>
+            )}
+            {metadata.license && (
+              <div className="col-span-2">
+                <p className="text-muted-foreground">License</p>
+                <p className="font-medium text-foreground">{metadata.license}</p>
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -122,13 +184,33 @@ export const SeriesDetail = ({ seriesId }: SeriesDetailProps) => {
         <CardContent className="pt-6">
           <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
             <CurrencySelector value={currency} onChange={setCurrency} />
-            <DateRangePicker value={dateRange} onChange={setDateRange} />
+            <div className="flex flex-col gap-4 sm:flex-row sm:items-end">
+              <DateRangePicker value={dateRange} onChange={setDateRange} />
+              <div className="flex flex-col gap-1">
+                <Label htmlFor="as-of-date" className="text-xs text-muted-foreground">
+                  As of
+                </Label>
+                <Input
+                  id="as-of-date"
+                  type="date"
+                  value={asOf}
+                  onChange={(e) => setAsOf(e.target.value)}
+                  className="h-9 w-36"
+                />
+              </div>
+            </div>
           </div>
         </CardContent>
       </Card>
 
       {/* Chart */}
-      <SeriesChart seriesId={seriesId} currency={currency} dateRange={dateRange} />
+      <SeriesChart seriesId={seriesId} currency={currency} dateRange={dateRange} asOf={asOf || undefined} />
+
+      {/* Quality findings */}
+      <SeriesQuality seriesId={seriesId} onChecked={loadQuality} />
+
+      {/* Revision history */}
+      <SeriesRevisions seriesId={seriesId} source={metadata.source} providerId={metadata.provider_id} />
     </div>
   );
 };
@@ -3,7 +3,9 @@ import { supabase } from "@/integrations/supabase/client";
 import { Card } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { Loader2 } from "lucide-react";
-import type { DataSource } from "@/lib/types";
+import { QualityBadge } from "./QualityBadge";
+import type { DataSource, QualityStatus } from "@/lib/types";
+import { seriesTextFilter } from "@/lib/unifiedSearch";
 
 interface Series {
   id: string;
@@ -11,6 +13,7 @@ interface Series {
   title: string;
   freq: string | null;
   currency_orig: string | null;
+  series_quality_status: { status: QualityStatus; finding_count: number } | null;
 }
 
 interface SeriesListProps {
@@ -27,20 +30,22 @@ export const SeriesList = ({ source, searchQuery, selectedId, onSelect }: Series
   useEffect(() => {
     const fetchSeries = async () => {
       setLoading(true);
-      let query = supabase.from("series").select("id, source, title, freq, currency_orig");
+      let query = supabase
+        .from("series")
+        .select("id, source, title, freq, currency_orig, series_quality_status(status, finding_count)");
 
       if (source !== "ALL") {
         query = query.eq("source", source);
       }
 
       if (searchQuery) {
-        query = query.or(`title.ilike.%${searchQuery}%,id.ilike.%${searchQuery}%`);
+        query = query.or(seriesTextFilter(searchQuery));
       }
 
       const { data, error } = await query.order("title");
 
       if (!error && data) {
-        setSeries(data);
+        setSeries(data as Series[]);
       }
       setLoading(false);
     };
@@ -85,9 +90,17 @@ export const SeriesList = ({ source, searchQuery, selectedId, onSelect }: Series
                 <h3 className="text-sm font-medium text-foreground line-clamp-2">{s.title}</h3>
                 <p className="mt-1 text-xs text-muted-foreground font-mono">{s.id}</p>
               </div>
-              <Badge variant={s.source === "FRED" ? "default" : "secondary"} className="shrink-0">
-                {s.source}
-              </Badge>
+              <div className="flex flex-col items-end gap-1">
+                <Badge variant={s.source === "FRED" ? "default" : "secondary"} className="shrink-0">
+                  {s.source}
+                </Badge>
+                {s.series_quality_status && (
+                  <QualityBadge
+                    status={s.series_quality_status.status}
+                    findingCount={s.series_quality_status.finding_count}
+                  />
+                )}
+              </div>
             </div>
             {(s.freq || s.currency_orig) && (
               <div className="mt-2 flex gap-2 text-xs text-muted-foreground">
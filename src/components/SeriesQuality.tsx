@@ -0,0 +1,122 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { hasRole, useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+import { qualityApi } from "@/lib/api";
+import type { QualityFinding } from "@/lib/types";
+
+interface SeriesQualityProps {
+  seriesId: string;
+  /** Called after a re-check so the parent can refresh its badge */
+  onChecked?: () => void;
+}
+
+const SEVERITY_VARIANTS: Record<QualityFinding["severity"], "destructive" | "outline" | "secondary"> = {
+  error: "destructive",
+  warning: "outline",
+  info: "secondary",
+};
+
+export const SeriesQuality = ({ seriesId, onChecked }: SeriesQualityProps) => {
+  const { role } = useAuth();
+  const [findings, setFindings] = useState<QualityFinding[]>([]);
+  const [checkedAt, setCheckedAt] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [checking, setChecking] = useState(false);
+
+  const loadFindings = useCallback(async () => {
+    setLoading(true);
+    const [{ data: findingRows }, { data: status }] = await Promise.all([
+      supabase
+        .from("series_quality_findings")
+        .select("id, series_id, check_type, severity, message, detected_at")
+        .eq("series_id", seriesId)
+        .order("id"),
+      supabase
+        .from("series_quality_status")
+        .select("checked_at")
+        .eq("series_id", seriesId)
+        .maybeSingle(),
+    ]);
+
+    setFindings((findingRows || []) as QualityFinding[]);
+    setCheckedAt(status?.checked_at ?? null);
+    setLoading(false);
+  }, [seriesId]);
+
+  useEffect(() => {
+    loadFindings();
+  }, [loadFindings]);
+
+  const handleCheck = async () => {
+    setChecking(true);
+    try {
+      await qualityApi.run({ seriesId });
+      await loadFindings();
+      onChecked?.();
+    } catch (error) {
+      toast({
+        title: "Quality check failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+    setChecking(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4" />
+              Data Quality
+            </CardTitle>
+            {checkedAt && (
+              <p className="mt-1 text-xs text-muted-foreground">
+                Checked {new Date(checkedAt).toLocaleString()}
+              </p>
+            )}
+          </div>
+          {hasRole(role, "analyst") && (
+            <Button size="sm" variant="outline" onClick={handleCheck} disabled={checking}>
+              {checking && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Check now
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : !checkedAt ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            This series has not been checked yet.
+          </p>
+        ) : findings.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No gaps, jumps, stale data or repeated values found.
+          </p>
+        ) : (
+          <ul className="space-y-2">
+            {findings.map((finding) => (
+              <li key={finding.id} className="flex items-start gap-3 text-sm">
+                <Badge variant={SEVERITY_VARIANTS[finding.severity]} className="shrink-0 capitalize">
+                  {finding.severity}
+                </Badge>
+                <span className="text-foreground">{finding.message}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
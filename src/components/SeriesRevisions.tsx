@@ -0,0 +1,158 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { History, Loader2 } from "lucide-react";
+import { hasRole, useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+import { fredApi } from "@/lib/api";
+
+interface SeriesRevisionsProps {
+  seriesId: string;
+  source: string;
+  providerId: string;
+}
+
+interface Vintage {
+  date: string;
+  value: number | null;
+  vintage_start: string;
+}
+
+interface Revision {
+  date: string;
+  previous: number | null;
+  current: number | null;
+  revisedAt: string;
+}
+
+const MAX_REVISIONS = 20;
+
+const formatValue = (value: number | null) =>
+  value?.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 }) ?? "—";
+
+export const SeriesRevisions = ({ seriesId, source, providerId }: SeriesRevisionsProps) => {
+  const { role } = useAuth();
+  const [revisions, setRevisions] = useState<Revision[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [importing, setImporting] = useState(false);
+
+  const loadRevisions = useCallback(async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("observation_vintages")
+      .select("date, value, vintage_start")
+      .eq("series_id", seriesId)
+      .order("vintage_start", { ascending: false })
+      .limit(5000);
+
+    if (!error && data) {
+      // Newest vintage first, so the first two rows seen per date are the latest revision
+      const byDate = new Map<string, Vintage[]>();
+      for (const vintage of data as Vintage[]) {
+        const list = byDate.get(vintage.date) || [];
+        if (list.length < 2) list.push(vintage);
+        byDate.set(vintage.date, list);
+      }
+
+      const found: Revision[] = [];
+      for (const [date, list] of byDate) {
+        if (list.length < 2) continue;
+        found.push({
+          date,
+          previous: list[1].value,
+          current: list[0].value,
+          revisedAt: list[0].vintage_start,
+        });
+      }
+
+      found.sort((a, b) => b.revisedAt.localeCompare(a.revisedAt) || b.date.localeCompare(a.date));
+      setRevisions(found.slice(0, MAX_REVISIONS));
+    }
+    setLoading(false);
+  }, [seriesId]);
+
+  useEffect(() => {
+    loadRevisions();
+  }, [loadRevisions]);
+
+  const handleImport = async () => {
+    setImporting(true);
+    try {
+      const result = await fredApi.importVintages(providerId);
+      toast({
+        title: "Vintages imported",
+        description: `${result.vintageCount} values across ${result.vintageDates} ALFRED vintages`,
+      });
+      await loadRevisions();
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+    setImporting(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-4">
+          <CardTitle className="flex items-center gap-2">
+            <History className="h-4 w-4" />
+            Revisions
+          </CardTitle>
+          {source === "FRED" && hasRole(role, "admin") && (
+            <Button size="sm" variant="outline" onClick={handleImport} disabled={importing}>
+              {importing && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Import ALFRED vintages
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : revisions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No values have been revised since they were first recorded.
+          </p>
+        ) : (
+          <div className="max-h-64 overflow-y-auto">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-muted">
+                <tr className="border-b border-border">
+                  <th className="py-2 px-4 text-left font-medium text-muted-foreground">Date</th>
+                  <th className="py-2 px-4 text-right font-medium text-muted-foreground">Previous</th>
+                  <th className="py-2 px-4 text-right font-medium text-muted-foreground">Revised</th>
+                  <th className="py-2 px-4 text-right font-medium text-muted-foreground">Revised on</th>
+                </tr>
+              </thead>
+              <tbody>
+                {revisions.map((revision) => (
+                  <tr key={revision.date} className="border-b border-border last:border-0">
+                    <td className="py-2 px-4 text-foreground font-mono">
+                      {new Date(revision.date).toLocaleDateString()}
+                    </td>
+                    <td className="py-2 px-4 text-right font-mono text-muted-foreground">
+                      {formatValue(revision.previous)}
+                    </td>
+                    <td className="py-2 px-4 text-right font-mono text-foreground">
+                      {formatValue(revision.current)}
+                    </td>
+                    <td className="py-2 px-4 text-right text-muted-foreground">
+                      {new Date(revision.revisedAt).toLocaleDateString()}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -6,6 +6,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { useSources } from "@/hooks/use-sources";
 import type { DataSource } from "@/lib/types";
 
 interface SourceSelectorProps {
@@ -13,17 +14,14 @@ interface SourceSelectorProps {
   onChange: (source: DataSource) => void;
 }
 
-const sources: { value: DataSource; label: string; icon: typeof Globe }[] = [
-  { value: "ALL", label: "All", icon: Globe },
-  { value: "FRED", label: "FRED", icon: Database },
-  { value: "ECB", label: "ECB", icon: Database },
-  { value: "EUROSTAT", label: "Eurostat", icon: Database },
-  { value: "OECD", label: "OECD", icon: Database },
-  { value: "WORLDBANK", label: "World Bank", icon: Database },
-  { value: "STATFIN", label: "StatFin", icon: Database },
-];
-
 export const SourceSelector = ({ value, onChange }: SourceSelectorProps) => {
+  const { data: registry = [] } = useSources();
+  const sources: { value: DataSource; label: string; icon: typeof Globe }[] = [
+    { value: "ALL", label: "All", icon: Globe },
+    ...registry
+      .filter((s) => s.enabled)
+      .map((s) => ({ value: s.code, label: s.label, icon: Database })),
+  ];
   const selectedSource = sources.find((s) => s.value === value);
   const SelectedIcon = selectedSource?.icon || Globe;
 
@@ -0,0 +1,149 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { History, Loader2 } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { fredApi } from "@/lib/api";
+
+interface FredSeriesRow {
+  id: string;
+  provider_id: string;
+  title: string;
+}
+
+type BackfillState =
+  | { status: "running" }
+  | { status: "done"; observationCount: number }
+  | { status: "error"; error: string };
+
+export const FredBackfillCard = () => {
+  const [series, setSeries] = useState<FredSeriesRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+  const [states, setStates] = useState<Record<string, BackfillState>>({});
+
+  useEffect(() => {
+    const loadSeries = async () => {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from("series")
+        .select("id, provider_id, title")
+        .eq("source", "FRED")
+        .order("id");
+
+      if (!error && data) {
+        setSeries(data);
+      }
+      setLoading(false);
+    };
+    loadSeries();
+  }, []);
+
+  const backfill = async (row: FredSeriesRow): Promise<boolean> => {
+    setStates((prev) => ({ ...prev, [row.id]: { status: "running" } }));
+    try {
+      const result = await fredApi.ingest(row.provider_id, { full: true });
+      setStates((prev) => ({ ...prev, [row.id]: { status: "done", observationCount: result.observationCount } }));
+      return true;
+    } catch (error) {
+      const message = error instanceof Error ? error.message : "Unknown error";
+      setStates((prev) => ({ ...prev, [row.id]: { status: "error", error: message } }));
+      return false;
+    }
+  };
+
+  // Series are backfilled one at a time to stay within the FRED rate limit
+  const handleBackfillAll = async () => {
+    setRunning(true);
+    let failed = 0;
+    for (const row of series) {
+      if (!(await backfill(row))) failed++;
+    }
+    toast({
+      title: "Backfill complete",
+      description: `${series.length - failed} series backfilled, ${failed} failed`,
+      variant: failed > 0 ? "destructive" : "default",
+    });
+    setRunning(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>FRED History Backfill</CardTitle>
+            <CardDescription>
+              Re-ingest existing FRED series with their full history instead of the last 10 years
+            </CardDescription>
+          </div>
+          <Button onClick={handleBackfillAll} disabled={running || series.length === 0} variant="outline">
+            {running ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <History className="mr-2 h-4 w-4" />
+            )}
+            Backfill All
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : series.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No FRED series have been ingested yet.
+          </p>
+        ) : (
+          <div className="max-h-80 overflow-auto rounded-md border border-border">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-muted z-10">
+                <tr className="border-b border-border">
+                  <th className="py-2 px-3 text-left font-medium text-muted-foreground">Series</th>
+                  <th className="py-2 px-3 text-left font-medium text-muted-foreground">Backfill</th>
+                  <th className="py-2 px-3" />
+                </tr>
+              </thead>
+              <tbody>
+                {series.map((row) => {
+                  const state = states[row.id];
+                  return (
+                    <tr key={row.id} className="border-b border-border last:border-0 hover:bg-accent/50">
+                      <td className="py-2 px-3">
+                        <p className="text-foreground">{row.title}</p>
+                        <p className="text-xs text-muted-foreground font-mono">{row.provider_id}</p>
+                      </td>
+                      <td className="py-2 px-3">
+                        {state?.status === "running" && <Badge variant="secondary">running</Badge>}
+                        {state?.status === "done" && (
+                          <Badge variant="default">{state.observationCount} observations</Badge>
+                        )}
+                        {state?.status === "error" && (
+                          <p className="text-xs text-destructive max-w-[240px] break-words">{state.error}</p>
+                        )}
+                      </td>
+                      <td className="py-2 px-3 text-right">
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={running || state?.status === "running"}
+                          onClick={() => backfill(row)}
+                        >
+                          Backfill
+                        </Button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,212 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, RefreshCw } from "lucide-react";
+import { useSources } from "@/hooks/use-sources";
+
+interface IngestionRunRow {
+  id: number;
+  function_name: string;
+  source: string;
+  series_id: string | null;
+  series_ids: string[] | null;
+  params: Json;
+  triggered_by: string;
+  status: string;
+  started_at: string;
+  duration_ms: number | null;
+  rows_received: number | null;
+  rows_inserted: number | null;
+  rows_updated: number | null;
+  error: string | null;
+  error_details: Json | null;
+}
+
+const STATUSES = ["success", "error", "running"];
+
+// Most recent runs shown for the current filters
+const RUN_LIMIT = 200;
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  success: "default",
+  running: "secondary",
+  error: "destructive",
+};
+
+const formatDuration = (ms: number | null) => {
+  if (ms === null) return "—";
+  return ms < 1000 ? `${ms} ms` : `${(ms / 1000).toFixed(1)} s`;
+};
+
+export const IngestionRunsCard = () => {
+  const [runs, setRuns] = useState<IngestionRunRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [source, setSource] = useState("all");
+  const { data: sources = [] } = useSources();
+  const [status, setStatus] = useState("all");
+  const [seriesFilter, setSeriesFilter] = useState("");
+  // The series filter applies on Enter, not on every keystroke
+  const [appliedSeriesFilter, setAppliedSeriesFilter] = useState("");
+
+  const loadRuns = useCallback(async () => {
+    setLoading(true);
+    let query = supabase
+      .from("ingestion_runs")
+      .select("*")
+      .order("started_at", { ascending: false })
+      .limit(RUN_LIMIT);
+
+    if (source !== "all") query = query.eq("source", source);
+    if (status !== "all") query = query.eq("status", status);
+    if (appliedSeriesFilter) query = query.ilike("series_id", `%${appliedSeriesFilter}%`);
+
+    const { data, error } = await query;
+    if (!error && data) {
+      setRuns(data as IngestionRunRow[]);
+    }
+    setLoading(false);
+  }, [source, status, appliedSeriesFilter]);
+
+  useEffect(() => {
+    loadRuns();
+  }, [loadRuns]);
+
+  const applySeriesFilter = () => {
+    const next = seriesFilter.trim();
+    if (next === appliedSeriesFilter) loadRuns();
+    else setAppliedSeriesFilter(next);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Ingestion History</CardTitle>
+            <CardDescription>
+              Every ingest call with its timing, row counts and provider errors
+            </CardDescription>
+          </div>
+          <Button onClick={loadRuns} disabled={loading} variant="outline">
+            {loading ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Reload
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 sm:grid-cols-3">
+          <div className="space-y-1">
+            <Label htmlFor="runs-source" className="text-xs">Source</Label>
+            <Select value={source} onValueChange={setSource}>
+              <SelectTrigger id="runs-source" className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All sources</SelectItem>
+                {sources.map((s) => (
+                  <SelectItem key={s.code} value={s.code}>{s.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="runs-status" className="text-xs">Status</Label>
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger id="runs-status" className="h-9">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                {STATUSES.map((s) => (
+                  <SelectItem key={s} value={s}>{s}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="runs-series" className="text-xs">Series ID</Label>
+            <Input
+              id="runs-series"
+              placeholder="e.g. FRED_GDPC1"
+              value={seriesFilter}
+              onChange={(e) => setSeriesFilter(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && applySeriesFilter()}
+              className="h-9"
+            />
+          </div>
+        </div>
+
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : runs.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No ingestion runs match these filters.
+          </p>
+        ) : (
+          <div className="max-h-96 overflow-auto rounded-md border border-border">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-muted z-10">
+                <tr className="border-b border-border">
+                  <th className="py-2 px-3 text-left font-medium text-muted-foreground">Started</th>
+                  <th className="py-2 px-3 text-left font-medium text-muted-foreground">Series</th>
+                  <th className="py-2 px-3 text-left font-medium text-muted-foreground">Status</th>
+                  <th className="py-2 px-3 text-right font-medium text-muted-foreground">Received</th>
+                  <th className="py-2 px-3 text-right font-medium text-muted-foreground">Inserted</th>
+                  <th className="py-2 px-3 text-right font-medium text-muted-foreground">Updated</th>
+                  <th className="py-2 px-3 text-right font-medium text-muted-foreground">Duration</th>
+                </tr>
+              </thead>
+              <tbody>
+                {runs.map((run) => (
+                  <tr key={run.id} className="border-b border-border last:border-0 hover:bg-accent/50 align-top">
+                    <td className="py-2 px-3 text-muted-foreground whitespace-nowrap">
+                      <p>{new Date(run.started_at).toLocaleString()}</p>
+                      <p className="text-xs">{run.triggered_by}</p>
+                    </td>
+                    <td className="py-2 px-3">
+                      <p className="text-foreground font-mono text-xs" title={run.series_ids?.join("\n")}>
+                        {run.series_id || (run.series_ids ? `${run.series_ids.length} series` : "—")}
+                      </p>
+                      <p className="text-xs text-muted-foreground">{run.function_name}</p>
+                      {run.error && (
+                        <details className="mt-1 max-w-[360px]">
+                          <summary className="text-xs text-destructive cursor-pointer break-words">{run.error}</summary>
+                          {run.error_details && (
+                            <pre className="mt-1 text-xs font-mono whitespace-pre-wrap break-all text-muted-foreground">
+                              {JSON.stringify(run.error_details, null, 2)}
+                            </pre>
+                          )}
+                        </details>
+                      )}
+                    </td>
+                    <td className="py-2 px-3">
+                      <Badge variant={STATUS_VARIANTS[run.status] || "secondary"}>{run.status}</Badge>
+                    </td>
+                    <td className="py-2 px-3 text-right font-mono text-foreground">{run.rows_received ?? "—"}</td>
+                    <td className="py-2 px-3 text-right font-mono text-foreground">{run.rows_inserted ?? "—"}</td>
+                    <td className="py-2 px-3 text-right font-mono text-foreground">{run.rows_updated ?? "—"}</td>
+                    <td className="py-2 px-3 text-right font-mono text-muted-foreground whitespace-nowrap">
+                      {formatDuration(run.duration_ms)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -0,0 +1,181 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, ShieldCheck } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { qualityApi } from "@/lib/api";
+import { QualityBadge } from "@/components/QualityBadge";
+import type { QualityFinding, QualityStatus } from "@/lib/types";
+
+interface QualityStatusRow {
+  series_id: string;
+  status: QualityStatus;
+  finding_count: number;
+  checked_at: string;
+  series: { title: string; source: string } | null;
+}
+
+const CHECK_LABELS: Record<QualityFinding["check_type"], string> = {
+  no_data: "No data",
+  all_null: "All values empty",
+  missing_periods: "Missing periods",
+  outlier: "Sudden jumps",
+  stale: "Stale",
+  duplicate_values: "Repeated values",
+};
+
+export const QualitySummaryCard = () => {
+  const [rows, setRows] = useState<QualityStatusRow[]>([]);
+  const [findings, setFindings] = useState<QualityFinding[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+
+  const loadSummary = async () => {
+    setLoading(true);
+    const [{ data: statusRows, error: statusError }, { data: findingRows, error: findingError }] = await Promise.all([
+      supabase
+        .from("series_quality_status")
+        .select("*, series(title, source)")
+        .order("finding_count", { ascending: false }),
+      supabase
+        .from("series_quality_findings")
+        .select("id, series_id, check_type, severity, message, detected_at")
+        .neq("severity", "info")
+        .order("id"),
+    ]);
+
+    if (!statusError && statusRows) {
+      setRows(statusRows as QualityStatusRow[]);
+    }
+    if (!findingError && findingRows) {
+      setFindings(findingRows as QualityFinding[]);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadSummary();
+  }, []);
+
+  const handleRunChecks = async () => {
+    setRunning(true);
+    try {
+      const result = await qualityApi.run();
+      toast({
+        title: "Quality checks complete",
+        description: `${result.checked} series checked: ${result.ok} OK, ${result.warning} with warnings, ${result.error} with errors`,
+        variant: result.error > 0 ? "destructive" : "default",
+      });
+      await loadSummary();
+    } catch (error) {
+      toast({
+        title: "Quality checks failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+    setRunning(false);
+  };
+
+  const countByStatus = (status: QualityStatus) => rows.filter((r) => r.status === status).length;
+  const checkCounts = Object.entries(CHECK_LABELS)
+    .map(([check, label]) => ({ label, count: new Set(findings.filter((f) => f.check_type === check).map((f) => f.series_id)).size }))
+    .filter((c) => c.count > 0);
+
+  const findingsBySeries = new Map<string, QualityFinding[]>();
+  for (const finding of findings) {
+    findingsBySeries.set(finding.series_id, [...(findingsBySeries.get(finding.series_id) || []), finding]);
+  }
+  const flagged = rows.filter((r) => r.status === "warning" || r.status === "error");
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Data Quality</CardTitle>
+            <CardDescription>
+              Gaps, sudden jumps, empty ingests, stale and repeated values, checked after every ingest
+            </CardDescription>
+          </div>
+          <Button onClick={handleRunChecks} disabled={running} variant="outline">
+            {running ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <ShieldCheck className="mr-2 h-4 w-4" />
+            )}
+            Check All
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No series have been checked yet.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {rows.length} series checked: {countByStatus("ok")} OK,{" "}
+              {countByStatus("warning")} with warnings, {countByStatus("error")} with errors
+            </p>
+            {checkCounts.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {checkCounts.map((c) => (
+                  <Badge key={c.label} variant="secondary">
+                    {c.label}: {c.count}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {flagged.length > 0 && (
+              <div className="max-h-80 overflow-auto rounded-md border border-border">
+                <table className="w-full text-sm">
+                  <thead className="sticky top-0 bg-muted z-10">
+                    <tr className="border-b border-border">
+                      <th className="py-2 px-3 text-left font-medium text-muted-foreground">Series</th>
+                      <th className="py-2 px-3 text-left font-medium text-muted-foreground">Status</th>
+                      <th className="py-2 px-3 text-left font-medium text-muted-foreground">Findings</th>
+                      <th className="py-2 px-3 text-left font-medium text-muted-foreground">Checked</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {flagged.map((row) => (
+                      <tr key={row.series_id} className="border-b border-border last:border-0 hover:bg-accent/50 align-top">
+                        <td className="py-2 px-3">
+                          <p className="text-foreground truncate max-w-[260px]" title={row.series?.title}>
+                            {row.series?.title || row.series_id}
+                          </p>
+                          <p className="text-xs text-muted-foreground font-mono">{row.series_id}</p>
+                        </td>
+                        <td className="py-2 px-3">
+                          <QualityBadge status={row.status} findingCount={row.finding_count} />
+                        </td>
+                        <td className="py-2 px-3">
+                          {(findingsBySeries.get(row.series_id) || []).map((finding) => (
+                            <p key={finding.id} className="text-xs text-foreground break-words max-w-[360px]">
+                              {finding.message}
+                            </p>
+                          ))}
+                        </td>
+                        <td className="py-2 px-3 text-muted-foreground whitespace-nowrap">
+                          {new Date(row.checked_at).toLocaleString()}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
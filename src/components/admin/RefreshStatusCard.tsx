@@ -0,0 +1,151 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, RefreshCw } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import { refreshApi } from "@/lib/api";
+
+interface RefreshStatusRow {
+  series_id: string;
+  last_attempt_at: string;
+  last_success_at: string | null;
+  status: string;
+  error: string | null;
+  observation_count: number | null;
+  series: { title: string; source: string } | null;
+}
+
+const STATUS_VARIANTS: Record<string, "default" | "secondary" | "destructive" | "outline"> = {
+  success: "default",
+  skipped: "outline",
+  error: "destructive",
+};
+
+export const RefreshStatusCard = () => {
+  const [rows, setRows] = useState<RefreshStatusRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [running, setRunning] = useState(false);
+
+  const loadStatus = async () => {
+    setLoading(true);
+    const { data, error } = await supabase
+      .from("series_refresh_status")
+      .select("*, series(title, source)")
+      .order("last_attempt_at", { ascending: false });
+
+    if (!error && data) {
+      setRows(data as RefreshStatusRow[]);
+    }
+    setLoading(false);
+  };
+
+  useEffect(() => {
+    loadStatus();
+  }, []);
+
+  const handleRunNow = async () => {
+    setRunning(true);
+    try {
+      const result = await refreshApi.run();
+      toast({
+        title: "Refresh complete",
+        description: `${result.succeeded} updated, ${result.failed} failed, ${result.skipped} skipped${
+          result.deferred > 0 ? `, ${result.deferred} left for the next run` : ""
+        } (${result.total} series total)`,
+        variant: result.failed > 0 ? "destructive" : "default",
+      });
+      await loadStatus();
+    } catch (error) {
+      toast({
+        title: "Refresh failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+    setRunning(false);
+  };
+
+  const failedCount = rows.filter((r) => r.status === "error").length;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-start justify-between gap-4">
+          <div>
+            <CardTitle>Scheduled Refresh</CardTitle>
+            <CardDescription>
+              Every series is re-ingested from its provider by an hourly job, stalest first
+            </CardDescription>
+          </div>
+          <Button onClick={handleRunNow} disabled={running} variant="outline">
+            {running ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <RefreshCw className="mr-2 h-4 w-4" />
+            )}
+            Run Now
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {loading ? (
+          <div className="flex items-center justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No refresh has run yet.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-muted-foreground">
+              {rows.length} series tracked, {failedCount} failing
+            </p>
+            <div className="max-h-80 overflow-auto rounded-md border border-border">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-muted z-10">
+                  <tr className="border-b border-border">
+                    <th className="py-2 px-3 text-left font-medium text-muted-foreground">Series</th>
+                    <th className="py-2 px-3 text-left font-medium text-muted-foreground">Status</th>
+                    <th className="py-2 px-3 text-left font-medium text-muted-foreground">Last attempt</th>
+                    <th className="py-2 px-3 text-left font-medium text-muted-foreground">Last success</th>
+                    <th className="py-2 px-3 text-right font-medium text-muted-foreground">Obs.</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map((row) => (
+                    <tr key={row.series_id} className="border-b border-border last:border-0 hover:bg-accent/50 align-top">
+                      <td className="py-2 px-3">
+                        <p className="text-foreground truncate max-w-[260px]" title={row.series?.title}>
+                          {row.series?.title || row.series_id}
+                        </p>
+                        <p className="text-xs text-muted-foreground font-mono">{row.series_id}</p>
+                        {row.error && (
+                          <p className="text-xs text-destructive mt-1 break-words max-w-[320px]">{row.error}</p>
+                        )}
+                      </td>
+                      <td className="py-2 px-3">
+                        <Badge variant={STATUS_VARIANTS[row.status] || "secondary"}>{row.status}</Badge>
+                      </td>
+                      <td className="py-2 px-3 text-muted-foreground whitespace-nowrap">
+                        {new Date(row.last_attempt_at).toLocaleString()}
+                      </td>
+                      <td className="py-2 px-3 text-muted-foreground whitespace-nowrap">
+                        {row.last_success_at ? new Date(row.last_success_at).toLocaleString() : "—"}
+                      </td>
+                      <td className="py-2 px-3 text-right font-mono text-foreground">
+                        {row.observation_count ?? "—"}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
@@ -11,7 +11,8 @@ import {
 import { ScrollArea } from "@/components/ui/scroll-area";
 import { supabase } from "@/integrations/supabase/client";
 import { DataExporter } from "./DataExporter";
-import type { SelectedSeries, Transformation, Currency } from "@/lib/types";
+import { OBSERVATION_STATUS_LABELS, observationStatusLabel, statusKey, usedStatuses } from "@/lib/observationFlags";
+import type { SelectedSeries, Transformation, Currency, ObservationFootnote } from "@/lib/types";
 
 interface AnalysisDataTableProps {
   selectedSeries: SelectedSeries[];
@@ -32,6 +33,7 @@ export const AnalysisDataTable = ({
   currency,
 }: AnalysisDataTableProps) => {
   const [data, setData] = useState<ObservationPoint[]>([]);
+  const [footnotes, setFootnotes] = useState<ObservationFootnote[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -41,6 +43,7 @@ export const AnalysisDataTable = ({
   const fetchAndMergeData = async () => {
     if (selectedSeries.length === 0) {
       setData([]);
+      setFootnotes([]);
       setLoading(false);
       return;
     }
@@ -48,13 +51,14 @@ export const AnalysisDataTable = ({
     setLoading(true);
     try {
       const allObservations: { [seriesId: string]: { [date: string]: number | null } } = {};
+      const allStatuses: { [seriesId: string]: { [date: string]: string | null } } = {};
 
       for (const series of selectedSeries) {
         const valueColumn = currency === "EUR" ? "value_eur" : currency === "USD" ? "value_usd" : "value";
 
         const { data: obs, error } = await supabase
           .from("observations")
-          .select(`date, ${valueColumn}`)
+          .select(`date, ${valueColumn}, status`)
           .eq("series_id", series.id)
           .gte("date", dateRange.start)
           .lte("date", dateRange.end)
@@ -63,11 +67,21 @@ export const AnalysisDataTable = ({
         if (error) throw error;
 
         allObservations[series.id] = {};
+        allStatuses[series.id] = {};
         obs?.forEach((o: any) => {
           allObservations[series.id][o.date] = o[valueColumn];
+          allStatuses[series.id][o.date] = o.status;
         });
       }
 
+      const { data: notes, error: notesError } = await supabase
+        .from("observation_footnotes")
+        .select("id, series_id, date, footnote")
+        .in("series_id", selectedSeries.map((s) => s.id))
+        .order("id");
+
+      if (notesError) throw notesError;
+
       const allDates = new Set<string>();
       Object.values(allObservations).forEach((obs) => {
         Object.keys(obs).forEach((date) => allDates.add(date));
@@ -80,6 +94,7 @@ export const AnalysisDataTable = ({
 
         selectedSeries.forEach((series) => {
           point[series.id] = allObservations[series.id]?.[date] ?? null;
+          point[statusKey(series.id)] = allStatuses[series.id]?.[date] ?? null;
         });
 
         transformations.forEach((t) => {
@@ -110,6 +125,12 @@ export const AnalysisDataTable = ({
       });
 
       setData(mergedData);
+      // Dated notes outside the selected range would only clutter the list
+      setFootnotes(
+        ((notes || []) as ObservationFootnote[]).filter(
+          (n) => n.date === null || (n.date >= dateRange.start && n.date <= dateRange.end),
+        ),
+      );
     } catch (error) {
       console.error("Error fetching data:", error);
     } finally {
@@ -123,6 +144,9 @@ export const AnalysisDataTable = ({
     return val.toLocaleString(undefined, { maximumFractionDigits: 2 });
   };
 
+  const flaggedStatuses = usedStatuses(data, selectedSeries.map((s) => s.id));
+  const seriesTitle = (seriesId: string) => selectedSeries.find((s) => s.id === seriesId)?.title ?? seriesId;
+
   if (loading) {
     return (
       <Card>
@@ -152,6 +176,7 @@ export const AnalysisDataTable = ({
             data={data}
             selectedSeries={selectedSeries}
             transformations={transformations}
+            footnotes={footnotes}
           />
         </div>
       </CardHeader>
@@ -178,7 +203,17 @@ export const AnalysisDataTable = ({
                 <TableRow key={row.date}>
                   <TableCell className="sticky left-0 bg-card font-medium">{row.date}</TableCell>
                   {selectedSeries.map((series) => (
-                    <TableCell key={series.id}>{formatValue(row[series.id])}</TableCell>
+                    <TableCell key={series.id}>
+                      {formatValue(row[series.id])}
+                      {row[statusKey(series.id)] && (
+                        <sup
+                          className="ml-1 text-muted-foreground"
+                          title={observationStatusLabel(row[statusKey(series.id)] as string) ?? undefined}
+                        >
+                          {row[statusKey(series.id)]}
+                        </sup>
+                      )}
+                    </TableCell>
                   ))}
                   {transformations.map((t) => (
                     <TableCell key={t.id} className="font-medium">
@@ -190,6 +225,25 @@ export const AnalysisDataTable = ({
             </TableBody>
           </Table>
         </ScrollArea>
+        {(flaggedStatuses.length > 0 || footnotes.length > 0) && (
+          <div className="mt-4 space-y-2 text-xs text-muted-foreground">
+            {flaggedStatuses.length > 0 && (
+              <p>
+                {flaggedStatuses.map((s) => `${s} = ${OBSERVATION_STATUS_LABELS[s].toLowerCase()}`).join("; ")}
+              </p>
+            )}
+            {footnotes.length > 0 && (
+              <ul className="space-y-1">
+                {footnotes.map((note) => (
+                  <li key={note.id}>
+                    <span className="font-medium text-foreground">{seriesTitle(note.series_id)}</span>
+                    {note.date && <span className="font-mono"> ({note.date})</span>}: {note.footnote}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
       </CardContent>
     </Card>
   );
@@ -0,0 +1,89 @@
+import { useEffect, useState, type FormEvent } from "react";
+import { Loader2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+
+interface AnalysisNameDialogProps {
+  open: boolean;
+  title: string;
+  description: string;
+  initialName: string;
+  submitLabel: string;
+  onSubmit: (name: string) => Promise<void>;
+  onOpenChange: (open: boolean) => void;
+}
+
+/**
+ * Asks for an analysis name when saving a new analysis or renaming one
+ */
+export const AnalysisNameDialog = ({
+  open,
+  title,
+  description,
+  initialName,
+  submitLabel,
+  onSubmit,
+  onOpenChange,
+}: AnalysisNameDialogProps) => {
+  const [name, setName] = useState(initialName);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open) setName(initialName);
+  }, [open, initialName]);
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+    setSaving(true);
+    try {
+      await onSubmit(name.trim());
+      onOpenChange(false);
+    } catch {
+      // onSubmit reports the error; the dialog stays open to retry
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{title}</DialogTitle>
+            <DialogDescription>{description}</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-2 py-4">
+            <Label htmlFor="analysis-name">Name</Label>
+            <Input
+              id="analysis-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              placeholder="e.g. Euro area inflation vs. policy rate"
+              autoFocus
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !name.trim()}>
+              {saving && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              {submitLabel}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
@@ -1,15 +1,21 @@
 import { Download, FileSpreadsheet } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import * as XLSX from "xlsx";
-import type { SelectedSeries, Transformation } from "@/lib/types";
+import { OBSERVATION_STATUS_LABELS, statusKey, usedStatuses } from "@/lib/observationFlags";
+import type { ObservationFootnote, SelectedSeries, Transformation } from "@/lib/types";
 
 interface DataExporterProps {
   data: Array<{ date: string; [key: string]: number | string | null }>;
   selectedSeries: SelectedSeries[];
   transformations: Transformation[];
+  /** Provider footnotes for the selected series, exported below the data */
+  footnotes?: ObservationFootnote[];
 }
 
-export const DataExporter = ({ data, selectedSeries, transformations }: DataExporterProps) => {
+export const DataExporter = ({ data, selectedSeries, transformations, footnotes = [] }: DataExporterProps) => {
+  // A status column is only added for series that have at least one flagged observation
+  const flaggedSeries = selectedSeries.filter((series) => usedStatuses(data, [series.id]).length > 0);
+
   const formatValue = (val: number | string | null): string | number => {
     if (val === null || val === undefined) return "";
     if (typeof val === "string") return val;
@@ -24,6 +30,9 @@ export const DataExporter = ({ data, selectedSeries, transformations }: DataExpo
 
       selectedSeries.forEach((series) => {
         exportRow[series.title] = formatValue(row[series.id]);
+        if (flaggedSeries.includes(series)) {
+          exportRow[`${series.title} status`] = formatValue(row[statusKey(series.id)]);
+        }
       });
 
       transformations.forEach((t) => {
@@ -34,6 +43,16 @@ export const DataExporter = ({ data, selectedSeries, transformations }: DataExpo
     });
   };
 
+  // Status legend and footnotes as [series, date, note] rows
+  const prepareNotes = (): string[][] => {
+    const statuses = usedStatuses(data, selectedSeries.map((s) => s.id));
+    const titleFor = (seriesId: string) => selectedSeries.find((s) => s.id === seriesId)?.title ?? seriesId;
+    return [
+      ...statuses.map((status) => ["", "", `${status} = ${OBSERVATION_STATUS_LABELS[status]}`]),
+      ...footnotes.map((note) => [titleFor(note.series_id), note.date ?? "", note.footnote]),
+    ];
+  };
+
   const exportToCSV = () => {
     const exportData = prepareExportData();
     if (exportData.length === 0) return;
@@ -50,9 +69,17 @@ export const DataExporter = ({ data, selectedSeries, transformations }: DataExpo
           return value;
         }).join(",")
       ),
-    ].join("\n");
+    ];
 
-    const blob = new Blob([csvContent], { type: "text/csv;charset=utf-8;" });
+    const notes = prepareNotes();
+    if (notes.length > 0) {
+      csvContent.push("", "Series,Date,Note");
+      notes.forEach((note) => {
+        csvContent.push(note.map((cell) => (/[",\n]/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell)).join(","));
+      });
+    }
+
+    const blob = new Blob([csvContent.join("\n")], { type: "text/csv;charset=utf-8;" });
     const link = document.createElement("a");
     const url = URL.createObjectURL(blob);
     link.setAttribute("href", url);
@@ -76,6 +103,13 @@ export const DataExporter = ({ data, selectedSeries, transformations }: DataExpo
     }));
     worksheet["!cols"] = colWidths;
 
+    const notes = prepareNotes();
+    if (notes.length > 0) {
+      const notesSheet = XLSX.utils.aoa_to_sheet([["Series", "Date", "Note"], ...notes]);
+      notesSheet["!cols"] = [{ wch: 30 }, { wch: 12 }, { wch: 80 }];
+      XLSX.utils.book_append_sheet(workbook, notesSheet, "Footnotes");
+    }
+
     XLSX.writeFile(workbook, `analysis_${new Date().toISOString().split("T")[0]}.xlsx`);
   };
 
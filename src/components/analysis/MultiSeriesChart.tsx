@@ -2,6 +2,7 @@ import { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { supabase } from "@/integrations/supabase/client";
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from "recharts";
+import { observationStatusLabel, statusKey, usedStatuses } from "@/lib/observationFlags";
 import type { SelectedSeries, Transformation, Currency } from "@/lib/types";
 
 interface MultiSeriesChartProps {
@@ -16,6 +17,14 @@ type ObservationPoint = {
   [key: string]: number | string | null;
 };
 
+// Props recharts passes to a custom Line dot
+interface StatusDotProps {
+  cx?: number;
+  cy?: number;
+  index?: number;
+  payload?: ObservationPoint;
+}
+
 const COLORS = [
   "hsl(var(--chart-1))",
   "hsl(var(--chart-2))",
@@ -47,13 +56,14 @@ export const MultiSeriesChart = ({
     setLoading(true);
     try {
       const allObservations: { [seriesId: string]: { [date: string]: number | null } } = {};
+      const allStatuses: { [seriesId: string]: { [date: string]: string | null } } = {};
 
       for (const series of selectedSeries) {
         const valueColumn = currency === "EUR" ? "value_eur" : currency === "USD" ? "value_usd" : "value";
 
         const { data: obs, error } = await supabase
           .from("observations")
-          .select(`date, ${valueColumn}`)
+          .select(`date, ${valueColumn}, status`)
           .eq("series_id", series.id)
           .gte("date", dateRange.start)
           .lte("date", dateRange.end)
@@ -62,8 +72,10 @@ export const MultiSeriesChart = ({
         if (error) throw error;
 
         allObservations[series.id] = {};
+        allStatuses[series.id] = {};
         obs?.forEach((o: any) => {
           allObservations[series.id][o.date] = o[valueColumn];
+          allStatuses[series.id][o.date] = o.status;
         });
       }
 
@@ -79,6 +91,7 @@ export const MultiSeriesChart = ({
 
         selectedSeries.forEach((series) => {
           point[series.id] = allObservations[series.id]?.[date] ?? null;
+          point[statusKey(series.id)] = allStatuses[series.id]?.[date] ?? null;
         });
 
         transformations.forEach((t) => {
@@ -116,6 +129,33 @@ export const MultiSeriesChart = ({
     }
   };
 
+  // Only flagged observations get a dot, so provisional or estimated values stand out
+  const renderStatusDot = (seriesId: string, color: string) => (props: StatusDotProps) => {
+    const { cx, cy, payload, index } = props;
+    if (!payload?.[statusKey(seriesId)] || cx === undefined || cy === undefined) {
+      return <g key={`${seriesId}-${index}`} />;
+    }
+    return (
+      <circle
+        key={`${seriesId}-${index}`}
+        cx={cx}
+        cy={cy}
+        r={3.5}
+        fill="hsl(var(--card))"
+        stroke={color}
+        strokeWidth={2}
+      />
+    );
+  };
+
+  const formatTooltipValue = (value: number | string, name: string, item: { dataKey?: unknown; payload?: ObservationPoint }) => {
+    const status = item?.payload?.[statusKey(String(item?.dataKey))] as string | null | undefined;
+    const label = observationStatusLabel(status);
+    return label ? [`${value} (${label})`, name] : [value, name];
+  };
+
+  const flaggedStatuses = usedStatuses(data, selectedSeries.map((s) => s.id));
+
   if (loading) {
     return (
       <Card>
@@ -152,6 +192,7 @@ export const MultiSeriesChart = ({
             />
             <YAxis stroke="hsl(var(--muted-foreground))" tick={{ fill: "hsl(var(--muted-foreground))" }} />
             <Tooltip
+              formatter={formatTooltipValue}
               contentStyle={{
                 backgroundColor: "hsl(var(--card))",
                 border: "1px solid hsl(var(--border))",
@@ -167,7 +208,7 @@ export const MultiSeriesChart = ({
                 name={series.title}
                 stroke={COLORS[idx % COLORS.length]}
                 strokeWidth={2}
-                dot={false}
+                dot={renderStatusDot(series.id, COLORS[idx % COLORS.length])}
                 connectNulls
               />
             ))}
@@ -186,6 +227,11 @@ export const MultiSeriesChart = ({
             ))}
           </LineChart>
         </ResponsiveContainer>
+        {flaggedStatuses.length > 0 && (
+          <p className="mt-2 text-xs text-muted-foreground">
+            Hollow markers: {flaggedStatuses.map((s) => observationStatusLabel(s)?.toLowerCase()).join(", ")} values
+          </p>
+        )}
       </CardContent>
     </Card>
   );
@@ -7,6 +7,7 @@ import { Badge } from "@/components/ui/badge";
 import { supabase } from "@/integrations/supabase/client";
 import { SourceSelector } from "@/components/SourceSelector";
 import type { DataSource, SelectedSeries } from "@/lib/types";
+import { seriesTextFilter } from "@/lib/unifiedSearch";
 
 interface Series {
   id: string;
@@ -44,7 +45,7 @@ export const MultiSeriesSelector = ({
       }
 
       if (searchQuery) {
-        query = query.or(`title.ilike.%${searchQuery}%,id.ilike.%${searchQuery}%`);
+        query = query.or(seriesTextFilter(searchQuery));
       }
 
       const { data, error } = await query.order("title", { ascending: true }).limit(50);
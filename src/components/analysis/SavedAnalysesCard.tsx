@@ -0,0 +1,205 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Copy, FolderOpen, Link2, Loader2, MoreHorizontal, Pencil, Trash2 } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { AnalysisNameDialog } from "@/components/analysis/AnalysisNameDialog";
+import { useAuth } from "@/hooks/use-auth";
+import { toast } from "@/hooks/use-toast";
+import {
+  analysisShareUrl,
+  deleteSavedAnalysis,
+  duplicateSavedAnalysis,
+  listSavedAnalyses,
+  updateSavedAnalysis,
+} from "@/lib/savedAnalyses";
+import type { SavedAnalysis } from "@/lib/types";
+
+interface SavedAnalysesCardProps {
+  /** Analysis currently open in the builder */
+  currentId: string | null;
+  onOpen: (analysis: SavedAnalysis) => void;
+  onRenamed: (analysis: SavedAnalysis) => void;
+  onDeleted: (id: string) => void;
+}
+
+// Supabase errors are plain objects with a message, not Error instances
+const reportError = (title: string, error: unknown) => {
+  toast({
+    title,
+    description: (error as { message?: string } | null)?.message || "Unknown error",
+    variant: "destructive",
+  });
+};
+
+/**
+ * "My analyses": the signed-in user's saved analyses with open, rename,
+ * duplicate, copy link and delete actions
+ */
+export const SavedAnalysesCard = ({ currentId, onOpen, onRenamed, onDeleted }: SavedAnalysesCardProps) => {
+  const queryClient = useQueryClient();
+  const { session } = useAuth();
+  const userId = session?.user.id ?? null;
+  const [renaming, setRenaming] = useState<SavedAnalysis | null>(null);
+  const [deleting, setDeleting] = useState<SavedAnalysis | null>(null);
+
+  const { data: analyses = [], isLoading } = useQuery({
+    queryKey: ["saved-analyses", userId],
+    queryFn: listSavedAnalyses,
+    enabled: userId !== null,
+  });
+
+  const refresh = () => queryClient.invalidateQueries({ queryKey: ["saved-analyses"] });
+
+  const handleRename = async (name: string) => {
+    if (!renaming) return;
+    try {
+      const updated = await updateSavedAnalysis(renaming.id, { name });
+      onRenamed(updated);
+      refresh();
+    } catch (error) {
+      reportError("Rename failed", error);
+      throw error;
+    }
+  };
+
+  const handleDuplicate = async (analysis: SavedAnalysis) => {
+    try {
+      const copy = await duplicateSavedAnalysis(analysis);
+      refresh();
+      toast({ title: "Analysis duplicated", description: copy.name });
+    } catch (error) {
+      reportError("Duplicate failed", error);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!deleting) return;
+    try {
+      await deleteSavedAnalysis(deleting.id);
+      onDeleted(deleting.id);
+      refresh();
+      toast({ title: "Analysis deleted", description: deleting.name });
+    } catch (error) {
+      reportError("Delete failed", error);
+    } finally {
+      setDeleting(null);
+    }
+  };
+
+  const handleCopyLink = async (analysis: SavedAnalysis) => {
+    try {
+      await navigator.clipboard.writeText(analysisShareUrl(analysis.id));
+      toast({ title: "Link copied", description: "Anyone with the link can view this analysis." });
+    } catch (error) {
+      reportError("Could not copy the link", error);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <CardTitle className="text-base">My analyses</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-4">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : analyses.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Saved analyses appear here.</p>
+        ) : (
+          <ul className="space-y-1">
+            {analyses.map((analysis) => (
+              <li
+                key={analysis.id}
+                className={`flex items-center gap-2 rounded-md px-2 py-1.5 ${
+                  analysis.id === currentId ? "bg-primary/10" : "hover:bg-muted"
+                }`}
+              >
+                <button type="button" className="min-w-0 flex-1 text-left" onClick={() => onOpen(analysis)}>
+                  <p className="truncate text-sm font-medium text-foreground">{analysis.name}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {analysis.config.selectedSeries.length} series · {new Date(analysis.updated_at).toLocaleDateString()}
+                  </p>
+                </button>
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="icon" className="h-7 w-7" aria-label={`Actions for ${analysis.name}`}>
+                      <MoreHorizontal className="h-4 w-4" />
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="end">
+                    <DropdownMenuItem onClick={() => onOpen(analysis)}>
+                      <FolderOpen className="mr-2 h-4 w-4" />
+                      Open
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => setRenaming(analysis)}>
+                      <Pencil className="mr-2 h-4 w-4" />
+                      Rename
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleDuplicate(analysis)}>
+                      <Copy className="mr-2 h-4 w-4" />
+                      Duplicate
+                    </DropdownMenuItem>
+                    <DropdownMenuItem onClick={() => handleCopyLink(analysis)}>
+                      <Link2 className="mr-2 h-4 w-4" />
+                      Copy link
+                    </DropdownMenuItem>
+                    <DropdownMenuSeparator />
+                    <DropdownMenuItem className="text-destructive" onClick={() => setDeleting(analysis)}>
+                      <Trash2 className="mr-2 h-4 w-4" />
+                      Delete
+                    </DropdownMenuItem>
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+
+      <AnalysisNameDialog
+        open={renaming !== null}
+        title="Rename analysis"
+        description="The share link stays the same."
+        initialName={renaming?.name ?? ""}
+        submitLabel="Rename"
+        onSubmit={handleRename}
+        onOpenChange={(open) => !open && setRenaming(null)}
+      />
+
+      <AlertDialog open={deleting !== null} onOpenChange={(open) => !open && setDeleting(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete "{deleting?.name}"?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The analysis and its share link are removed. The series it uses stay in the warehouse.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={handleDelete}>Delete</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
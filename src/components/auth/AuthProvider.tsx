@@ -0,0 +1,50 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { useQuery } from "@tanstack/react-query";
+import type { Session } from "@supabase/supabase-js";
+import { supabase } from "@/integrations/supabase/client";
+import { AuthContext } from "@/hooks/use-auth";
+import type { AppRole } from "@/lib/types";
+
+interface AuthProviderProps {
+  children: ReactNode;
+}
+
+export const AuthProvider = ({ children }: AuthProviderProps) => {
+  const [session, setSession] = useState<Session | null>(null);
+  const [sessionLoading, setSessionLoading] = useState(true);
+
+  useEffect(() => {
+    // Subscribe before reading the stored session so no sign-in is missed
+    const { data: { subscription } } = supabase.auth.onAuthStateChange((_event, newSession) => {
+      setSession(newSession);
+    });
+    supabase.auth.getSession().then(({ data }) => {
+      setSession(data.session);
+      setSessionLoading(false);
+    });
+    return () => subscription.unsubscribe();
+  }, []);
+
+  const userId = session?.user.id ?? null;
+  const { data: role = null, isLoading: roleLoading } = useQuery({
+    queryKey: ["user-role", userId],
+    enabled: userId !== null,
+    queryFn: async (): Promise<AppRole> => {
+      const { data, error } = await supabase.from("user_roles").select("role").eq("user_id", userId!).maybeSingle();
+      if (error) throw error;
+      // Accounts created before roles existed have no row
+      return data?.role ?? "viewer";
+    },
+  });
+
+  const signOut = async () => {
+    const { error } = await supabase.auth.signOut();
+    if (error) throw error;
+  };
+
+  return (
+    <AuthContext.Provider value={{ session, role, loading: sessionLoading || roleLoading, signOut }}>
+      {children}
+    </AuthContext.Provider>
+  );
+};
@@ -0,0 +1,50 @@
+import type { ReactNode } from "react";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import { Loader2, ShieldAlert } from "lucide-react";
+import { hasRole, useAuth } from "@/hooks/use-auth";
+import type { AppRole } from "@/lib/types";
+
+interface RequireRoleProps {
+  role: AppRole;
+  children: ReactNode;
+}
+
+/**
+ * Route guard: signed-out visitors are sent to /auth and brought back after
+ * signing in; users without the role see an explanation instead of the page
+ */
+export const RequireRole = ({ role, children }: RequireRoleProps) => {
+  const { session, role: userRole, loading } = useAuth();
+  const location = useLocation();
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-background">
+        <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!session) {
+    return <Navigate to="/auth" replace state={{ from: location.pathname }} />;
+  }
+
+  if (!hasRole(userRole, role)) {
+    return (
+      <div className="flex min-h-screen items-center justify-center bg-muted">
+        <div className="max-w-md text-center">
+          <ShieldAlert className="mx-auto mb-4 h-10 w-10 text-muted-foreground" />
+          <h1 className="mb-2 text-2xl font-bold">No access</h1>
+          <p className="mb-4 text-muted-foreground">
+            This page needs the {role} role. You are signed in as {session.user.email} with the {userRole} role.
+          </p>
+          <Link to="/" className="text-primary underline hover:text-primary/90">
+            Return to Home
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  return <>{children}</>;
+};
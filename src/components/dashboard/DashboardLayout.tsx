@@ -1,12 +1,33 @@
 import { ReactNode } from "react";
-import { TrendingUp, LayoutDashboard, Search, BarChart3, Settings, Database, Building2 } from "lucide-react";
+import { Link } from "react-router-dom";
+import { TrendingUp, LayoutDashboard, Search, BarChart3, Settings, Database, Building2, Upload, LogIn, LogOut } from "lucide-react";
 import { NavLink } from "@/components/NavLink";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { hasRole, useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 
 interface DashboardLayoutProps {
   children: ReactNode;
 }
 
 export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
+  const { toast } = useToast();
+  const { session, role, signOut } = useAuth();
+  const isAdmin = hasRole(role, "admin");
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      toast({
+        title: "Sign out failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -64,15 +85,46 @@ export const DashboardLayout = ({ children }: DashboardLayoutProps) => {
                 <BarChart3 className="h-4 w-4" />
                 Analysis
               </NavLink>
-              <NavLink 
-                to="/admin"
-                className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-muted-foreground hover:text-foreground rounded-md hover:bg-muted transition-colors"
-                activeClassName="text-primary bg-primary/10"
-              >
-                <Settings className="h-4 w-4" />
-                Admin
-              </NavLink>
+              {isAdmin && (
+                <>
+                  <NavLink 
+                    to="/upload"
+                    className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-muted-foreground hover:text-foreground rounded-md hover:bg-muted transition-colors"
+                    activeClassName="text-primary bg-primary/10"
+                  >
+                    <Upload className="h-4 w-4" />
+                    Upload
+                  </NavLink>
+                  <NavLink 
+                    to="/admin"
+                    className="flex items-center gap-2 px-3 py-2 text-sm font-medium text-muted-foreground hover:text-foreground rounded-md hover:bg-muted transition-colors"
+                    activeClassName="text-primary bg-primary/10"
+                  >
+                    <Settings className="h-4 w-4" />
+                    Admin
+                  </NavLink>
+                </>
+              )}
             </nav>
+            <div className="flex items-center gap-2">
+              {session ? (
+                <>
+                  <span className="hidden lg:inline text-sm text-muted-foreground">{session.user.email}</span>
+                  {role && <Badge variant="secondary" className="capitalize">{role}</Badge>}
+                  <Button variant="ghost" size="sm" onClick={handleSignOut}>
+                    <LogOut className="h-4 w-4 mr-2" />
+                    Sign out
+                  </Button>
+                </>
+              ) : (
+                <Button variant="outline" size="sm" asChild>
+                  <Link to="/auth">
+                    <LogIn className="h-4 w-4 mr-2" />
+                    Sign in
+                  </Link>
+                </Button>
+              )}
+            </div>
           </div>
         </div>
       </header>
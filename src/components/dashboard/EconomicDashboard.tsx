@@ -1,10 +1,12 @@
 import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
 import { RefreshCw, AlertCircle, CheckCircle2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { useToast } from "@/hooks/use-toast";
 import { FeaturedIndicatorCard, FeaturedIndicator } from "./FeaturedIndicatorCard";
 import { fredApi, statfinApi, ecbApi } from "@/lib/api";
+import { supabase } from "@/integrations/supabase/client";
 
 // Featured indicators configuration
 // To add new indicators:
@@ -153,6 +155,20 @@ export const EconomicDashboard = () => {
   const [refreshing, setRefreshing] = useState(false);
   const { toast } = useToast();
 
+  // Series uploaded from CSV and Excel files are shown below the featured ones
+  const { data: uploadedIndicators = [] } = useQuery({
+    queryKey: ["series", "USER"],
+    queryFn: async (): Promise<FeaturedIndicator[]> => {
+      const { data, error } = await supabase
+        .from("series")
+        .select("id, title")
+        .eq("source", "USER")
+        .order("title");
+      if (error) throw error;
+      return (data || []).map((s) => ({ seriesId: s.id, label: s.title, source: "USER" }));
+    },
+  });
+
   const handleRefreshData = async () => {
     setRefreshing(true);
     let successCount = 0;
@@ -264,6 +280,18 @@ export const EconomicDashboard = () => {
         ))}
       </div>
 
+      {/* Uploaded Series Grid */}
+      {uploadedIndicators.length > 0 && (
+        <div className="space-y-3">
+          <h3 className="text-lg font-semibold text-foreground">Uploaded Series</h3>
+          <div className="grid gap-4 sm:grid-cols-2 lg:grid-cols-3">
+            {uploadedIndicators.map((indicator) => (
+              <FeaturedIndicatorCard key={indicator.seriesId} indicator={indicator} />
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Help Card */}
       <Card className="bg-muted/30">
         <CardHeader className="pb-2">
@@ -279,7 +307,8 @@ export const EconomicDashboard = () => {
             visualization of recent trends. Click "Refresh Data" to fetch the latest values.
           </p>
           <p>
-            For detailed analysis and custom queries, use the <strong>Data Explorer</strong> tab.
+            For detailed analysis and custom queries, use the <strong>Data Explorer</strong> tab. Your own
+            CSV or Excel data can be added from the <strong>Upload</strong> tab.
           </p>
         </CardContent>
       </Card>
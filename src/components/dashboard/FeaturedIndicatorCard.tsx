@@ -6,10 +6,11 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { LineChart, Line, ResponsiveContainer } from "recharts";
 import { TrendingUp, TrendingDown, Minus, CheckCircle2, AlertCircle, XCircle } from "lucide-react";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
+import { formatObservationRange, formatProviderUpdated, formatUnitMultiplier } from "@/lib/seriesMetadata";
 export interface FeaturedIndicator {
   seriesId: string;
   label: string;
-  source: "FRED" | "STATFIN" | "ECB" | "EUROSTAT" | "OECD" | "WORLDBANK";
+  source: string; // A sources.code
   currency?: "original" | "EUR" | "USD";
   isInflationIndex?: boolean; // If true, calculates YoY inflation rate
 }
@@ -21,6 +22,12 @@ interface SeriesMetadata {
   currency_orig: string | null;
   updated_at: string;
   geo: string | null;
+  seasonal_adjustment: string | null;
+  unit_multiplier: number | null;
+  provider_updated_at: string | null;
+  observation_start: string | null;
+  observation_end: string | null;
+  license: string | null;
 }
 
 interface Observation {
@@ -43,7 +50,9 @@ export const FeaturedIndicatorCard = ({ indicator }: { indicator: FeaturedIndica
         // Fetch series metadata
         const { data: seriesData, error: seriesError } = await supabase
           .from("series")
-          .select("title, description, unit_original, currency_orig, updated_at, geo")
+          .select(
+            "title, description, unit_original, currency_orig, updated_at, geo, seasonal_adjustment, unit_multiplier, provider_updated_at, observation_start, observation_end, license"
+          )
           .eq("id", indicator.seriesId)
           .maybeSingle();
 
@@ -180,6 +189,11 @@ export const FeaturedIndicatorCard = ({ indicator }: { indicator: FeaturedIndica
   const freshness = getDataFreshness();
   const FreshnessIcon = freshness.icon;
 
+  const scale = formatUnitMultiplier(metadata.unit_multiplier);
+  const observationRange = formatObservationRange(metadata.observation_start, metadata.observation_end);
+  const providerUpdated = formatProviderUpdated(metadata.provider_updated_at);
+  const seriesDetails = [metadata.seasonal_adjustment, scale, metadata.unit_original].filter(Boolean).join(" · ");
+
   return (
     <Card className="overflow-hidden hover:shadow-md transition-shadow">
       <CardHeader className="pb-2">
@@ -191,6 +205,11 @@ export const FeaturedIndicatorCard = ({ indicator }: { indicator: FeaturedIndica
             <p className="text-xs text-muted-foreground truncate" title={metadata.title}>
               {metadata.title}
             </p>
+            {seriesDetails && (
+              <p className="text-xs text-muted-foreground truncate" title={seriesDetails}>
+                {seriesDetails}
+              </p>
+            )}
           </div>
           <Badge 
             variant="secondary" 
@@ -260,6 +279,15 @@ export const FeaturedIndicatorCard = ({ indicator }: { indicator: FeaturedIndica
                     minute: '2-digit'
                   })}
                 </p>
+                {providerUpdated && (
+                  <p className="text-muted-foreground">Provider updated: {providerUpdated}</p>
+                )}
+                {observationRange && (
+                  <p className="text-muted-foreground">Observations: {observationRange}</p>
+                )}
+                {metadata.license && (
+                  <p className="text-muted-foreground">License: {metadata.license}</p>
+                )}
               </TooltipContent>
             </Tooltip>
           </TooltipProvider>
@@ -0,0 +1,89 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import type { SdmxDimension } from "@/lib/types";
+
+interface DimensionPickerProps {
+  dimension: SdmxDimension;
+  selected: string[];
+  onChange: (codes: string[]) => void;
+  /** Allow several codes; with none selected the dimension is a wildcard */
+  multiple?: boolean;
+}
+
+export const DimensionPicker = ({ dimension, selected, onChange, multiple = false }: DimensionPickerProps) => {
+  const [open, setOpen] = useState(false);
+
+  const handleSelect = (code: string) => {
+    if (!multiple) {
+      onChange([code]);
+      setOpen(false);
+      return;
+    }
+    onChange(selected.includes(code) ? selected.filter((c) => c !== code) : [...selected, code]);
+  };
+
+  const selectedLabel = multiple
+    ? selected.join(", ")
+    : dimension.codes.find((code) => code.id === selected[0])?.name || selected[0];
+
+  return (
+    <div className="space-y-1">
+      <Label className="text-xs">
+        {dimension.name} <span className="font-mono text-muted-foreground">{dimension.id}</span>
+      </Label>
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between text-sm h-9"
+          >
+            <span className={cn("truncate", selected.length === 0 && "text-muted-foreground")}>
+              {selected.length > 0 ? selectedLabel : multiple ? "All (wildcard)" : "Select a value"}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[320px] p-0" align="start">
+          <Command>
+            <CommandInput placeholder={`Search ${dimension.name.toLowerCase()}...`} />
+            <CommandList>
+              <CommandEmpty>No code found.</CommandEmpty>
+              <CommandGroup>
+                {dimension.codes.map((code) => (
+                  <CommandItem
+                    key={code.id}
+                    value={`${code.id} ${code.name}`}
+                    onSelect={() => handleSelect(code.id)}
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        selected.includes(code.id) ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    <span className="font-mono text-xs mr-2">{code.id}</span>
+                    <span className="truncate">{code.name}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
@@ -0,0 +1,225 @@
+import { useEffect, useMemo, useState } from "react";
+import { Download, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DimensionPicker } from "@/components/explorer/DimensionPicker";
+import { FanOutConfirmDialog } from "@/components/explorer/FanOutConfirmDialog";
+import { ecbApi } from "@/lib/api";
+import type { IngestedSeries, SdmxDimension, SdmxIngestPreview } from "@/lib/types";
+import { toast } from "@/hooks/use-toast";
+
+interface EcbKeyBuilderProps {
+  dataflowId: string;
+  dataflowTitle: string;
+  onIngested: (series: IngestedSeries[]) => void;
+  onClose: () => void;
+}
+
+// Wait for the user to stop picking codes before previewing the key
+const PREVIEW_DEBOUNCE_MS = 600;
+
+// Titles listed under the preview count
+const PREVIEW_TITLES = 5;
+
+export const EcbKeyBuilder = ({ dataflowId, dataflowTitle, onIngested, onClose }: EcbKeyBuilderProps) => {
+  const [dimensions, setDimensions] = useState<SdmxDimension[]>([]);
+  const [loadingDimensions, setLoadingDimensions] = useState(true);
+  const [selection, setSelection] = useState<Record<string, string[]>>({});
+  const [preview, setPreview] = useState<SdmxIngestPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+  const [previewError, setPreviewError] = useState<string | null>(null);
+  const [ingesting, setIngesting] = useState(false);
+  const [confirming, setConfirming] = useState(false);
+
+  // Empty dimensions are wildcards; several codes in one dimension are OR-ed with "+"
+  const seriesKey = useMemo(
+    () => dimensions.map((d) => (selection[d.id] || []).join("+")).join("."),
+    [dimensions, selection]
+  );
+
+  useEffect(() => {
+    const loadDimensions = async () => {
+      setLoadingDimensions(true);
+      setSelection({});
+      setPreview(null);
+      try {
+        const data = await ecbApi.getDimensions(dataflowId);
+        setDimensions(data.dimensions || []);
+      } catch (error) {
+        console.error("Error loading ECB dimensions:", error);
+        setDimensions([]);
+        toast({
+          title: "Could not load dimensions",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive",
+        });
+      }
+      setLoadingDimensions(false);
+    };
+    loadDimensions();
+  }, [dataflowId]);
+
+  // Live preview of the series the current key matches
+  useEffect(() => {
+    if (dimensions.length === 0) return;
+
+    let cancelled = false;
+    const timer = setTimeout(async () => {
+      setPreviewing(true);
+      setPreviewError(null);
+      try {
+        const result = await ecbApi.preview(dataflowId, seriesKey, dataflowTitle);
+        if (!cancelled) setPreview(result);
+      } catch (error) {
+        if (!cancelled) {
+          setPreview(null);
+          setPreviewError(error instanceof Error ? error.message : "Unknown error");
+        }
+      }
+      if (!cancelled) setPreviewing(false);
+    }, PREVIEW_DEBOUNCE_MS);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [dataflowId, dataflowTitle, dimensions, seriesKey]);
+
+  const ingest = async (confirm: boolean) => {
+    if (!preview) return;
+    setIngesting(true);
+    try {
+      const result = await ecbApi.ingest(dataflowId, seriesKey, dataflowTitle, undefined, confirm);
+      const seriesIds: string[] = result.seriesIds || [result.seriesId];
+      const previewed = new Map(preview.series.map((s) => [s.seriesId, s]));
+
+      onIngested(
+        seriesIds.map((seriesId) => ({
+          seriesId,
+          providerId: previewed.get(seriesId)?.providerId ?? dataflowId,
+          title: previewed.get(seriesId)?.title ?? dataflowTitle,
+        }))
+      );
+      toast({
+        title: "Data imported",
+        description: `${seriesIds.length} series from ${dataflowTitle} have been added to the database`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+    setIngesting(false);
+  };
+
+  const handleIngest = () => {
+    if (!preview) return;
+    if (preview.seriesCount > 1) {
+      setConfirming(true);
+      return;
+    }
+    ingest(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <CardTitle className="text-base truncate">{dataflowTitle}</CardTitle>
+            <p className="text-xs text-muted-foreground font-mono mt-1">{dataflowId}</p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loadingDimensions ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : dimensions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No dimensions found for this dataflow.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {dimensions.map((dimension) => (
+                <DimensionPicker
+                  key={dimension.id}
+                  dimension={dimension}
+                  selected={selection[dimension.id] || []}
+                  onChange={(codes) => setSelection({ ...selection, [dimension.id]: codes })}
+                  multiple
+                />
+              ))}
+            </div>
+
+            <div className="rounded-md border border-border p-3 space-y-2">
+              <p className="text-xs text-muted-foreground">Series key</p>
+              <p className="font-mono text-sm text-foreground break-all">{seriesKey}</p>
+              {previewing ? (
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  <Loader2 className="h-3 w-3 animate-spin" />
+                  Checking matching series...
+                </p>
+              ) : previewError ? (
+                <p className="text-xs text-destructive">{previewError}</p>
+              ) : preview ? (
+                <div className="space-y-1">
+                  <p className="text-xs font-medium text-foreground">
+                    {preview.seriesCount} series match
+                    {preview.seriesCount > preview.maxSeries && ` (max ${preview.maxSeries} per import)`}
+                  </p>
+                  {preview.series.slice(0, PREVIEW_TITLES).map((series) => (
+                    <p key={series.seriesId} className="text-xs text-muted-foreground truncate">
+                      {series.title}
+                    </p>
+                  ))}
+                  {preview.seriesCount > PREVIEW_TITLES && (
+                    <p className="text-xs text-muted-foreground">
+                      and {preview.seriesCount - PREVIEW_TITLES} more
+                    </p>
+                  )}
+                </div>
+              ) : null}
+            </div>
+
+            <Button
+              className="w-full"
+              onClick={handleIngest}
+              disabled={
+                ingesting ||
+                previewing ||
+                !preview ||
+                preview.seriesCount === 0 ||
+                preview.seriesCount > preview.maxSeries
+              }
+            >
+              {ingesting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Ingest key
+            </Button>
+          </>
+        )}
+      </CardContent>
+
+      <FanOutConfirmDialog
+        title={dataflowTitle}
+        preview={confirming ? preview : null}
+        onConfirm={() => {
+          setConfirming(false);
+          ingest(true);
+        }}
+        onCancel={() => setConfirming(false)}
+      />
+    </Card>
+  );
+};
@@ -0,0 +1,150 @@
+import { useEffect, useMemo, useState } from "react";
+import { Download, Loader2, X } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { DimensionPicker } from "@/components/explorer/DimensionPicker";
+import { eurostatApi } from "@/lib/api";
+import type { IngestedSeries, SdmxDimension } from "@/lib/types";
+import { toast } from "@/hooks/use-toast";
+
+interface EurostatFilterBuilderProps {
+  datasetId: string;
+  datasetTitle: string;
+  /** Geo code preselected from the country selector */
+  defaultGeo: string;
+  onIngested: (series: IngestedSeries[]) => void;
+  onClose: () => void;
+}
+
+export const EurostatFilterBuilder = ({
+  datasetId,
+  datasetTitle,
+  defaultGeo,
+  onIngested,
+  onClose,
+}: EurostatFilterBuilderProps) => {
+  const [dimensions, setDimensions] = useState<SdmxDimension[]>([]);
+  const [loadingDimensions, setLoadingDimensions] = useState(true);
+  const [selection, setSelection] = useState<Record<string, string>>({});
+  const [ingesting, setIngesting] = useState(false);
+
+  useEffect(() => {
+    const loadDimensions = async () => {
+      setLoadingDimensions(true);
+      try {
+        const data = await eurostatApi.getMetadata(datasetId);
+        const loaded: SdmxDimension[] = data.dimensions || [];
+        setDimensions(loaded);
+
+        // Preselect single-code dimensions and the country chosen in the geo selector
+        const initial: Record<string, string> = {};
+        for (const dimension of loaded) {
+          if (dimension.codes.length === 1) {
+            initial[dimension.id] = dimension.codes[0].id;
+          } else if (dimension.id === "geo" && dimension.codes.some((c) => c.id === defaultGeo)) {
+            initial[dimension.id] = defaultGeo;
+          }
+        }
+        setSelection(initial);
+      } catch (error) {
+        console.error("Error loading Eurostat metadata:", error);
+        setDimensions([]);
+        toast({
+          title: "Could not load dataset structure",
+          description: error instanceof Error ? error.message : "Unknown error",
+          variant: "destructive",
+        });
+      }
+      setLoadingDimensions(false);
+    };
+    loadDimensions();
+  }, [datasetId, defaultGeo]);
+
+  const complete = dimensions.length > 0 && dimensions.every((d) => selection[d.id]);
+  const filters = dimensions.map((d) => selection[d.id] || "").join(".");
+
+  // Dataset title extended with the chosen labels, e.g. "GDP and main components (Quarterly, Seasonally adjusted)"
+  const seriesTitle = useMemo(() => {
+    const labels = dimensions
+      .filter((d) => d.id !== "geo" && d.codes.length > 1 && selection[d.id])
+      .map((d) => d.codes.find((c) => c.id === selection[d.id])?.name || selection[d.id]);
+    return labels.length > 0 ? `${datasetTitle} (${labels.join(", ")})` : datasetTitle;
+  }, [datasetTitle, dimensions, selection]);
+
+  const handleIngest = async () => {
+    setIngesting(true);
+    try {
+      const geo = selection.geo || defaultGeo;
+      const result = await eurostatApi.ingest(datasetId, filters, seriesTitle, geo);
+      onIngested([{ seriesId: result.seriesId, providerId: `${datasetId}/${filters}`, title: seriesTitle }]);
+      toast({
+        title: "Data imported",
+        description: `${seriesTitle} has been added to the database`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+    setIngesting(false);
+  };
+
+  return (
+    <Card>
+      <CardHeader className="pb-3">
+        <div className="flex items-start justify-between gap-2">
+          <div className="min-w-0">
+            <CardTitle className="text-base truncate">{datasetTitle}</CardTitle>
+            <p className="text-xs text-muted-foreground font-mono mt-1">{datasetId}</p>
+          </div>
+          <Button variant="ghost" size="icon" className="h-7 w-7 shrink-0" onClick={onClose}>
+            <X className="h-4 w-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {loadingDimensions ? (
+          <div className="flex items-center justify-center py-6">
+            <Loader2 className="h-5 w-5 animate-spin text-muted-foreground" />
+          </div>
+        ) : dimensions.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-4">
+            No dimensions found for this dataset.
+          </p>
+        ) : (
+          <>
+            <div className="space-y-3">
+              {dimensions.map((dimension) => (
+                <DimensionPicker
+                  key={dimension.id}
+                  dimension={dimension}
+                  selected={selection[dimension.id] ? [selection[dimension.id]] : []}
+                  onChange={(codes) => setSelection({ ...selection, [dimension.id]: codes[0] })}
+                />
+              ))}
+            </div>
+
+            <div className="rounded-md border border-border p-3 space-y-1">
+              <p className="text-xs text-muted-foreground">Series key</p>
+              <p className="font-mono text-sm text-foreground break-all">{filters}</p>
+              {!complete && (
+                <p className="text-xs text-muted-foreground">Pick a value for every dimension to ingest a single series.</p>
+              )}
+            </div>
+
+            <Button className="w-full" onClick={handleIngest} disabled={!complete || ingesting}>
+              {ingesting ? (
+                <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+              ) : (
+                <Download className="mr-2 h-4 w-4" />
+              )}
+              Ingest series
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
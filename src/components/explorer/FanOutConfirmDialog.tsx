@@ -0,0 +1,76 @@
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import type { SdmxIngestPreview } from "@/lib/types";
+
+interface FanOutConfirmDialogProps {
+  title: string | null;
+  preview: SdmxIngestPreview | null;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+export const FanOutConfirmDialog = ({ title, preview, onConfirm, onCancel }: FanOutConfirmDialogProps) => {
+  const tooMany = preview ? preview.seriesCount > preview.maxSeries : false;
+  const hidden = preview ? preview.seriesCount - preview.series.length : 0;
+
+  return (
+    <AlertDialog open={preview !== null} onOpenChange={(open) => !open && onCancel()}>
+      <AlertDialogContent className="max-w-2xl">
+        <AlertDialogHeader>
+          <AlertDialogTitle>Create {preview?.seriesCount} series?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {tooMany
+              ? `The key for ${title} matches ${preview?.seriesCount} series, more than the ${preview?.maxSeries} allowed in one import. Narrow the key before importing.`
+              : `The key for ${title} matches several series. Each one will be stored as its own series in the warehouse.`}
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+
+        {preview && (
+          <div className="max-h-72 overflow-y-auto rounded-md border border-border">
+            <table className="w-full text-sm">
+              <thead className="sticky top-0 bg-muted">
+                <tr className="border-b border-border">
+                  <th className="py-2 px-3 text-left font-medium text-muted-foreground">Series</th>
+                  <th className="py-2 px-3 text-right font-medium text-muted-foreground">Latest</th>
+                </tr>
+              </thead>
+              <tbody>
+                {preview.series.map((series) => (
+                  <tr key={series.seriesId} className="border-b border-border last:border-0">
+                    <td className="py-2 px-3">
+                      <p className="text-foreground">{series.title}</p>
+                      <p className="text-xs text-muted-foreground font-mono">{series.providerId}</p>
+                    </td>
+                    <td className="py-2 px-3 text-right font-mono text-muted-foreground whitespace-nowrap">
+                      {series.latestPeriod
+                        ? `${series.latestPeriod}: ${series.latestValue?.toLocaleString() ?? "—"}`
+                        : "—"}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+            {hidden > 0 && (
+              <p className="py-2 px-3 text-xs text-muted-foreground">and {hidden} more</p>
+            )}
+          </div>
+        )}
+
+        <AlertDialogFooter>
+          <AlertDialogCancel onClick={onCancel}>Cancel</AlertDialogCancel>
+          <AlertDialogAction onClick={onConfirm} disabled={tooMany}>
+            Create {preview?.seriesCount} series
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+};
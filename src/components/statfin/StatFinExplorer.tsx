@@ -17,6 +17,13 @@ import { Badge } from '@/components/ui/badge';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { Skeleton } from '@/components/ui/skeleton';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
 import {
   Breadcrumb,
   BreadcrumbItem,
@@ -31,12 +38,22 @@ import {
   fetchNavigation, 
   fetchTableMetadata,
   detectFrequency,
+  getPxWebSourceOption,
+  PXWEB_SOURCES,
+  PxWebApiVersion,
 } from '@/lib/statfinPxweb';
 
 interface StatFinExplorerProps {
   onTableSelected: (tablePath: string[], metadata: StatFinTableMetadata) => void;
   onError?: (error: Error) => void;
-  language?: 'en' | 'fi';
+  language?: string;
+  /** PxWeb source code; defaults to StatFin */
+  source?: string;
+  /** Shows a source selector when given */
+  onSourceChange?: (source: string) => void;
+  api?: PxWebApiVersion;
+  /** Shows an API version selector for sources that publish PxWebApi 2.0 */
+  onApiChange?: (api: PxWebApiVersion) => void;
 }
 
 interface ExpandedFolders {
@@ -50,9 +67,16 @@ interface FolderCache {
 export default function StatFinExplorer({ 
   onTableSelected, 
   onError,
-  language = 'en' 
+  language = 'en',
+  source = 'STATFIN',
+  onSourceChange,
+  api = 'v1',
+  onApiChange,
 }: StatFinExplorerProps) {
-  const [currentPath, setCurrentPath] = useState<string[]>(['StatFin']);
+  const sourceOption = getPxWebSourceOption(source);
+  // v2 navigation starts at the root folder; folder ids replace database paths
+  const rootPath = api === 'v2' ? [] : sourceOption.rootPath;
+  const [currentPath, setCurrentPath] = useState<string[]>(rootPath);
   const [expandedFolders, setExpandedFolders] = useState<ExpandedFolders>({});
   const [folderCache, setFolderCache] = useState<FolderCache>({});
   const [selectedTable, setSelectedTable] = useState<string[] | null>(null);
@@ -65,8 +89,8 @@ export default function StatFinExplorer({
     error,
     refetch 
   } = useQuery({
-    queryKey: ['statfin-nav', currentPath.join('/')],
-    queryFn: () => fetchNavigation(currentPath, language),
+    queryKey: ['statfin-nav', source, api, language, currentPath.join('/')],
+    queryFn: () => fetchNavigation(currentPath, language, source, api),
     staleTime: 5 * 60 * 1000, // Cache for 5 minutes
   });
 
@@ -76,8 +100,8 @@ export default function StatFinExplorer({
     isLoading: isLoadingMetadata,
     error: metadataError 
   } = useQuery({
-    queryKey: ['statfin-metadata', selectedTable?.join('/')],
-    queryFn: () => selectedTable ? fetchTableMetadata(selectedTable, language) : null,
+    queryKey: ['statfin-metadata', source, api, language, selectedTable?.join('/')],
+    queryFn: () => selectedTable ? fetchTableMetadata(selectedTable, language, source, api) : null,
     enabled: !!selectedTable,
     staleTime: 5 * 60 * 1000,
   });
@@ -101,7 +125,7 @@ export default function StatFinExplorer({
       if (!folderCache[key]) {
         setLoadingFolders(prev => new Set(prev).add(key));
         try {
-          const children = await fetchNavigation(node.path, language);
+          const children = await fetchNavigation(node.path, language, source, api);
           setFolderCache(prev => ({ ...prev, [key]: children }));
         } catch (err) {
           console.error('Failed to load folder:', err);
@@ -116,7 +140,7 @@ export default function StatFinExplorer({
       }
       setExpandedFolders(prev => ({ ...prev, [key]: true }));
     }
-  }, [expandedFolders, folderCache, language, onError]);
+  }, [expandedFolders, folderCache, language, source, api, onError]);
 
   // Select a table
   const handleSelectTable = useCallback((node: StatFinNode) => {
@@ -200,7 +224,7 @@ export default function StatFinExplorer({
       <Alert variant="destructive">
         <AlertCircle className="h-4 w-4" />
         <AlertDescription>
-          Failed to load StatFin data: {(error as Error).message}
+          Failed to load {sourceOption.name} data: {(error as Error).message}
           <Button variant="link" className="p-0 h-auto ml-2" onClick={() => refetch()}>
             Retry
           </Button>
@@ -219,21 +243,21 @@ export default function StatFinExplorer({
               <BreadcrumbList>
                 <BreadcrumbItem>
                   <BreadcrumbLink 
-                    onClick={() => navigateToFolder(['StatFin'])}
+                    onClick={() => navigateToFolder(rootPath)}
                     className="cursor-pointer flex items-center gap-1"
                   >
                     <Home className="h-3.5 w-3.5" />
-                    StatFin
+                    {rootPath[0] || sourceOption.name}
                   </BreadcrumbLink>
                 </BreadcrumbItem>
-                {currentPath.slice(1).map((segment, index) => (
+                {currentPath.slice(rootPath.length).map((segment, index, segments) => (
                   <BreadcrumbItem key={segment}>
                     <BreadcrumbSeparator />
-                    {index === currentPath.length - 2 ? (
+                    {index === segments.length - 1 ? (
                       <BreadcrumbPage>{segment}</BreadcrumbPage>
                     ) : (
                       <BreadcrumbLink 
-                        onClick={() => handleBreadcrumbClick(index + 1)}
+                        onClick={() => handleBreadcrumbClick(index + rootPath.length)}
                         className="cursor-pointer"
                       >
                         {segment}
@@ -243,9 +267,39 @@ export default function StatFinExplorer({
                 ))}
               </BreadcrumbList>
             </Breadcrumb>
-            <Button variant="ghost" size="sm" onClick={() => refetch()}>
-              <RefreshCw className="h-4 w-4" />
-            </Button>
+            <div className="flex items-center gap-2">
+              {onSourceChange && (
+                <Select value={source} onValueChange={onSourceChange}>
+                  <SelectTrigger className="w-[200px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PXWEB_SOURCES.map((option) => (
+                      <SelectItem key={option.code} value={option.code}>
+                        {option.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              {onApiChange && sourceOption.apiVersions.length > 1 && (
+                <Select value={api} onValueChange={(value) => onApiChange(value as PxWebApiVersion)}>
+                  <SelectTrigger className="w-[110px] h-8">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sourceOption.apiVersions.map((version) => (
+                      <SelectItem key={version} value={version}>
+                        API {version}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+              <Button variant="ghost" size="sm" onClick={() => refetch()}>
+                <RefreshCw className="h-4 w-4" />
+              </Button>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -1,4 +1,4 @@
-import { useState, useMemo, useCallback } from 'react';
+import { useState, useMemo, useCallback, type ReactNode } from 'react';
 import {
   Table,
   TableBody,
@@ -52,6 +52,8 @@ import {
 interface StatFinResultViewProps {
   tableData: StatFinTableData;
   onExport?: (format: 'csv' | 'xlsx') => void;
+  /** Extra buttons shown next to Export */
+  actions?: ReactNode;
 }
 
 const ROWS_PER_PAGE = 25;
@@ -68,7 +70,7 @@ const CHART_COLORS = [
   '#00C49F',
 ];
 
-export default function StatFinResultView({ tableData, onExport }: StatFinResultViewProps) {
+export default function StatFinResultView({ tableData, onExport, actions }: StatFinResultViewProps) {
   const [selectedRows, setSelectedRows] = useState<Set<string>>(new Set());
   const [currentPage, setCurrentPage] = useState(1);
   const [sortColumn, setSortColumn] = useState<string>('time');
@@ -263,6 +265,7 @@ export default function StatFinResultView({ tableData, onExport }: StatFinResult
                 <Table2 className="h-3 w-3" />
                 {tableData.rows.length} rows
               </Badge>
+              {actions}
               <Button variant="outline" size="sm" onClick={handleExport}>
                 <Download className="h-4 w-4 mr-1" />
                 Export
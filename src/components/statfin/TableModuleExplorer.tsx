@@ -0,0 +1,414 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle, CardDescription } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, BarChart, Bar } from "recharts";
+import { RefreshCw, Download, DatabaseZap, Loader2, Baby, Table2, TrendingDown, TrendingUp } from "lucide-react";
+import { toast } from "@/hooks/use-toast";
+import {
+  StatFinTableModule,
+  TableModuleRow,
+  TableModuleVariable,
+  defaultModuleSelection,
+  fetchTableModuleData,
+  fetchTableModuleMeta,
+  findModuleVariable,
+  ingestTableModule,
+  moduleChartData,
+} from "@/lib/statfinModules";
+
+// Icons a module definition may name
+const MODULE_ICONS: Record<string, typeof Table2> = {
+  baby: Baby,
+};
+
+interface TableModuleExplorerProps {
+  module: StatFinTableModule;
+}
+
+export const TableModuleExplorer = ({ module }: TableModuleExplorerProps) => {
+  const [selections, setSelections] = useState<Record<string, string[]>>({});
+  const [rows, setRows] = useState<TableModuleRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [ingesting, setIngesting] = useState(false);
+  const [chartView, setChartView] = useState(module.chart.views[0]?.id);
+
+  const { data: meta, isLoading: metaLoading, error: metaError } = useQuery({
+    queryKey: ["statfin-module-meta", module.id],
+    queryFn: () => fetchTableModuleMeta(module.id),
+    staleTime: 1000 * 60 * 60,
+  });
+
+  // Start from the module defaults; "all" defaults stay empty so the picker shows no filter
+  useEffect(() => {
+    if (!meta) return;
+    const initial: Record<string, string[]> = {};
+    for (const variable of module.variables) {
+      const tableVariable = findModuleVariable(variable, meta);
+      if (!tableVariable || variable.defaultSelection === "all") continue;
+      initial[variable.key] = defaultModuleSelection(variable, tableVariable.values);
+    }
+    setSelections(initial);
+  }, [meta, module]);
+
+  const Icon = MODULE_ICONS[module.icon] || Table2;
+  const view = module.chart.views.find((v) => v.id === chartView) || module.chart.views[0];
+  const chartData = view ? moduleChartData(rows, view) : [];
+
+  const toggleValue = (key: string, value: string) => {
+    setSelections((prev) => {
+      const current = prev[key] || [];
+      return { ...prev, [key]: current.includes(value) ? current.filter((v) => v !== value) : [...current, value] };
+    });
+  };
+
+  const loadData = async () => {
+    setLoading(true);
+    try {
+      const result = await fetchTableModuleData(module.id, selections);
+      setRows(result.data);
+      toast({ title: "Data loaded", description: `${result.rowCount} rows from "${result.meta.title}"` });
+    } catch (error) {
+      toast({ title: "Error loading data", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const ingest = async () => {
+    setIngesting(true);
+    try {
+      const result = await ingestTableModule(module.id, selections);
+      toast({
+        title: "Data imported",
+        description: result.seriesCount > 1
+          ? `Ingested ${result.observationCount} observations into ${result.seriesCount} series`
+          : `Ingested ${result.observationCount} observations into ${result.seriesId}`,
+      });
+    } catch (error) {
+      toast({ title: "Import failed", description: (error as Error).message, variant: "destructive" });
+    } finally {
+      setIngesting(false);
+    }
+  };
+
+  const exportToCsv = () => {
+    if (rows.length === 0) return;
+
+    const headers = ["Date", ...module.variables.map((v) => v.label), module.chart.valueLabel];
+    const lines = rows.map((row) => [
+      row.date,
+      ...module.variables.map((v) => row.labels[v.key] || ""),
+      row.value?.toString() || "",
+    ]);
+
+    const csv = [headers.join(";"), ...lines.map((line) => line.join(";"))].join("\n");
+    const blob = new Blob(["\ufeff" + csv], { type: "text/csv;charset=utf-8" });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement("a");
+    a.href = url;
+    a.download = `${module.id}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const renderPicker = (variable: TableModuleVariable) => {
+    const tableVariable = meta ? findModuleVariable(variable, meta) : undefined;
+    if (!tableVariable) return null;
+    const selected = selections[variable.key] || [];
+    const labelOf = (value: string) => tableVariable.valueTexts[tableVariable.values.indexOf(value)] || value;
+
+    if (variable.picker === "select") {
+      if (tableVariable.values.length <= 1) return null;
+      return (
+        <div key={variable.key}>
+          <Label className="text-sm font-medium mb-2 block">{variable.label}</Label>
+          <Select
+            value={selected[0] || ""}
+            onValueChange={(value) => setSelections((prev) => ({ ...prev, [variable.key]: [value] }))}
+          >
+            <SelectTrigger className="w-[300px]">
+              <SelectValue placeholder={`Select ${variable.label.toLowerCase()}`} />
+            </SelectTrigger>
+            <SelectContent>
+              {tableVariable.values.map((value) => (
+                <SelectItem key={value} value={value}>
+                  {labelOf(value)}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      );
+    }
+
+    if (variable.picker === "checkbox") {
+      return (
+        <div key={variable.key}>
+          <Label className="text-sm font-medium mb-2 block">{variable.label} (none = all)</Label>
+          <div className="grid grid-cols-6 gap-2">
+            {tableVariable.values.map((value) => (
+              <div key={value} className="flex items-center space-x-2">
+                <Checkbox
+                  id={`${variable.key}-${value}`}
+                  checked={selected.includes(value)}
+                  onCheckedChange={() => toggleValue(variable.key, value)}
+                />
+                <Label htmlFor={`${variable.key}-${value}`} className="text-sm">
+                  {labelOf(value)}
+                </Label>
+              </div>
+            ))}
+          </div>
+        </div>
+      );
+    }
+
+    return (
+      <div key={variable.key}>
+        <Label className="text-sm font-medium mb-2 block">{variable.label}</Label>
+        <div className="flex flex-wrap gap-2">
+          {tableVariable.values.slice(-20).map((value) => (
+            <Button
+              key={value}
+              variant={selected.includes(value) ? "default" : "outline"}
+              size="sm"
+              onClick={() => toggleValue(variable.key, value)}
+            >
+              {labelOf(value)}
+            </Button>
+          ))}
+        </div>
+        <div className="flex gap-2 mt-2">
+          {[5, 10].map((count) => (
+            <Button
+              key={count}
+              variant="ghost"
+              size="sm"
+              onClick={() => setSelections((prev) => ({ ...prev, [variable.key]: tableVariable.values.slice(-count) }))}
+            >
+              Last {count}
+            </Button>
+          ))}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSelections((prev) => ({ ...prev, [variable.key]: [] }))}
+          >
+            Clear
+          </Button>
+        </div>
+      </div>
+    );
+  };
+
+  // Summary stats
+  const valued = rows.filter((row) => row.value !== null);
+  const total = valued.reduce((sum, row) => sum + (row.value as number), 0);
+  const average = valued.length > 0 ? Math.round(total / valued.length) : 0;
+  const latest = valued.length > 0 ? valued[valued.length - 1].value : null;
+  const previous = valued.length > 1 ? valued[valued.length - 2].value : null;
+
+  if (metaLoading) {
+    return (
+      <Card>
+        <CardHeader>
+          <Skeleton className="h-6 w-48" />
+          <Skeleton className="h-4 w-64 mt-2" />
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-4 gap-4">
+            {[1, 2, 3, 4].map((i) => (
+              <Skeleton key={i} className="h-24" />
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <Card>
+        <CardHeader>
+          <div className="flex items-start justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Icon className="h-5 w-5" />
+                {module.title}
+              </CardTitle>
+              <CardDescription>{meta?.title || module.description}</CardDescription>
+            </div>
+            <Badge variant="secondary" className="font-mono">{module.series.id}</Badge>
+          </div>
+        </CardHeader>
+      </Card>
+
+      {metaError && (
+        <Card className="border-destructive">
+          <CardContent className="pt-6">
+            <p className="text-destructive">{(metaError as Error).message}</p>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Filters */}
+      {meta && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="text-lg">Filters</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {module.variables.map(renderPicker)}
+
+            <div className="flex gap-2">
+              <Button onClick={loadData} disabled={loading}>
+                <RefreshCw className={`h-4 w-4 mr-2 ${loading ? "animate-spin" : ""}`} />
+                Load data
+              </Button>
+              <Button variant="outline" onClick={exportToCsv} disabled={rows.length === 0}>
+                <Download className="h-4 w-4 mr-2" />
+                Export CSV
+              </Button>
+              <Button variant="outline" onClick={ingest} disabled={ingesting}>
+                {ingesting ? (
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                ) : (
+                  <DatabaseZap className="h-4 w-4 mr-2" />
+                )}
+                Ingest series
+              </Button>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Summary Stats */}
+      {valued.length > 0 && (
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-sm text-muted-foreground">Total</div>
+              <div className="text-2xl font-bold">{total.toLocaleString()}</div>
+              <div className="text-xs text-muted-foreground">{valued.length} values</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-sm text-muted-foreground">Average</div>
+              <div className="text-2xl font-bold">{average.toLocaleString()}</div>
+              <div className="text-xs text-muted-foreground">per period</div>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardContent className="pt-6">
+              <div className="text-sm text-muted-foreground">Latest</div>
+              <div className="text-2xl font-bold flex items-center gap-2">
+                {latest?.toLocaleString() ?? "—"}
+                {latest !== null && previous !== null && (
+                  latest < previous
+                    ? <TrendingDown className="h-4 w-4 text-red-500" />
+                    : <TrendingUp className="h-4 w-4 text-green-500" />
+                )}
+              </div>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {/* Chart */}
+      {chartData.length > 0 && view && (
+        <Card>
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <CardTitle>{module.chart.valueLabel}</CardTitle>
+              {module.chart.views.length > 1 && (
+                <div className="flex gap-2">
+                  {module.chart.views.map((v) => (
+                    <Button
+                      key={v.id}
+                      variant={v.id === view.id ? "default" : "outline"}
+                      size="sm"
+                      onClick={() => setChartView(v.id)}
+                    >
+                      {v.label}
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <div className="h-[400px]">
+              <ResponsiveContainer width="100%" height="100%">
+                {view.type === "line" ? (
+                  <LineChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="date" tick={{ fontSize: 12 }} tickFormatter={(val) => val.slice(0, 7)} />
+                    <YAxis tick={{ fontSize: 12 }} tickFormatter={(val) => val.toLocaleString()} />
+                    <Tooltip formatter={(val: number) => [val.toLocaleString(), module.chart.valueLabel]} />
+                    <Line type="monotone" dataKey="value" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                  </LineChart>
+                ) : (
+                  <BarChart data={chartData}>
+                    <CartesianGrid strokeDasharray="3 3" className="stroke-muted" />
+                    <XAxis dataKey="date" tick={{ fontSize: 12 }} />
+                    <YAxis tick={{ fontSize: 12 }} tickFormatter={(val) => val.toLocaleString()} />
+                    <Tooltip formatter={(val: number) => [val.toLocaleString(), module.chart.valueLabel]} />
+                    <Bar dataKey="value" fill="hsl(var(--primary))" />
+                  </BarChart>
+                )}
+              </ResponsiveContainer>
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Data Table */}
+      {rows.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Data ({rows.length} rows)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-[400px] overflow-auto">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-background">
+                  <tr className="border-b">
+                    <th className="text-left p-2">Date</th>
+                    {module.variables.map((v) => (
+                      <th key={v.key} className="text-left p-2">{v.label}</th>
+                    ))}
+                    <th className="text-right p-2">{module.chart.valueLabel}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.slice(0, 100).map((row, idx) => (
+                    <tr key={idx} className="border-b hover:bg-muted/50">
+                      <td className="p-2 font-mono">{row.date}</td>
+                      {module.variables.map((v) => (
+                        <td key={v.key} className="p-2 text-muted-foreground">{row.labels[v.key]}</td>
+                      ))}
+                      <td className="p-2 text-right font-mono">{row.value?.toLocaleString() ?? "—"}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rows.length > 100 && (
+                <p className="text-sm text-muted-foreground text-center py-2">
+                  Showing 100 of {rows.length} rows
+                </p>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
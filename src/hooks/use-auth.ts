@@ -0,0 +1,35 @@
+import { createContext, useContext } from "react";
+import type { Session } from "@supabase/supabase-js";
+import type { AppRole } from "@/lib/types";
+
+export interface AuthContextValue {
+  session: Session | null;
+  /** null while signed out */
+  role: AppRole | null;
+  /** True until the stored session and the user's role have been read */
+  loading: boolean;
+  signOut: () => Promise<void>;
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null);
+
+// Each role can do everything the roles below it can
+const ROLE_RANK: Record<AppRole, number> = { viewer: 0, analyst: 1, admin: 2 };
+
+/**
+ * Whether a user's role includes the required one
+ */
+export function hasRole(role: AppRole | null, required: AppRole): boolean {
+  return role !== null && ROLE_RANK[role] >= ROLE_RANK[required];
+}
+
+/**
+ * Session and role of the signed-in user, provided by AuthProvider
+ */
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext);
+  if (!context) {
+    throw new Error("useAuth must be used within an AuthProvider");
+  }
+  return context;
+}
@@ -0,0 +1,26 @@
+import { useQuery } from "@tanstack/react-query";
+import { supabase } from "@/integrations/supabase/client";
+import type { SourceInfo } from "@/lib/types";
+
+/**
+ * Rows of the sources registry ordered by label, including disabled sources so
+ * labels still resolve for series they own
+ */
+export function useSources() {
+  return useQuery({
+    queryKey: ["sources"],
+    queryFn: async (): Promise<SourceInfo[]> => {
+      const { data, error } = await supabase.from("sources").select("*").order("label");
+      if (error) throw error;
+      return data;
+    },
+    staleTime: Infinity,
+  });
+}
+
+/**
+ * Display label of a source code, falling back to the code while sources load
+ */
+export function sourceLabel(sources: SourceInfo[] | undefined, code: string): string {
+  return sources?.find((s) => s.code === code)?.label || code;
+}
@@ -41,12 +41,140 @@ export type Database = {
         }
         Relationships: []
       }
+      ingestion_runs: {
+        Row: {
+          duration_ms: number | null
+          error: string | null
+          error_details: Json | null
+          finished_at: string | null
+          function_name: string
+          id: number
+          params: Json
+          rows_inserted: number | null
+          rows_received: number | null
+          rows_updated: number | null
+          series_id: string | null
+          series_ids: string[] | null
+          source: string
+          started_at: string
+          status: string
+          triggered_by: string
+        }
+        Insert: {
+          duration_ms?: number | null
+          error?: string | null
+          error_details?: Json | null
+          finished_at?: string | null
+          function_name: string
+          id?: number
+          params?: Json
+          rows_inserted?: number | null
+          rows_received?: number | null
+          rows_updated?: number | null
+          series_id?: string | null
+          series_ids?: string[] | null
+          source: string
+          started_at?: string
+          status?: string
+          triggered_by?: string
+        }
+        Update: {
+          duration_ms?: number | null
+          error?: string | null
+          error_details?: Json | null
+          finished_at?: string | null
+          function_name?: string
+          id?: number
+          params?: Json
+          rows_inserted?: number | null
+          rows_received?: number | null
+          rows_updated?: number | null
+          series_id?: string | null
+          series_ids?: string[] | null
+          source?: string
+          started_at?: string
+          status?: string
+          triggered_by?: string
+        }
+        Relationships: []
+      }
+      observation_footnotes: {
+        Row: {
+          created_at: string
+          date: string | null
+          footnote: string
+          id: number
+          series_id: string
+        }
+        Insert: {
+          created_at?: string
+          date?: string | null
+          footnote: string
+          id?: number
+          series_id: string
+        }
+        Update: {
+          created_at?: string
+          date?: string | null
+          footnote?: string
+          id?: number
+          series_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "observation_footnotes_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      observation_vintages: {
+        Row: {
+          date: string
+          id: number
+          series_id: string
+          source: string
+          value: number | null
+          vintage_end: string | null
+          vintage_start: string
+        }
+        Insert: {
+          date: string
+          id?: number
+          series_id: string
+          source?: string
+          value?: number | null
+          vintage_end?: string | null
+          vintage_start: string
+        }
+        Update: {
+          date?: string
+          id?: number
+          series_id?: string
+          source?: string
+          value?: number | null
+          vintage_end?: string | null
+          vintage_start?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "observation_vintages_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       observations: {
         Row: {
           date: string
           id: number
           last_update: string
           series_id: string
+          status: string | null
           value: number | null
           value_eur: number | null
           value_usd: number | null
@@ -56,6 +184,7 @@ export type Database = {
           id?: number
           last_update?: string
           series_id: string
+          status?: string | null
           value?: number | null
           value_eur?: number | null
           value_usd?: number | null
@@ -65,6 +194,7 @@ export type Database = {
           id?: number
           last_update?: string
           series_id?: string
+          status?: string | null
           value?: number | null
           value_eur?: number | null
           value_usd?: number | null
@@ -79,6 +209,74 @@ export type Database = {
           },
         ]
       }
+      provider_catalog: {
+        Row: {
+          code: string
+          description: string | null
+          details: Json
+          refreshed_at: string
+          search_vector: unknown | null
+          source: string
+          title: string
+          title_fi: string | null
+        }
+        Insert: {
+          code: string
+          description?: string | null
+          details?: Json
+          refreshed_at?: string
+          search_vector?: never
+          source: string
+          title: string
+          title_fi?: string | null
+        }
+        Update: {
+          code?: string
+          description?: string | null
+          details?: Json
+          refreshed_at?: string
+          search_vector?: never
+          source?: string
+          title?: string
+          title_fi?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "provider_catalog_source_fkey"
+            columns: ["source"]
+            isOneToOne: false
+            referencedRelation: "sources"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      saved_analyses: {
+        Row: {
+          config: Json
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          config: Json
+          created_at?: string
+          id?: string
+          name: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Update: {
+          config?: Json
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
       series: {
         Row: {
           created_at: string
@@ -87,9 +285,16 @@ export type Database = {
           freq: string | null
           geo: string | null
           id: string
+          ingest_params: Json | null
+          license: string | null
+          observation_end: string | null
+          observation_start: string | null
           provider_id: string
+          provider_updated_at: string | null
+          seasonal_adjustment: string | null
           source: string
           title: string
+          unit_multiplier: number | null
           unit_original: string | null
           updated_at: string
         }
@@ -100,9 +305,16 @@ export type Database = {
           freq?: string | null
           geo?: string | null
           id: string
+          ingest_params?: Json | null
+          license?: string | null
+          observation_end?: string | null
+          observation_start?: string | null
           provider_id: string
+          provider_updated_at?: string | null
+          seasonal_adjustment?: string | null
           source: string
           title: string
+          unit_multiplier?: number | null
           unit_original?: string | null
           updated_at?: string
         }
@@ -113,12 +325,180 @@ export type Database = {
           freq?: string | null
           geo?: string | null
           id?: string
+          ingest_params?: Json | null
+          license?: string | null
+          observation_end?: string | null
+          observation_start?: string | null
           provider_id?: string
+          provider_updated_at?: string | null
+          seasonal_adjustment?: string | null
           source?: string
           title?: string
+          unit_multiplier?: number | null
           unit_original?: string | null
           updated_at?: string
         }
+        Relationships: [
+          {
+            foreignKeyName: "series_source_fkey"
+            columns: ["source"]
+            isOneToOne: false
+            referencedRelation: "sources"
+            referencedColumns: ["code"]
+          },
+        ]
+      }
+      series_quality_findings: {
+        Row: {
+          check_type: string
+          detected_at: string
+          details: Json
+          id: number
+          message: string
+          series_id: string
+          severity: string
+        }
+        Insert: {
+          check_type: string
+          detected_at?: string
+          details?: Json
+          id?: number
+          message: string
+          series_id: string
+          severity: string
+        }
+        Update: {
+          check_type?: string
+          detected_at?: string
+          details?: Json
+          id?: number
+          message?: string
+          series_id?: string
+          severity?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "series_quality_findings_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      series_quality_status: {
+        Row: {
+          checked_at: string
+          finding_count: number
+          series_id: string
+          status: string
+        }
+        Insert: {
+          checked_at?: string
+          finding_count?: number
+          series_id: string
+          status: string
+        }
+        Update: {
+          checked_at?: string
+          finding_count?: number
+          series_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "series_quality_status_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: true
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      series_refresh_status: {
+        Row: {
+          error: string | null
+          last_attempt_at: string
+          last_success_at: string | null
+          observation_count: number | null
+          series_id: string
+          status: string
+        }
+        Insert: {
+          error?: string | null
+          last_attempt_at?: string
+          last_success_at?: string | null
+          observation_count?: number | null
+          series_id: string
+          status: string
+        }
+        Update: {
+          error?: string | null
+          last_attempt_at?: string
+          last_success_at?: string | null
+          observation_count?: number | null
+          series_id?: string
+          status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "series_refresh_status_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: true
+            referencedRelation: "series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sources: {
+        Row: {
+          attribution: string | null
+          code: string
+          created_at: string
+          default_currency: string | null
+          enabled: boolean
+          homepage: string | null
+          label: string
+          license: string | null
+        }
+        Insert: {
+          attribution?: string | null
+          code: string
+          created_at?: string
+          default_currency?: string | null
+          enabled?: boolean
+          homepage?: string | null
+          label: string
+          license?: string | null
+        }
+        Update: {
+          attribution?: string | null
+          code?: string
+          created_at?: string
+          default_currency?: string | null
+          enabled?: boolean
+          homepage?: string | null
+          label?: string
+          license?: string | null
+        }
+        Relationships: []
+      }
+      user_roles: {
+        Row: {
+          created_at: string
+          role: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          role?: Database["public"]["Enums"]["app_role"]
+          user_id?: string
+        }
         Relationships: []
       }
     }
@@ -126,10 +506,79 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      apply_fx_conversion: {
+        Args: { p_series_id?: string }
+        Returns: number
+      }
+      apply_fx_conversion_many: {
+        Args: { p_series_ids: string[] }
+        Returns: number
+      }
+      finish_ingestion_run: {
+        Args: {
+          p_error?: string
+          p_error_details?: Json
+          p_rows_received?: number
+          p_run_id: number
+          p_series_id?: string
+          p_series_ids?: string[]
+          p_status: string
+        }
+        Returns: undefined
+      }
+      fx_period_rate: {
+        Args: { p_date: string; p_freq: string; p_quote: string }
+        Returns: number
+      }
+      get_saved_analysis: {
+        Args: { p_id: string }
+        Returns: {
+          config: Json
+          created_at: string
+          id: string
+          is_owner: boolean
+          name: string
+          updated_at: string
+        }[]
+      }
+      has_role: {
+        Args: {
+          p_role: Database["public"]["Enums"]["app_role"]
+          p_user_id: string
+        }
+        Returns: boolean
+      }
+      observations_as_of: {
+        Args: { p_as_of: string; p_series_id: string }
+        Returns: {
+          date: string
+          value: number
+          value_eur: number
+          value_usd: number
+          status: string | null
+          vintage_start: string
+        }[]
+      }
+      search_provider_catalog: {
+        Args: { p_limit?: number; p_query: string; p_source: string }
+        Returns: {
+          code: string
+          details: Json
+          rank: number
+          title: string
+        }[]
+      }
+      update_series_observation_range: {
+        Args: { p_series_id?: string }
+        Returns: undefined
+      }
+      update_series_observation_ranges: {
+        Args: { p_series_ids: string[] }
+        Returns: undefined
+      }
     }
     Enums: {
-      [_ in never]: never
+      app_role: "admin" | "analyst" | "viewer"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -256,6 +705,8 @@ export type CompositeTypes<
 
 export const Constants = {
   public: {
-    Enums: {},
+    Enums: {
+      app_role: ["admin", "analyst", "viewer"],
+    },
   },
 } as const
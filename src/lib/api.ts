@@ -1,38 +1,107 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { FredIngestOptions, OecdDataflowRef, SdmxDimension, SdmxIngestPreview } from "@/lib/types";
+import type { UploadSeriesDraft } from "@/lib/uploadParser";
 
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
 
+/** Kind of provider or auth failure reported by the edge functions */
+export type ApiErrorCode =
+  | "unauthorized"
+  | "forbidden"
+  | "rate_limited"
+  | "timeout"
+  | "unavailable"
+  | "not_found"
+  | "bad_request"
+  | "network"
+  | "http";
+
+/**
+ * Error returned by an edge function. Provider failures carry a code, the provider's
+ * name and, when it is rate limiting, how many seconds to wait before trying again.
+ */
+export class ApiError extends Error {
+  constructor(
+    message: string,
+    readonly status: number,
+    readonly code: ApiErrorCode | null = null,
+    readonly provider: string | null = null,
+    readonly retryAfter: number | null = null,
+  ) {
+    super(message);
+    this.name = "ApiError";
+  }
+
+  /** Whether the same request may succeed if tried again later */
+  get retryable(): boolean {
+    return this.code === "rate_limited" || this.code === "timeout" || this.code === "unavailable" ||
+      this.code === "network";
+  }
+}
+
+/**
+ * Headers for an edge function call. Write actions check the role of the signed-in
+ * user, so their access token is sent; signed-out calls use the anon key.
+ */
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  return {
+    'Authorization': `Bearer ${data.session?.access_token ?? SUPABASE_ANON_KEY}`,
+    'apikey': SUPABASE_ANON_KEY,
+  };
+}
+
+// Error bodies are JSON unless the request failed before reaching the function
+async function apiError(response: Response, fallback: string): Promise<ApiError> {
+  const body = await response.json().catch(() => ({}));
+  return new ApiError(
+    body.error || fallback,
+    response.status,
+    body.code ?? null,
+    body.provider ?? null,
+    body.retryAfter ?? null,
+  );
+}
+
 export const fredApi = {
   async search(query: string) {
     const url = `${SUPABASE_URL}/functions/v1/fetch-fred?action=search&query=${encodeURIComponent(query)}`;
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to search series");
+      throw await apiError(response, "Failed to search series");
     }
     
     return await response.json();
   },
 
-  async ingest(seriesId: string) {
-    const url = `${SUPABASE_URL}/functions/v1/fetch-fred?action=ingest&seriesId=${seriesId}`;
+  async ingest(seriesId: string, options: FredIngestOptions = {}) {
+    let url = `${SUPABASE_URL}/functions/v1/fetch-fred?action=ingest&seriesId=${seriesId}`;
+    if (options.full) url += `&full=true`;
+    if (options.startDate) url += `&startDate=${encodeURIComponent(options.startDate)}`;
+    if (options.incremental) url += `&incremental=true`;
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
+    });
+    
+    if (!response.ok) {
+      throw await apiError(response, "Failed to ingest series");
+    }
+    
+    return await response.json();
+  },
+
+  async importVintages(seriesId: string) {
+    const url = `${SUPABASE_URL}/functions/v1/fetch-fred?action=vintages&seriesId=${encodeURIComponent(seriesId)}`;
+    const response = await fetch(url, {
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to ingest series");
+      throw await apiError(response, "Failed to import ALFRED vintages");
     }
     
     return await response.json();
@@ -43,15 +112,11 @@ export const statfinApi = {
   async listDatabases() {
     const url = `${SUPABASE_URL}/functions/v1/fetch-statfin?action=databases`;
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to list databases");
+      throw await apiError(response, "Failed to list databases");
     }
     
     return await response.json();
@@ -60,15 +125,24 @@ export const statfinApi = {
   async listTables(path: string) {
     const url = `${SUPABASE_URL}/functions/v1/fetch-statfin?action=tables&databasePath=${encodeURIComponent(path)}`;
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
+    });
+    
+    if (!response.ok) {
+      throw await apiError(response, "Failed to list tables");
+    }
+    
+    return await response.json();
+  },
+
+  async search(query: string) {
+    const url = `${SUPABASE_URL}/functions/v1/fetch-statfin?action=search&query=${encodeURIComponent(query)}`;
+    const response = await fetch(url, {
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to list tables");
+      throw await apiError(response, "Failed to search StatFin");
     }
     
     return await response.json();
@@ -77,22 +151,24 @@ export const statfinApi = {
   async getMetadata(tablePath: string) {
     const url = `${SUPABASE_URL}/functions/v1/fetch-statfin?action=metadata&tablePath=${encodeURIComponent(tablePath)}`;
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to get metadata");
+      throw await apiError(response, "Failed to get metadata");
     }
     
     return await response.json();
   },
 
-  async ingest(tablePath: string, query: any, seriesId?: string, title?: string, language?: string) {
+  async ingest(tablePath: string, query: any, seriesId?: string, title?: string, language?: string, source?: string, api?: "v1" | "v2") {
     let url = `${SUPABASE_URL}/functions/v1/fetch-statfin?action=ingest&tablePath=${encodeURIComponent(tablePath)}`;
+    if (source) {
+      url += `&source=${encodeURIComponent(source)}`;
+    }
+    if (api) {
+      url += `&api=${api}`;
+    }
     if (seriesId) {
       url += `&seriesId=${encodeURIComponent(seriesId)}`;
     }
@@ -103,15 +179,13 @@ export const statfinApi = {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
+        ...(await authHeaders()),
       },
       body: JSON.stringify({ query, title }),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to ingest table");
+      throw await apiError(response, "Failed to ingest table");
     }
     
     return await response.json();
@@ -123,15 +197,13 @@ export const statfinApi = {
       method: "POST",
       headers: {
         "Content-Type": "application/json",
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
+        ...(await authHeaders()),
       },
       body: JSON.stringify({ query }),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to fetch data");
+      throw await apiError(response, "Failed to fetch data");
     }
     
     return await response.json();
@@ -142,35 +214,54 @@ export const ecbApi = {
   async search(query: string) {
     const url = `${SUPABASE_URL}/functions/v1/fetch-ecb?action=search&query=${encodeURIComponent(query)}`;
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to search ECB");
+      throw await apiError(response, "Failed to search ECB");
     }
     
     return await response.json();
   },
 
-  async ingest(dataflowId: string, seriesKey: string, title: string, customSeriesId?: string) {
+  async getDimensions(dataflowId: string): Promise<{ dataflowId: string; dimensions: SdmxDimension[] }> {
+    const url = `${SUPABASE_URL}/functions/v1/fetch-ecb?action=dimensions&dataflowId=${encodeURIComponent(dataflowId)}`;
+    const response = await fetch(url, {
+      headers: await authHeaders(),
+    });
+    
+    if (!response.ok) {
+      throw await apiError(response, "Failed to load ECB dimensions");
+    }
+    
+    return await response.json();
+  },
+
+  async preview(dataflowId: string, seriesKey: string, title: string): Promise<SdmxIngestPreview> {
+    const url = `${SUPABASE_URL}/functions/v1/fetch-ecb?action=preview&dataflowId=${encodeURIComponent(dataflowId)}&seriesKey=${encodeURIComponent(seriesKey)}&title=${encodeURIComponent(title)}`;
+    const response = await fetch(url, {
+      headers: await authHeaders(),
+    });
+    
+    if (!response.ok) {
+      throw await apiError(response, "Failed to preview ECB key");
+    }
+    
+    return await response.json();
+  },
+
+  async ingest(dataflowId: string, seriesKey: string, title: string, customSeriesId?: string, confirm?: boolean) {
     let url = `${SUPABASE_URL}/functions/v1/fetch-ecb?action=ingest&dataflowId=${encodeURIComponent(dataflowId)}&seriesKey=${encodeURIComponent(seriesKey)}&title=${encodeURIComponent(title)}`;
     if (customSeriesId) {
       url += `&seriesId=${encodeURIComponent(customSeriesId)}`;
     }
+    if (confirm) url += `&confirm=true`;
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to ingest ECB series");
+      throw await apiError(response, "Failed to ingest ECB series");
     }
     
     return await response.json();
@@ -183,15 +274,24 @@ export const eurostatApi = {
     if (geo) url += `&geo=${encodeURIComponent(geo)}`;
     
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to search Eurostat");
+      throw await apiError(response, "Failed to search Eurostat");
+    }
+    
+    return await response.json();
+  },
+
+  async getMetadata(datasetId: string): Promise<{ datasetId: string; dimensions: SdmxDimension[] }> {
+    const url = `${SUPABASE_URL}/functions/v1/fetch-eurostat?action=metadata&datasetId=${encodeURIComponent(datasetId)}`;
+    const response = await fetch(url, {
+      headers: await authHeaders(),
+    });
+    
+    if (!response.ok) {
+      throw await apiError(response, "Failed to load Eurostat dataset structure");
     }
     
     return await response.json();
@@ -202,53 +302,77 @@ export const eurostatApi = {
     if (geo) url += `&geo=${encodeURIComponent(geo)}`;
     
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to ingest Eurostat series");
+      throw await apiError(response, "Failed to ingest Eurostat series");
     }
     
     return await response.json();
   },
 };
 
+// Agency and version are optional; fetch-oecd looks them up when they are missing
+function oecdDataflowParams({ dataflowId, agencyId, version, dsdId }: OecdDataflowRef): string {
+  const params = new URLSearchParams({ dataflowId });
+  if (agencyId) params.set("agencyId", agencyId);
+  if (version) params.set("version", version);
+  if (dsdId) params.set("dsdId", dsdId);
+  return params.toString();
+}
+
 export const oecdApi = {
   async search(query: string) {
     const url = `${SUPABASE_URL}/functions/v1/fetch-oecd?action=search&query=${encodeURIComponent(query)}`;
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to search OECD");
+      throw await apiError(response, "Failed to search OECD");
     }
     
     return await response.json();
   },
 
-  async ingest(dataflowId: string, key: string, title: string, geo?: string) {
-    let url = `${SUPABASE_URL}/functions/v1/fetch-oecd?action=ingest&dataflowId=${encodeURIComponent(dataflowId)}&key=${encodeURIComponent(key)}&title=${encodeURIComponent(title)}`;
+  async getStructure(dataflow: OecdDataflowRef): Promise<Required<OecdDataflowRef> & { dimensions: SdmxDimension[] }> {
+    const url = `${SUPABASE_URL}/functions/v1/fetch-oecd?action=structure&${oecdDataflowParams(dataflow)}`;
+    const response = await fetch(url, {
+      headers: await authHeaders(),
+    });
+    
+    if (!response.ok) {
+      throw await apiError(response, "Failed to load OECD dataflow structure");
+    }
+    
+    return await response.json();
+  },
+
+  async preview(dataflow: OecdDataflowRef, key: string, title: string): Promise<SdmxIngestPreview> {
+    const url = `${SUPABASE_URL}/functions/v1/fetch-oecd?action=preview&${oecdDataflowParams(dataflow)}&key=${encodeURIComponent(key)}&title=${encodeURIComponent(title)}`;
+    const response = await fetch(url, {
+      headers: await authHeaders(),
+    });
+    
+    if (!response.ok) {
+      throw await apiError(response, "Failed to preview OECD key");
+    }
+    
+    return await response.json();
+  },
+
+  async ingest(dataflow: OecdDataflowRef, key: string, title: string, geo?: string, confirm?: boolean) {
+    let url = `${SUPABASE_URL}/functions/v1/fetch-oecd?action=ingest&${oecdDataflowParams(dataflow)}&key=${encodeURIComponent(key)}&title=${encodeURIComponent(title)}`;
     if (geo) url += `&geo=${encodeURIComponent(geo)}`;
+    if (confirm) url += `&confirm=true`;
     
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to ingest OECD series");
+      throw await apiError(response, "Failed to ingest OECD series");
     }
     
     return await response.json();
@@ -261,15 +385,11 @@ export const worldbankApi = {
     if (country) url += `&country=${encodeURIComponent(country)}`;
     
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to search World Bank");
+      throw await apiError(response, "Failed to search World Bank");
     }
     
     return await response.json();
@@ -278,15 +398,11 @@ export const worldbankApi = {
   async getCountries() {
     const url = `${SUPABASE_URL}/functions/v1/fetch-worldbank?action=countries`;
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to get countries");
+      throw await apiError(response, "Failed to get countries");
     }
     
     return await response.json();
@@ -295,17 +411,103 @@ export const worldbankApi = {
   async ingest(indicatorId: string, country: string, title: string) {
     const url = `${SUPABASE_URL}/functions/v1/fetch-worldbank?action=ingest&indicatorId=${encodeURIComponent(indicatorId)}&country=${encodeURIComponent(country)}&title=${encodeURIComponent(title)}`;
     const response = await fetch(url, {
-      headers: {
-        'Authorization': `Bearer ${SUPABASE_ANON_KEY}`,
-        'apikey': SUPABASE_ANON_KEY,
-      },
+      headers: await authHeaders(),
+    });
+    
+    if (!response.ok) {
+      throw await apiError(response, "Failed to ingest World Bank series");
+    }
+    
+    return await response.json();
+  },
+};
+
+export const fxApi = {
+  async ingest(currencies?: string[], startPeriod?: string) {
+    let url = `${SUPABASE_URL}/functions/v1/fetch-fx?action=ingest`;
+    if (currencies && currencies.length > 0) url += `&currencies=${encodeURIComponent(currencies.join(","))}`;
+    if (startPeriod) url += `&startPeriod=${encodeURIComponent(startPeriod)}`;
+
+    const response = await fetch(url, {
+      headers: await authHeaders(),
+    });
+    
+    if (!response.ok) {
+      throw await apiError(response, "Failed to ingest FX rates");
+    }
+    
+    return await response.json();
+  },
+
+  async convert(seriesId?: string) {
+    let url = `${SUPABASE_URL}/functions/v1/fetch-fx?action=convert`;
+    if (seriesId) url += `&seriesId=${encodeURIComponent(seriesId)}`;
+
+    const response = await fetch(url, {
+      headers: await authHeaders(),
+    });
+    
+    if (!response.ok) {
+      throw await apiError(response, "Failed to convert series");
+    }
+    
+    return await response.json();
+  },
+};
+
+export const refreshApi = {
+  async run(options: { source?: string; seriesId?: string; staleHours?: number } = {}) {
+    let url = `${SUPABASE_URL}/functions/v1/refresh-series?action=run`;
+    if (options.source) url += `&source=${encodeURIComponent(options.source)}`;
+    if (options.seriesId) url += `&seriesId=${encodeURIComponent(options.seriesId)}`;
+    if (options.staleHours !== undefined) url += `&staleHours=${options.staleHours}`;
+
+    const response = await fetch(url, {
+      headers: await authHeaders(),
     });
     
     if (!response.ok) {
-      const error = await response.json();
-      throw new Error(error.error || "Failed to ingest World Bank series");
+      throw await apiError(response, "Failed to refresh series");
     }
     
     return await response.json();
   },
 };
+
+export const uploadApi = {
+  async save(fileName: string, series: UploadSeriesDraft[]) {
+    const url = `${SUPABASE_URL}/functions/v1/upload-series?action=ingest`;
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        ...(await authHeaders()),
+      },
+      body: JSON.stringify({ fileName, series }),
+    });
+
+    if (!response.ok) {
+      throw await apiError(response, "Failed to save uploaded series");
+    }
+
+    return await response.json();
+  },
+};
+
+export const qualityApi = {
+  async run(options: { source?: string; seriesId?: string } = {}) {
+    let url = `${SUPABASE_URL}/functions/v1/check-quality?action=run`;
+    if (options.source) url += `&source=${encodeURIComponent(options.source)}`;
+    if (options.seriesId) url += `&seriesId=${encodeURIComponent(options.seriesId)}`;
+
+    const response = await fetch(url, {
+      headers: await authHeaders(),
+    });
+
+    if (!response.ok) {
+      throw await apiError(response, "Failed to run quality checks");
+    }
+
+    return await response.json();
+  },
+};
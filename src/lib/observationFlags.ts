@@ -0,0 +1,41 @@
+// Display helpers for observation status flags (observations.status)
+
+import type { ObservationStatus } from "./types";
+
+export const OBSERVATION_STATUS_LABELS: Record<ObservationStatus, string> = {
+  B: "Break in series",
+  P: "Provisional",
+  E: "Estimated",
+  F: "Forecast",
+  I: "Imputed",
+  U: "Low reliability",
+  D: "Definition differs",
+  C: "Confidential",
+  M: "Missing",
+};
+
+/** Human-readable label for a stored status code, or null for normal values */
+export function observationStatusLabel(status: string | null | undefined): string | null {
+  if (!status) return null;
+  return OBSERVATION_STATUS_LABELS[status as ObservationStatus] ?? status;
+}
+
+/** Key under which merged chart/table rows keep a series' status next to its value */
+export function statusKey(seriesId: string): string {
+  return `${seriesId}:status`;
+}
+
+/** Status codes present in merged rows, in the order of OBSERVATION_STATUS_LABELS */
+export function usedStatuses(
+  rows: Array<{ [key: string]: number | string | null }>,
+  seriesIds: string[],
+): ObservationStatus[] {
+  const found = new Set<string>();
+  for (const row of rows) {
+    for (const id of seriesIds) {
+      const status = row[statusKey(id)];
+      if (typeof status === "string") found.add(status);
+    }
+  }
+  return (Object.keys(OBSERVATION_STATUS_LABELS) as ObservationStatus[]).filter((s) => found.has(s));
+}
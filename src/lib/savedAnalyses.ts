@@ -0,0 +1,98 @@
+// Analysis Builder configurations saved in saved_analyses, and their share links
+
+import { supabase } from "@/integrations/supabase/client";
+import type { Json } from "@/integrations/supabase/types";
+import type { AnalysisConfig, Currency, SavedAnalysis } from "@/lib/types";
+
+const CURRENCIES: Currency[] = ["original", "EUR", "USD"];
+
+/**
+ * Read-only view of an analysis, for anyone with the link
+ */
+export function analysisShareUrl(id: string): string {
+  return `${window.location.origin}/analysis/${id}`;
+}
+
+// The column is plain JSON, so missing or unknown fields fall back to the builder's defaults
+function parseConfig(config: Json): AnalysisConfig {
+  const raw = (config && typeof config === "object" && !Array.isArray(config) ? config : {}) as Partial<AnalysisConfig>;
+  return {
+    selectedSeries: Array.isArray(raw.selectedSeries) ? raw.selectedSeries : [],
+    transformations: Array.isArray(raw.transformations) ? raw.transformations : [],
+    dateRange: {
+      start: raw.dateRange?.start || "1970-01-01",
+      end: raw.dateRange?.end || new Date().toISOString().split("T")[0],
+    },
+    currency: CURRENCIES.includes(raw.currency as Currency) ? (raw.currency as Currency) : "original",
+  };
+}
+
+function toSavedAnalysis(row: { id: string; name: string; config: Json; created_at: string; updated_at: string }): SavedAnalysis {
+  return {
+    id: row.id,
+    name: row.name,
+    config: parseConfig(row.config),
+    created_at: row.created_at,
+    updated_at: row.updated_at,
+  };
+}
+
+/**
+ * The signed-in user's analyses, most recently changed first
+ */
+export async function listSavedAnalyses(): Promise<SavedAnalysis[]> {
+  const { data, error } = await supabase
+    .from("saved_analyses")
+    .select("id, name, config, created_at, updated_at")
+    .order("updated_at", { ascending: false });
+  if (error) throw error;
+  return (data || []).map(toSavedAnalysis);
+}
+
+/**
+ * One analysis by id, whoever owns it; null when the link points nowhere
+ */
+export async function getSavedAnalysis(id: string): Promise<(SavedAnalysis & { isOwner: boolean }) | null> {
+  const { data, error } = await supabase.rpc("get_saved_analysis", { p_id: id });
+  // A malformed id is a broken link, not an error worth surfacing
+  if (error?.code === "22P02") return null;
+  if (error) throw error;
+  const row = data?.[0];
+  return row ? { ...toSavedAnalysis(row), isOwner: row.is_owner } : null;
+}
+
+export async function createSavedAnalysis(name: string, config: AnalysisConfig): Promise<SavedAnalysis> {
+  const { data, error } = await supabase
+    .from("saved_analyses")
+    .insert({ name: name.trim(), config: config as unknown as Json })
+    .select("id, name, config, created_at, updated_at")
+    .single();
+  if (error) throw error;
+  return toSavedAnalysis(data);
+}
+
+export async function updateSavedAnalysis(
+  id: string,
+  changes: { name?: string; config?: AnalysisConfig },
+): Promise<SavedAnalysis> {
+  const { data, error } = await supabase
+    .from("saved_analyses")
+    .update({
+      ...(changes.name !== undefined ? { name: changes.name.trim() } : {}),
+      ...(changes.config !== undefined ? { config: changes.config as unknown as Json } : {}),
+    })
+    .eq("id", id)
+    .select("id, name, config, created_at, updated_at")
+    .single();
+  if (error) throw error;
+  return toSavedAnalysis(data);
+}
+
+export async function duplicateSavedAnalysis(analysis: SavedAnalysis): Promise<SavedAnalysis> {
+  return createSavedAnalysis(`${analysis.name} (copy)`, analysis.config);
+}
+
+export async function deleteSavedAnalysis(id: string): Promise<void> {
+  const { error } = await supabase.from("saved_analyses").delete().eq("id", id);
+  if (error) throw error;
+}
@@ -0,0 +1,31 @@
+// Display helpers for the provider metadata stored on the series table
+
+const MULTIPLIER_LABELS: Record<number, string> = {
+  3: "Thousands",
+  6: "Millions",
+  9: "Billions",
+  12: "Trillions",
+};
+
+/**
+ * Label for a power-of-ten unit multiplier (SDMX UNIT_MULT convention).
+ * Returns null for unscaled series so callers can skip the field.
+ */
+export function formatUnitMultiplier(multiplier: number | null | undefined): string | null {
+  if (multiplier === null || multiplier === undefined || multiplier === 0) return null;
+  return MULTIPLIER_LABELS[multiplier] ?? `×10^${multiplier}`;
+}
+
+/** "1990-01-01 – 2024-06-01", or null when the range is unknown */
+export function formatObservationRange(start: string | null | undefined, end: string | null | undefined): string | null {
+  if (!start && !end) return null;
+  return `${start || "?"} – ${end || "?"}`;
+}
+
+/** Provider-side last-updated timestamp as a short date */
+export function formatProviderUpdated(timestamp: string | null | undefined): string | null {
+  if (!timestamp) return null;
+  const date = new Date(timestamp);
+  if (isNaN(date.getTime())) return null;
+  return date.toLocaleDateString(undefined, { day: "numeric", month: "short", year: "numeric" });
+}
@@ -0,0 +1,141 @@
+// StatFin table modules served by the fetch-statfin-module edge function. Module
+// definitions live in supabase/functions/_shared/statfin-modules.ts and are loaded
+// from the function, so the explorer renders whatever modules the backend defines.
+
+import { authHeaders } from "@/lib/api";
+import type { StatFinTableMetadata } from "@/lib/statfinPxweb";
+
+export type TableModuleRole = "year" | "month" | "quarter" | "period" | "measure" | "dimension";
+
+export type TableModuleDefaultSelection = { last: number } | { first: number } | "all";
+
+export interface TableModuleVariable {
+  key: string;
+  codes: string[];
+  role: TableModuleRole;
+  label: string;
+  defaultSelection: TableModuleDefaultSelection;
+  picker: "toggle" | "checkbox" | "select";
+}
+
+export interface TableModuleChartView {
+  id: string;
+  label: string;
+  type: "line" | "bar";
+  groupBy: "period" | "year";
+}
+
+export interface StatFinTableModule {
+  id: string;
+  title: string;
+  description: string;
+  icon: string;
+  tablePath: string;
+  language: string;
+  variables: TableModuleVariable[];
+  series: { id: string; title: string; freq: string; unit: string };
+  chart: { valueLabel: string; views: TableModuleChartView[] };
+}
+
+export interface TableModuleRow {
+  date: string;
+  codes: Record<string, string>;
+  labels: Record<string, string>;
+  value: number | null;
+}
+
+export interface TableModuleDataResponse {
+  meta: { title: string; source: string; updated: string };
+  data: TableModuleRow[];
+  rowCount: number;
+}
+
+const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
+
+async function callModuleFunction<T>(params: Record<string, string>, body?: unknown): Promise<T> {
+  const url = new URL(`${SUPABASE_URL}/functions/v1/fetch-statfin-module`);
+  for (const [name, value] of Object.entries(params)) {
+    url.searchParams.set(name, value);
+  }
+
+  const response = await fetch(url.toString(), {
+    method: body === undefined ? "GET" : "POST",
+    headers: {
+      ...(await authHeaders()),
+      ...(body === undefined ? {} : { "Content-Type": "application/json" }),
+    },
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+
+  if (!response.ok) {
+    const error = await response.json().catch(() => ({ error: response.statusText }));
+    throw new Error(error.error || `Table module request failed: ${response.status}`);
+  }
+  return await response.json() as T;
+}
+
+export async function fetchTableModules(): Promise<StatFinTableModule[]> {
+  const result = await callModuleFunction<{ modules: StatFinTableModule[] }>({ action: "modules" });
+  return result.modules;
+}
+
+export async function fetchTableModuleMeta(moduleId: string): Promise<StatFinTableMetadata> {
+  const result = await callModuleFunction<{ meta: StatFinTableMetadata }>({ action: "meta", module: moduleId });
+  return result.meta;
+}
+
+export async function fetchTableModuleData(
+  moduleId: string,
+  selections: Record<string, string[]>
+): Promise<TableModuleDataResponse> {
+  return await callModuleFunction<TableModuleDataResponse>({ action: "data", module: moduleId }, { selections });
+}
+
+export async function ingestTableModule(
+  moduleId: string,
+  selections: Record<string, string[]>
+): Promise<{ seriesId: string; seriesIds: string[]; seriesCount: number; observationCount: number }> {
+  return await callModuleFunction({ action: "ingest", module: moduleId }, { selections });
+}
+
+/**
+ * Table variable a module variable maps to: the first of its codes present in the metadata
+ */
+export function findModuleVariable(variable: TableModuleVariable, meta: StatFinTableMetadata) {
+  return variable.codes
+    .map((code) => meta.variables.find((v) => v.code === code))
+    .find((v) => v !== undefined);
+}
+
+/**
+ * Values a module variable selects by default, matching the edge function's defaults
+ */
+export function defaultModuleSelection(variable: TableModuleVariable, values: string[]): string[] {
+  const selection = variable.defaultSelection;
+  if (selection === "all") return values;
+  if ("last" in selection) return values.slice(-selection.last);
+  return values.slice(0, selection.first);
+}
+
+/**
+ * Points for a chart view: every row by date, or the sum of each year's rows
+ */
+export function moduleChartData(
+  rows: TableModuleRow[],
+  view: TableModuleChartView
+): Array<{ date: string; value: number }> {
+  const valid = rows.filter((row) => row.value !== null && row.date);
+
+  if (view.groupBy === "year") {
+    const totals = new Map<string, number>();
+    for (const row of valid) {
+      const year = row.date.slice(0, 4);
+      totals.set(year, (totals.get(year) || 0) + (row.value as number));
+    }
+    return Array.from(totals, ([date, value]) => ({ date, value })).sort((a, b) => a.date.localeCompare(b.date));
+  }
+
+  return valid
+    .map((row) => ({ date: row.date, value: row.value as number }))
+    .sort((a, b) => a.date.localeCompare(b.date));
+}
@@ -1,5 +1,6 @@
-// StatFin PxWeb API Utility Module
-// Handles hierarchical navigation and data fetching from Statistics Finland
+// PxWeb API Utility Module
+// Handles hierarchical navigation and data fetching from Statistics Finland and the
+// other PxWeb sources served by the fetch-statfin edge function
 
 export interface StatFinNode {
   id: string;
@@ -54,33 +55,47 @@ export interface TimeSeriesPoint {
 const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
 const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
 
-// Known StatFin database prefixes
-const KNOWN_DATABASES = [
-  "StatFin",
-  "Check", 
-  "Hyvinvointialueet",
-  "Kokeelliset_tilastot",
-  "Kuntien_avainluvut",
-  "Kuntien_talous_ja_toiminta",
-  "Maahanmuuttajat_ja_kotoutuminen",
-  "NOVI-fi",
-  "Postinumeroalueittainen_avoin_tieto",
-  "SDG",
-  "StatFin_Passiivi"
+/** PxWeb API v1 paths, or PxWebApi 2.0 table ids and navigation folders */
+export type PxWebApiVersion = 'v1' | 'v2';
+
+export interface PxWebSourceOption {
+  /** series.source code, passed to fetch-statfin as the source parameter */
+  code: string;
+  name: string;
+  languages: string[];
+  apiVersions: PxWebApiVersion[];
+  /** Path the v1 explorer opens at; empty when the API root already is the table tree */
+  rootPath: string[];
+}
+
+export const PXWEB_SOURCES: PxWebSourceOption[] = [
+  { code: 'STATFIN', name: 'Statistics Finland', languages: ['en', 'fi', 'sv'], apiVersions: ['v1', 'v2'], rootPath: ['StatFin'] },
+  { code: 'SCB', name: 'Statistics Sweden', languages: ['en', 'sv'], apiVersions: ['v1', 'v2'], rootPath: [] },
+  { code: 'SSB', name: 'Statistics Norway', languages: ['en', 'no'], apiVersions: ['v1'], rootPath: [] },
+  { code: 'HAGSTOFA', name: 'Statistics Iceland', languages: ['en', 'is'], apiVersions: ['v1'], rootPath: [] },
 ];
 
+export function getPxWebSourceOption(code: string): PxWebSourceOption {
+  return PXWEB_SOURCES.find((s) => s.code === code) || PXWEB_SOURCES[0];
+}
+
 /**
  * Fetch navigation nodes (folders and tables) at a given path
  */
 export async function fetchNavigation(
   path: string[] = [],
-  language: 'en' | 'fi' = 'en'
+  language: string = 'en',
+  source: string = 'STATFIN',
+  api: PxWebApiVersion = 'v1'
 ): Promise<StatFinNode[]> {
-  const pathStr = path.length > 0 ? path.join('/') : 'StatFin';
-  
   const url = new URL(`${SUPABASE_URL}/functions/v1/fetch-statfin`);
   url.searchParams.set('action', 'tables');
-  url.searchParams.set('databasePath', pathStr);
+  url.searchParams.set('source', source);
+  url.searchParams.set('api', api);
+  // Without a path the function lists the source's default database
+  if (path.length > 0) {
+    url.searchParams.set('databasePath', path.join('/'));
+  }
   url.searchParams.set('language', language);
   
   const response = await fetch(url.toString(), {
@@ -112,12 +127,16 @@ export async function fetchNavigation(
  */
 export async function fetchTableMetadata(
   tablePath: string[],
-  language: 'en' | 'fi' = 'en'
+  language: string = 'en',
+  source: string = 'STATFIN',
+  api: PxWebApiVersion = 'v1'
 ): Promise<StatFinTableMetadata> {
   const pathStr = tablePath.join('/');
   
   const url = new URL(`${SUPABASE_URL}/functions/v1/fetch-statfin`);
   url.searchParams.set('action', 'metadata');
+  url.searchParams.set('source', source);
+  url.searchParams.set('api', api);
   url.searchParams.set('tablePath', pathStr);
   url.searchParams.set('language', language);
   
@@ -223,17 +242,21 @@ export function buildDefaultQuery(
 }
 
 /**
- * Fetch data from a StatFin table
+ * Fetch data from a PxWeb table
  */
 export async function fetchTableData(
   tablePath: string[],
   query: StatFinQuery,
-  language: 'en' | 'fi' = 'en'
+  language: string = 'en',
+  source: string = 'STATFIN',
+  api: PxWebApiVersion = 'v1'
 ): Promise<StatFinDataResponse> {
   const pathStr = tablePath.join('/');
   
   const url = new URL(`${SUPABASE_URL}/functions/v1/fetch-statfin`);
   url.searchParams.set('action', 'data');
+  url.searchParams.set('source', source);
+  url.searchParams.set('api', api);
   url.searchParams.set('tablePath', pathStr);
   url.searchParams.set('language', language);
   
@@ -1,5 +1,18 @@
 // Shared types for data sources and series
-export type DataSource = "ALL" | "FRED" | "STATFIN" | "ECB" | "EUROSTAT" | "OECD" | "WORLDBANK";
+
+// A sources.code, or "ALL" in source filters
+export type DataSource = string;
+
+// A row of the sources registry that series.source references
+export interface SourceInfo {
+  code: string;
+  label: string;
+  homepage: string | null;
+  license: string | null;
+  attribution: string | null;
+  default_currency: string | null;
+  enabled: boolean;
+}
 
 export interface Series {
   id: string;
@@ -26,3 +39,93 @@ export type Transformation = {
   seriesA: string;
   seriesB: string;
 };
+
+// Analysis Builder state stored in saved_analyses.config
+export interface AnalysisConfig {
+  selectedSeries: SelectedSeries[];
+  transformations: Transformation[];
+  dateRange: { start: string; end: string };
+  currency: Currency;
+}
+
+// A row of saved_analyses
+export interface SavedAnalysis {
+  id: string;
+  name: string;
+  config: AnalysisConfig;
+  created_at: string;
+  updated_at: string;
+}
+
+// Series a partial SDMX key would create, returned by the ECB/OECD preview action
+export interface SdmxIngestPreview {
+  seriesCount: number;
+  maxSeries: number;
+  series: {
+    seriesId: string;
+    providerId: string;
+    title: string;
+    latestPeriod: string | null;
+    latestValue: number | null;
+  }[];
+}
+
+// Key dimension of an SDMX dataflow with its code list, in series key order
+export interface SdmxDimension {
+  id: string;
+  name: string;
+  position: number;
+  codes: { id: string; name: string }[];
+}
+
+// Series created by one of the Data Explorer key builders
+export interface IngestedSeries {
+  seriesId: string;
+  providerId: string;
+  title: string;
+}
+
+// OECD dataflow as returned by the fetch-oecd search; agencyId and version make the data URL unambiguous
+export interface OecdDataflowRef {
+  dataflowId: string;
+  agencyId?: string;
+  version?: string;
+  dsdId?: string | null;
+}
+
+// History depth of a FRED ingest; without options the last 10 years are fetched
+export interface FredIngestOptions {
+  /** Fetch the complete history */
+  full?: boolean;
+  /** First observation date to fetch (YYYY-MM-DD) */
+  startDate?: string;
+  /** Fetch only observations from the latest stored date on */
+  incremental?: boolean;
+}
+
+// Outcome of the data quality checks; "info" findings leave a series "ok"
+export type QualityStatus = "ok" | "warning" | "error";
+
+// A row of series_quality_findings
+export interface QualityFinding {
+  id: number;
+  series_id: string;
+  check_type: "no_data" | "all_null" | "missing_periods" | "outlier" | "stale" | "duplicate_values";
+  severity: "info" | "warning" | "error";
+  message: string;
+  detected_at: string;
+}
+
+// SDMX OBS_STATUS code stored in observations.status
+export type ObservationStatus = "B" | "P" | "E" | "F" | "I" | "U" | "D" | "C" | "M";
+
+// A row of observation_footnotes; date is null for notes on the whole series
+export interface ObservationFootnote {
+  id: number;
+  series_id: string;
+  date: string | null;
+  footnote: string;
+}
+
+// user_roles.role: admins ingest and edit data, analysts also run quality checks and save analyses, viewers only read
+export type AppRole = "admin" | "analyst" | "viewer";
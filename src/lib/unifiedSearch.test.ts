@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { mergeSearchResults, providerDatasetId, seriesTextFilter, type SearchCandidate } from "@/lib/unifiedSearch";
+
+describe("seriesTextFilter", () => {
+  it("matches the text in the title or id", () => {
+    expect(seriesTextFilter("gdp")).toBe('title.ilike."%gdp%",id.ilike."%gdp%"');
+  });
+
+  it("escapes ilike wildcards so they match literally", () => {
+    expect(seriesTextFilter("GDP_Q")).toBe('title.ilike."%GDP\\\\_Q%",id.ilike."%GDP\\\\_Q%"');
+    expect(seriesTextFilter("50%")).toBe('title.ilike."%50\\\\%%",id.ilike."%50\\\\%%"');
+  });
+
+  it("keeps commas, parentheses and quotes inside the quoted value", () => {
+    expect(seriesTextFilter('GDP, "real" (2015)')).toBe(
+      'title.ilike."%GDP, \\"real\\" (2015)%",id.ilike."%GDP, \\"real\\" (2015)%"',
+    );
+  });
+});
+
+describe("providerDatasetId", () => {
+  it("reduces SDMX provider ids to their dataflow", () => {
+    expect(providerDatasetId("ECB", "EXR/M.USD.EUR.SP00.A")).toBe("EXR");
+    expect(providerDatasetId("OECD", "OECD.SDD.TPS,DSD_PRICES@DF_PRICES_ALL,1.0/FIN.M.CPI")).toBe(
+      "DSD_PRICES@DF_PRICES_ALL",
+    );
+  });
+
+  it("reduces PxWeb provider ids of every source to their table", () => {
+    expect(providerDatasetId("STATFIN", "StatFin/synt/statfin_synt_pxt_12dl.px/Alue=SSS;Tiedot=vm01")).toBe(
+      "statfin_synt_pxt_12dl",
+    );
+    expect(providerDatasetId("SCB", "BE/BE0101/BE0101A/BefolkningNy/Region=00;Tid=2020")).toBe("BefolkningNy");
+    expect(providerDatasetId("SSB", "07459/Region=0;ContentsCode=Personer1")).toBe("07459");
+    expect(providerDatasetId("HAGSTOFA", "Ibuar/mannfjoldi/MAN00000.px")).toBe("MAN00000");
+  });
+});
+
+describe("mergeSearchResults", () => {
+  it("prefers the stored series and marks datasets the warehouse holds", () => {
+    const stored = { id: "SCB_POP_00", title: "Population: Sweden", source: "SCB", providerId: "BefolkningNy/Region=00" };
+    const results = mergeSearchResults<SearchCandidate>(
+      "population",
+      [stored],
+      [[
+        { id: "BefolkningNy", title: "Population by region", source: "SCB", providerId: "BefolkningNy" },
+        { id: "BefolkningNy/Region=00", title: "Population: Sweden", source: "SCB", providerId: "BefolkningNy/Region=00" },
+      ]],
+    );
+
+    expect(results.map((r) => r.id)).toEqual(["SCB_POP_00", "BefolkningNy"]);
+    expect(results.every((r) => r.inWarehouse)).toBe(true);
+  });
+});
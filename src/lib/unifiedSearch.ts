@@ -0,0 +1,107 @@
+// Warehouse text filter, and merging and ranking for the Data Explorer's "All sources" search
+
+import { PXWEB_SOURCES } from "@/lib/statfinPxweb";
+
+export interface SearchCandidate {
+  id: string;
+  title: string;
+  // sources.code
+  source: string;
+  providerId?: string;
+  /** Set on warehouse series and on provider results the warehouse already holds series from */
+  inWarehouse?: boolean;
+}
+
+// Results shown for one "All sources" search
+export const UNIFIED_SEARCH_LIMIT = 100;
+
+/**
+ * PostgREST .or() filter matching series whose title or id contains the text. The ilike
+ * wildcards % and _ are escaped so they match literally, and the pattern is double-quoted
+ * with quotes and backslashes escaped, so commas, dots and parentheses typed into a search
+ * box stay part of the value instead of breaking the filter.
+ */
+export function seriesTextFilter(text: string): string {
+  const literal = text.replace(/[\\%_]/g, "\\$&");
+  const pattern = `"%${literal.replace(/["\\]/g, "\\$&")}%"`;
+  return `title.ilike.${pattern},id.ilike.${pattern}`;
+}
+
+/**
+ * Dataset, dataflow, indicator or table a stored provider_id belongs to, so warehouse
+ * series can be matched to provider search results: "EXR/M.USD.EUR.SP00.A" gives "EXR",
+ * "OECD.SDD.TPS,DSD_PRICES@DF_PRICES_ALL,1.0/..." gives "DSD_PRICES@DF_PRICES_ALL" and
+ * "StatFin/synt/statfin_synt_pxt_12dl.px/Alue=SSS;Tiedot=vm01" gives "statfin_synt_pxt_12dl"
+ * (the same for the other PxWeb sources).
+ */
+export function providerDatasetId(source: string, providerId: string): string {
+  if (PXWEB_SOURCES.some((pxweb) => pxweb.code === source)) {
+    // Trailing "Code=value;..." segments name the selection within the table
+    const segments = providerId.split("/").filter((segment) => segment && !segment.includes("="));
+    return (segments[segments.length - 1] || providerId).replace(/\.px$/i, "");
+  }
+  const flow = providerId.split("/")[0];
+  return flow.includes(",") ? flow.split(",")[1] : flow;
+}
+
+/**
+ * Relevance of a result to the query between 0 and 1: an exact id match, then the
+ * whole query in the title, then the share of query words found in the title or id.
+ */
+export function matchScore(query: string, candidate: SearchCandidate): number {
+  const q = query.trim().toLowerCase();
+  if (!q) return 0;
+  const id = (candidate.providerId || candidate.id).toLowerCase();
+  const title = candidate.title.toLowerCase();
+
+  if (id === q || candidate.id.toLowerCase() === q) return 1;
+  if (title === q) return 0.95;
+  if (title.includes(q)) return 0.8;
+
+  const words = q.split(/\s+/).filter(Boolean);
+  const found = words.filter((word) => title.includes(word) || id.includes(word)).length;
+  return (found / words.length) * 0.7;
+}
+
+/**
+ * One ranked list from the warehouse series and each provider's results. Provider results
+ * for a series already stored are dropped in favour of the warehouse row; results for a
+ * dataset the warehouse holds series from are marked inWarehouse. A provider's own
+ * ordering counts for a quarter of the score, so its best hits stay near the top.
+ */
+export function mergeSearchResults<T extends SearchCandidate>(
+  query: string,
+  warehouse: T[],
+  providerResults: T[][],
+): T[] {
+  const storedIds = new Set(warehouse.map((s) => `${s.source}:${s.providerId || s.id}`));
+  const storedDatasets = new Set(
+    warehouse.filter((s) => s.providerId).map((s) => `${s.source}:${providerDatasetId(s.source, s.providerId!)}`),
+  );
+
+  const seen = new Set<string>();
+  const scored: { result: T; score: number }[] = [];
+
+  const add = (result: T, position: number, count: number) => {
+    const key = `${result.source}:${result.providerId || result.id}`;
+    if (seen.has(key)) return;
+    seen.add(key);
+    const score = matchScore(query, result) + 0.25 * (1 - position / Math.max(count, 1)) + (result.inWarehouse ? 0.1 : 0);
+    scored.push({ result, score });
+  };
+
+  warehouse.forEach((series, i) => add({ ...series, inWarehouse: true }, i, warehouse.length));
+
+  for (const results of providerResults) {
+    results.forEach((result, i) => {
+      const key = `${result.source}:${result.providerId || result.id}`;
+      if (storedIds.has(key)) return;
+      add({ ...result, inWarehouse: storedDatasets.has(key) }, i, results.length);
+    });
+  }
+
+  return scored
+    .sort((a, b) => b.score - a.score)
+    .slice(0, UNIFIED_SEARCH_LIMIT)
+    .map((s) => s.result);
+}
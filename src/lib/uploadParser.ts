@@ -0,0 +1,240 @@
+// Parsing of uploaded CSV and Excel files into series for the upload-series edge
+// function. Both formats go through xlsx, so a CSV is handled as a one-sheet workbook.
+
+import * as XLSX from "xlsx";
+
+export type UploadFrequency = "D" | "W" | "M" | "Q" | "A";
+
+export interface UploadSheet {
+  name: string;
+  headers: string[];
+  /** Data rows below the header row, one cell per header */
+  rows: unknown[][];
+}
+
+export interface UploadWorkbook {
+  fileName: string;
+  sheets: UploadSheet[];
+}
+
+export interface UploadObservation {
+  date: string;
+  value: number | null;
+}
+
+export interface UploadSeriesDraft {
+  /** Set to replace the uploaded series with this id; a new series is created otherwise */
+  seriesId?: string;
+  title: string;
+  column: string;
+  freq: UploadFrequency;
+  unit: string;
+  currency: string | null;
+  observations: UploadObservation[];
+}
+
+export interface UploadMapping {
+  dateColumn: number;
+  valueColumns: Array<{ index: number; title: string }>;
+  freq: UploadFrequency;
+  unit: string;
+  currency: string | null;
+}
+
+export interface UploadParseResult {
+  series: UploadSeriesDraft[];
+  /** Rows whose date cell could not be read */
+  skippedRows: number;
+}
+
+// Matches the limit enforced by the upload-series edge function
+export const MAX_UPLOAD_SERIES = 50;
+
+/**
+ * USER_ id the upload-series edge function derives from a title, e.g.
+ * "Consultancy GDP forecast" gives "USER_CONSULTANCY_GDP_FORECAST"
+ */
+export function uploadSeriesId(title: string): string {
+  const slug = title
+    .toUpperCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .substring(0, 60);
+  return `USER_${slug || "SERIES"}`;
+}
+
+/**
+ * Read a CSV, XLS or XLSX file; the first non-empty row of each sheet is its header
+ */
+export async function readUploadFile(file: File): Promise<UploadWorkbook> {
+  const buffer = await file.arrayBuffer();
+  const workbook = XLSX.read(buffer, { type: "array", cellDates: true });
+
+  const sheets = workbook.SheetNames.map((name) => {
+    const table = XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets[name], {
+      header: 1,
+      blankrows: false,
+      defval: null,
+      raw: true,
+    });
+    const [headerRow = [], ...rows] = table;
+    const headers = headerRow.map((cell, i) => (cell === null || cell === "" ? `Column ${i + 1}` : String(cell).trim()));
+    return { name, headers, rows };
+  }).filter((sheet) => sheet.headers.length > 0);
+
+  if (sheets.length === 0) {
+    throw new Error("The file contains no data");
+  }
+
+  return { fileName: file.name, sheets };
+}
+
+function isoDate(year: number, month: number, day: number): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (isNaN(date.getTime()) || date.getUTCMonth() !== month - 1) return null;
+  return date.toISOString().split("T")[0];
+}
+
+/**
+ * Date of a cell as YYYY-MM-DD. Accepts Excel dates, ISO dates, 2024-03, 2024M03,
+ * 2024Q1, plain years and day-first 31.12.2024 or 31/12/2024.
+ */
+export function parseUploadDate(cell: unknown): string | null {
+  if (cell instanceof Date) {
+    if (isNaN(cell.getTime())) return null;
+    // xlsx builds dates in local time; read them back the same way
+    return isoDate(cell.getFullYear(), cell.getMonth() + 1, cell.getDate());
+  }
+
+  if (typeof cell === "number" && Number.isInteger(cell) && cell >= 1000 && cell <= 9999) {
+    return isoDate(cell, 1, 1);
+  }
+
+  if (typeof cell !== "string") return null;
+  const text = cell.trim();
+  let match: RegExpMatchArray | null;
+
+  if ((match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/))) {
+    return isoDate(+match[1], +match[2], +match[3]);
+  }
+  if ((match = text.match(/^(\d{4})[-/M](\d{1,2})$/i))) {
+    return isoDate(+match[1], +match[2], 1);
+  }
+  if ((match = text.match(/^(\d{4})\s*-?\s*Q([1-4])$/i))) {
+    return isoDate(+match[1], (+match[2] - 1) * 3 + 1, 1);
+  }
+  if ((match = text.match(/^(\d{4})$/))) {
+    return isoDate(+match[1], 1, 1);
+  }
+  if ((match = text.match(/^(\d{1,2})[./](\d{1,2})[./](\d{4})$/))) {
+    return isoDate(+match[3], +match[2], +match[1]);
+  }
+
+  return null;
+}
+
+/**
+ * Number in a cell; tolerates thousands separators and decimal commas. Empty and
+ * missing-value markers such as ".." read as null.
+ */
+export function parseUploadValue(cell: unknown): number | null | undefined {
+  if (cell === null || cell === undefined) return null;
+  if (typeof cell === "number") return Number.isFinite(cell) ? cell : undefined;
+  if (typeof cell !== "string") return undefined;
+
+  let text = cell.trim().replace(/[\s']/g, "");
+  if (text === "" || /^(\.+|-|NA|N\/A|NaN)$/i.test(text)) return null;
+
+  if (text.includes(",") && text.includes(".")) {
+    // The separator that comes last is the decimal one
+    text = text.lastIndexOf(",") > text.lastIndexOf(".")
+      ? text.replace(/\./g, "").replace(",", ".")
+      : text.replace(/,/g, "");
+  } else if (text.includes(",")) {
+    text = text.replace(",", ".");
+  }
+
+  const value = Number(text);
+  return Number.isFinite(value) ? value : undefined;
+}
+
+/**
+ * Period start for a date, so that 2024-03-31 becomes 2024-03-01 for a monthly series
+ */
+export function alignToFrequency(date: string, freq: UploadFrequency): string {
+  const [year, month] = date.split("-").map(Number);
+  switch (freq) {
+    case "A":
+      return `${year}-01-01`;
+    case "Q":
+      return `${year}-${String(Math.floor((month - 1) / 3) * 3 + 1).padStart(2, "0")}-01`;
+    case "M":
+      return `${date.slice(0, 7)}-01`;
+    default:
+      return date;
+  }
+}
+
+/**
+ * Series drafts for the mapped columns of a sheet. Values that are not numbers raise
+ * an error naming the cell, rather than being dropped silently.
+ */
+export function buildUploadSeries(sheet: UploadSheet, mapping: UploadMapping): UploadParseResult {
+  let skippedRows = 0;
+  const dated: Array<{ date: string; row: unknown[] }> = [];
+
+  for (const row of sheet.rows) {
+    const date = parseUploadDate(row[mapping.dateColumn]);
+    if (!date) {
+      skippedRows++;
+      continue;
+    }
+    dated.push({ date: alignToFrequency(date, mapping.freq), row });
+  }
+
+  const series = mapping.valueColumns.map(({ index, title }) => {
+    const column = sheet.headers[index];
+    const byDate = new Map<string, number | null>();
+
+    for (const { date, row } of dated) {
+      const value = parseUploadValue(row[index]);
+      if (value === undefined) {
+        throw new Error(`"${String(row[index])}" in column ${column} (${date}) is not a number`);
+      }
+      // Duplicate periods keep their first value, as the provider ingests do
+      if (!byDate.has(date)) byDate.set(date, value);
+    }
+
+    const observations = Array.from(byDate, ([date, value]) => ({ date, value }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    return {
+      title: title.trim() || column,
+      column,
+      freq: mapping.freq,
+      unit: mapping.unit,
+      currency: mapping.currency,
+      observations,
+    };
+  });
+
+  return { series, skippedRows };
+}
+
+/**
+ * Frequency suggested by the typical gap between dates
+ */
+export function guessFrequency(dates: string[]): UploadFrequency {
+  const times = dates.map((d) => new Date(d).getTime()).sort((a, b) => a - b);
+  const gaps = times.slice(1).map((t, i) => (t - times[i]) / 86400000).sort((a, b) => a - b);
+  if (gaps.length === 0) return "M";
+
+  const median = gaps[Math.floor(gaps.length / 2)];
+  if (median >= 300) return "A";
+  if (median >= 80) return "Q";
+  if (median >= 25) return "M";
+  if (median >= 6) return "W";
+  return "D";
+}
@@ -6,14 +6,21 @@ import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Database, Loader2, CheckCircle2, AlertCircle, Search } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { fredApi, statfinApi } from "@/lib/api";
+import { fredApi, statfinApi, fxApi } from "@/lib/api";
 import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { RefreshStatusCard } from "@/components/admin/RefreshStatusCard";
+import { IngestionRunsCard } from "@/components/admin/IngestionRunsCard";
+import { FredBackfillCard } from "@/components/admin/FredBackfillCard";
+import { QualitySummaryCard } from "@/components/admin/QualitySummaryCard";
 
 const Admin = () => {
   const { toast } = useToast();
   const [fredSeriesId, setFredSeriesId] = useState("GDPC1");
   const [fredLoading, setFredLoading] = useState(false);
   const [fredResult, setFredResult] = useState<any>(null);
+  const [fredHistory, setFredHistory] = useState<"recent" | "full" | "since" | "incremental">("recent");
+  const [fredStartDate, setFredStartDate] = useState("1970-01-01");
   const [fredSearchQuery, setFredSearchQuery] = useState("");
   const [fredSearchResults, setFredSearchResults] = useState<any[]>([]);
   const [fredSearchLoading, setFredSearchLoading] = useState(false);
@@ -36,6 +43,9 @@ const Admin = () => {
   const [statfinLoading, setStatfinLoading] = useState(false);
   const [statfinResult, setStatfinResult] = useState<any>(null);
 
+  const [fxLoading, setFxLoading] = useState(false);
+  const [fxResult, setFxResult] = useState<Record<string, unknown> | null>(null);
+
   const handleFredSearch = async () => {
     if (!fredSearchQuery.trim()) return;
     
@@ -64,7 +74,11 @@ const Admin = () => {
     setFredLoading(true);
     setFredResult(null);
     try {
-      const result = await fredApi.ingest(fredSeriesId);
+      const result = await fredApi.ingest(fredSeriesId, {
+        full: fredHistory === "full",
+        startDate: fredHistory === "since" ? fredStartDate : undefined,
+        incremental: fredHistory === "incremental",
+      });
       setFredResult(result);
       toast({
         title: "Success",
@@ -92,7 +106,9 @@ const Admin = () => {
       setStatfinResult(result);
       toast({
         title: "Success",
-        description: `Ingested ${result.observationCount} observations for ${result.seriesId}`,
+        description: `Ingested ${result.observationCount} observations for ${
+          result.seriesCount > 1 ? `${result.seriesCount} series` : result.seriesId
+        }`,
       });
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : "Failed to ingest";
@@ -107,6 +123,29 @@ const Admin = () => {
     }
   };
 
+  const handleFxIngest = async () => {
+    setFxLoading(true);
+    setFxResult(null);
+    try {
+      const result = await fxApi.ingest();
+      setFxResult(result);
+      toast({
+        title: "Success",
+        description: `Stored ${result.rateCount} rates and converted ${result.convertedCount ?? 0} observations`,
+      });
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Failed to update FX rates";
+      toast({
+        title: "Error",
+        description: errorMessage,
+        variant: "destructive",
+      });
+      setFxResult({ error: errorMessage });
+    } finally {
+      setFxLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-background">
       {/* Header */}
@@ -215,6 +254,34 @@ const Admin = () => {
               </p>
             </div>
 
+            <div className="grid gap-4 sm:grid-cols-2">
+              <div className="space-y-2">
+                <Label htmlFor="fred-history">History</Label>
+                <Select value={fredHistory} onValueChange={(v) => setFredHistory(v as typeof fredHistory)}>
+                  <SelectTrigger id="fred-history">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="recent">Last 10 years</SelectItem>
+                    <SelectItem value="full">Full history</SelectItem>
+                    <SelectItem value="since">From a start date</SelectItem>
+                    <SelectItem value="incremental">New observations only</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              {fredHistory === "since" && (
+                <div className="space-y-2">
+                  <Label htmlFor="fred-start-date">Start date</Label>
+                  <Input
+                    id="fred-start-date"
+                    type="date"
+                    value={fredStartDate}
+                    onChange={(e) => setFredStartDate(e.target.value)}
+                  />
+                </div>
+              )}
+            </div>
+
             <Button onClick={handleFredIngest} disabled={fredLoading || !fredSeriesId}>
               {fredLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
               Ingest FRED Series
@@ -243,6 +310,9 @@ const Admin = () => {
           </CardContent>
         </Card>
 
+        {/* FRED Backfill */}
+        <FredBackfillCard />
+
         {/* StatFin Ingestion */}
         <Card>
           <CardHeader>
@@ -307,6 +377,56 @@ const Admin = () => {
           </CardContent>
         </Card>
 
+        {/* Scheduled Refresh */}
+        <RefreshStatusCard />
+
+        {/* Ingestion History */}
+        <IngestionRunsCard />
+
+        {/* Data Quality */}
+        <QualitySummaryCard />
+
+        {/* FX Rates */}
+        <Card>
+          <CardHeader>
+            <CardTitle>FX Rates (ECB reference rates)</CardTitle>
+            <CardDescription>
+              Fetch daily euro reference rates into fx_rates and fill EUR/USD values for every series with a known currency
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <p className="text-xs text-muted-foreground">
+              Continues from the latest stored rate. Converted values use period-average rates matching each series' frequency.
+            </p>
+
+            <Button onClick={handleFxIngest} disabled={fxLoading}>
+              {fxLoading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Update FX Rates
+            </Button>
+
+            {fxResult && (
+              <div
+                className={`rounded-lg border p-4 ${
+                  fxResult.error ? "border-destructive bg-destructive/10" : "border-green-600 bg-green-50 dark:bg-green-950"
+                }`}
+              >
+                <div className="flex items-start gap-2">
+                  {fxResult.error ? (
+                    <AlertCircle className="h-5 w-5 text-destructive shrink-0 mt-0.5" />
+                  ) : (
+                    <CheckCircle2 className="h-5 w-5 text-green-600 shrink-0 mt-0.5" />
+                  )}
+                  <div className="flex-1">
+                    <pre className="text-sm font-mono overflow-x-auto">
+                      {JSON.stringify(fxResult, null, 2)}
+                    </pre>
+                  </div>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
         {/* Quick Links */}
         <Card>
           <CardHeader>
@@ -1,15 +1,37 @@
-import { useState } from "react";
-import { TrendingUp } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Link, useLocation, useNavigate } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { Copy, Link2, Loader2, Pencil, Save, TrendingUp } from "lucide-react";
 import { DashboardLayout } from "@/components/dashboard";
 import { MultiSeriesSelector } from "@/components/analysis/MultiSeriesSelector";
 import { TransformationBuilder } from "@/components/analysis/TransformationBuilder";
 import { MultiSeriesChart } from "@/components/analysis/MultiSeriesChart";
 import { AnalysisDataTable } from "@/components/analysis/AnalysisDataTable";
+import { AnalysisNameDialog } from "@/components/analysis/AnalysisNameDialog";
+import { SavedAnalysesCard } from "@/components/analysis/SavedAnalysesCard";
 import { DateRangePicker } from "@/components/DateRangePicker";
 import { CurrencySelector } from "@/components/CurrencySelector";
-import type { Currency, SelectedSeries, Transformation } from "@/lib/types";
+import { Button } from "@/components/ui/button";
+import { hasRole, useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import {
+  analysisShareUrl,
+  createSavedAnalysis,
+  getSavedAnalysis,
+  updateSavedAnalysis,
+} from "@/lib/savedAnalyses";
+import type { AnalysisConfig, Currency, SavedAnalysis, SelectedSeries, Transformation } from "@/lib/types";
+
+type NameDialog = "save" | "save-as" | "rename" | null;
 
 const Analysis = () => {
+  const { toast } = useToast();
+  const { role } = useAuth();
+  const canSave = hasRole(role, "analyst");
+  const queryClient = useQueryClient();
+  const location = useLocation();
+  const navigate = useNavigate();
+
   const [selectedSeries, setSelectedSeries] = useState<SelectedSeries[]>([]);
   const [transformations, setTransformations] = useState<Transformation[]>([]);
   const [dateRange, setDateRange] = useState({
@@ -17,18 +39,161 @@ const Analysis = () => {
     end: new Date().toISOString().split("T")[0],
   });
   const [currency, setCurrency] = useState<Currency>("original");
+  // The saved analysis that Save writes to; null for an unsaved analysis
+  const [current, setCurrent] = useState<{ id: string; name: string } | null>(null);
+  const [nameDialog, setNameDialog] = useState<NameDialog>(null);
+  const [saving, setSaving] = useState(false);
+
+  const config: AnalysisConfig = { selectedSeries, transformations, dateRange, currency };
+
+  const openAnalysis = (analysis: SavedAnalysis) => {
+    setSelectedSeries(analysis.config.selectedSeries);
+    setTransformations(analysis.config.transformations);
+    setDateRange(analysis.config.dateRange);
+    setCurrency(analysis.config.currency);
+    setCurrent({ id: analysis.id, name: analysis.name });
+  };
+
+  // The shared view's "Open in Analysis Builder" passes the analysis to load
+  const requestedId = (location.state as { analysisId?: string } | null)?.analysisId;
+  useEffect(() => {
+    if (!requestedId) return;
+    let cancelled = false;
+    getSavedAnalysis(requestedId)
+      .then((analysis) => {
+        if (cancelled || !analysis) return;
+        setSelectedSeries(analysis.config.selectedSeries);
+        setTransformations(analysis.config.transformations);
+        setDateRange(analysis.config.dateRange);
+        setCurrency(analysis.config.currency);
+        // Someone else's analysis opens as an unsaved copy
+        setCurrent(analysis.isOwner ? { id: analysis.id, name: analysis.name } : null);
+      })
+      .catch((error) => {
+        toast({
+          title: "Could not open the analysis",
+          description: error?.message || "Unknown error",
+          variant: "destructive",
+        });
+      })
+      .finally(() => {
+        // Drop the request so a reload keeps whatever was changed since
+        if (!cancelled) navigate(location.pathname, { replace: true, state: null });
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [requestedId, location.pathname, navigate, toast]);
+
+  const refreshList = () => queryClient.invalidateQueries({ queryKey: ["saved-analyses"] });
+
+  const reportError = (title: string, error: unknown) => {
+    toast({
+      title,
+      description: (error as { message?: string } | null)?.message || "Unknown error",
+      variant: "destructive",
+    });
+  };
+
+  const handleSave = async () => {
+    if (!current) {
+      setNameDialog("save");
+      return;
+    }
+    setSaving(true);
+    try {
+      await updateSavedAnalysis(current.id, { config });
+      refreshList();
+      toast({ title: "Analysis saved", description: current.name });
+    } catch (error) {
+      reportError("Save failed", error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleNameSubmit = async (name: string) => {
+    try {
+      const saved =
+        nameDialog === "rename" && current
+          ? await updateSavedAnalysis(current.id, { name })
+          : await createSavedAnalysis(name, config);
+      setCurrent({ id: saved.id, name: saved.name });
+      refreshList();
+      toast({ title: nameDialog === "rename" ? "Analysis renamed" : "Analysis saved", description: saved.name });
+    } catch (error) {
+      reportError(nameDialog === "rename" ? "Rename failed" : "Save failed", error);
+      throw error;
+    }
+  };
+
+  const handleCopyLink = async () => {
+    if (!current) return;
+    try {
+      await navigator.clipboard.writeText(analysisShareUrl(current.id));
+      toast({ title: "Link copied", description: "Anyone with the link can view this analysis." });
+    } catch (error) {
+      reportError("Could not copy the link", error);
+    }
+  };
 
   return (
     <DashboardLayout>
       <div className="space-y-6">
-        <div>
-          <h2 className="text-2xl font-bold text-foreground">Analysis Builder</h2>
-          <p className="text-sm text-muted-foreground">Multi-series time-series analysis</p>
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <h2 className="text-2xl font-bold text-foreground">{current?.name ?? "Analysis Builder"}</h2>
+            <p className="text-sm text-muted-foreground">
+              {current ? "Saved analysis" : "Multi-series time-series analysis"}
+            </p>
+          </div>
+
+          {canSave ? (
+            <div className="flex flex-wrap gap-2">
+              <Button onClick={handleSave} disabled={saving || selectedSeries.length === 0}>
+                {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Save className="mr-2 h-4 w-4" />}
+                Save
+              </Button>
+              {current && (
+                <>
+                  <Button variant="outline" onClick={() => setNameDialog("save-as")}>
+                    <Copy className="mr-2 h-4 w-4" />
+                    Save as new
+                  </Button>
+                  <Button variant="outline" onClick={() => setNameDialog("rename")}>
+                    <Pencil className="mr-2 h-4 w-4" />
+                    Rename
+                  </Button>
+                  <Button variant="outline" onClick={handleCopyLink}>
+                    <Link2 className="mr-2 h-4 w-4" />
+                    Copy link
+                  </Button>
+                </>
+              )}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground">
+              <Link to="/auth" state={{ from: "/analysis" }} className="text-primary underline hover:text-primary/90">
+                Sign in
+              </Link>{" "}
+              as an analyst to save and share analyses
+            </p>
+          )}
         </div>
 
         <div className="grid gap-6 lg:grid-cols-4">
           {/* Left Panel: Series Selection & Transformations */}
           <div className="lg:col-span-1 space-y-6">
+            {canSave && (
+              <SavedAnalysesCard
+                currentId={current?.id ?? null}
+                onOpen={openAnalysis}
+                onRenamed={(analysis) =>
+                  setCurrent((prev) => (prev?.id === analysis.id ? { id: analysis.id, name: analysis.name } : prev))
+                }
+                onDeleted={(id) => setCurrent((prev) => (prev?.id === id ? null : prev))}
+              />
+            )}
             <MultiSeriesSelector
               selectedSeries={selectedSeries}
               onSelectionChange={setSelectedSeries}
@@ -80,6 +245,26 @@ const Analysis = () => {
           </div>
         </div>
       </div>
+
+      <AnalysisNameDialog
+        open={nameDialog !== null}
+        title={nameDialog === "rename" ? "Rename analysis" : "Save analysis"}
+        description={
+          nameDialog === "rename"
+            ? "The share link stays the same."
+            : "Saves the selected series, transformations, date range and currency."
+        }
+        initialName={
+          nameDialog === "rename"
+            ? current?.name ?? ""
+            : nameDialog === "save-as" && current
+              ? `${current.name} (copy)`
+              : ""
+        }
+        submitLabel={nameDialog === "rename" ? "Rename" : "Save"}
+        onSubmit={handleNameSubmit}
+        onOpenChange={(open) => !open && setNameDialog(null)}
+      />
     </DashboardLayout>
   );
 };
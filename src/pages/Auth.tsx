@@ -0,0 +1,128 @@
+import { useState, type FormEvent } from "react";
+import { Link, Navigate, useLocation, useNavigate } from "react-router-dom";
+import { Loader2, TrendingUp } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+
+const MIN_PASSWORD_LENGTH = 8;
+
+const Auth = () => {
+  const { toast } = useToast();
+  const { session, loading } = useAuth();
+  const navigate = useNavigate();
+  const location = useLocation();
+  // RequireRole passes the page the visitor was sent away from
+  const from = (location.state as { from?: string } | null)?.from || "/";
+
+  const [mode, setMode] = useState<"sign-in" | "sign-up">("sign-in");
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+
+  if (!loading && session) {
+    return <Navigate to={from} replace />;
+  }
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    setSubmitting(true);
+    try {
+      if (mode === "sign-in") {
+        const { error } = await supabase.auth.signInWithPassword({ email, password });
+        if (error) throw error;
+        navigate(from, { replace: true });
+      } else {
+        if (password.length < MIN_PASSWORD_LENGTH) {
+          throw new Error(`Use at least ${MIN_PASSWORD_LENGTH} characters for the password`);
+        }
+        const { data, error } = await supabase.auth.signUp({
+          email,
+          password,
+          options: { emailRedirectTo: `${window.location.origin}${from}` },
+        });
+        if (error) throw error;
+        if (!data.session) {
+          toast({
+            title: "Check your email",
+            description: `We sent a confirmation link to ${email}. New accounts can view data; an admin can grant more access.`,
+          });
+          setMode("sign-in");
+        }
+      }
+    } catch (error) {
+      toast({
+        title: mode === "sign-in" ? "Sign in failed" : "Sign up failed",
+        description: error instanceof Error ? error.message : "Unknown error",
+        variant: "destructive",
+      });
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="flex min-h-screen items-center justify-center bg-muted px-4">
+      <Card className="w-full max-w-md">
+        <CardHeader className="text-center">
+          <div className="mx-auto mb-2 flex h-10 w-10 items-center justify-center rounded-lg bg-primary">
+            <TrendingUp className="h-6 w-6 text-primary-foreground" />
+          </div>
+          <CardTitle>MacroData Warehouse</CardTitle>
+          <CardDescription>Sign in to ingest data and manage the warehouse</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <Tabs value={mode} onValueChange={(value) => setMode(value as "sign-in" | "sign-up")}>
+            <TabsList className="mb-4 grid w-full grid-cols-2">
+              <TabsTrigger value="sign-in">Sign in</TabsTrigger>
+              <TabsTrigger value="sign-up">Create account</TabsTrigger>
+            </TabsList>
+            <TabsContent value={mode}>
+              <form onSubmit={handleSubmit} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="email">Email</Label>
+                  <Input
+                    id="email"
+                    type="email"
+                    autoComplete="email"
+                    value={email}
+                    onChange={(e) => setEmail(e.target.value)}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="password">Password</Label>
+                  <Input
+                    id="password"
+                    type="password"
+                    autoComplete={mode === "sign-in" ? "current-password" : "new-password"}
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={submitting}>
+                  {submitting && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  {mode === "sign-in" ? "Sign in" : "Create account"}
+                </Button>
+              </form>
+            </TabsContent>
+          </Tabs>
+          <p className="mt-4 text-center text-sm text-muted-foreground">
+            Browsing and charting data needs no account.{" "}
+            <Link to="/" className="text-primary underline hover:text-primary/90">
+              Continue without signing in
+            </Link>
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Auth;
@@ -1,37 +1,53 @@
 import { useState, useEffect, useMemo } from "react";
-import { TrendingUp, Search, Loader2, Download, X, ChevronLeft, ChevronRight, Database, Globe, Building2, Landmark, BarChart3, Info } from "lucide-react";
+import { TrendingUp, Search, Loader2, Download, X, ChevronLeft, ChevronRight, Database, Globe, Building2, Landmark, BarChart3, Info, Layers } from "lucide-react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { ToastAction } from "@/components/ui/toast";
 import { DateRangePicker } from "@/components/DateRangePicker";
 import { GeoSelector, EUROSTAT_COUNTRIES, WORLDBANK_REGIONS } from "@/components/GeoSelector";
 import { ChartTypeSelector, type ChartType } from "@/components/explorer/ChartTypeSelector";
 import { StatsSummary } from "@/components/explorer/StatsSummary";
 import { ExplorerDataTable } from "@/components/explorer/ExplorerDataTable";
 import { ExplorerExporter } from "@/components/explorer/ExplorerExporter";
+import { FanOutConfirmDialog } from "@/components/explorer/FanOutConfirmDialog";
+import { EcbKeyBuilder } from "@/components/explorer/EcbKeyBuilder";
+import { EurostatFilterBuilder } from "@/components/explorer/EurostatFilterBuilder";
 import { calculateStats } from "@/lib/stats";
-import { fredApi, statfinApi, ecbApi, eurostatApi, oecdApi, worldbankApi } from "@/lib/api";
+import { mergeSearchResults, seriesTextFilter } from "@/lib/unifiedSearch";
+import type { IngestedSeries, OecdDataflowRef, SdmxIngestPreview } from "@/lib/types";
+import { ApiError, fredApi, statfinApi, ecbApi, eurostatApi, oecdApi, worldbankApi } from "@/lib/api";
 import { supabase } from "@/integrations/supabase/client";
 import { 
   LineChart, Line, BarChart, Bar, ScatterChart, Scatter,
   XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend 
 } from "recharts";
 import { toast } from "@/hooks/use-toast";
-
-type SourceType = "FRED" | "STATFIN" | "ECB" | "EUROSTAT" | "OECD" | "WORLDBANK";
+import { sourceLabel, useSources } from "@/hooks/use-sources";
 
 interface DataSeries {
   id: string;
   title: string;
-  source: SourceType;
+  // sources.code
+  source: string;
   frequency?: string;
   units?: string;
   path?: string;
   providerId?: string;
   geo?: string;
+  // OECD dataflows live under different agencies, structures and versions
+  agencyId?: string;
+  version?: string;
+  dsdId?: string | null;
+  // StatFin search results are v2 table ids
+  api?: "v1" | "v2";
+  // A series from the warehouse itself rather than a provider search
+  stored?: boolean;
+  // Stored, or a provider dataset the warehouse holds series from
+  inWarehouse?: boolean;
 }
 
 interface SelectedSeriesItem extends DataSeries {
@@ -50,12 +66,23 @@ interface StatFinItem {
   type: string;
 }
 
+// A partial-key ECB/OECD import waiting for the user to confirm its fan-out
+interface PendingFanOut {
+  series: SelectedSeriesItem;
+  flowId: string;
+  key: string;
+  preview: SdmxIngestPreview;
+}
+
 interface WBCountry {
   id: string;
   name: string;
   region?: string;
 }
 
+// Provider searches the "All" tab fans out to, by tab value
+const SEARCH_TABS = ["fred", "ecb", "eurostat", "oecd", "worldbank", "statfin"];
+
 const COLORS = [
   "hsl(var(--primary))",
   "hsl(221, 83%, 53%)",
@@ -65,18 +92,41 @@ const COLORS = [
   "hsl(280, 65%, 60%)",
 ];
 
-const SOURCE_LABELS: Record<SourceType, string> = {
-  FRED: "FRED",
-  STATFIN: "StatFin",
-  ECB: "ECB",
-  EUROSTAT: "Eurostat",
-  OECD: "OECD",
-  WORLDBANK: "World Bank",
+/**
+ * Toast for a failed import. Temporary provider failures (rate limits, timeouts, outages)
+ * offer a Retry that waits out the provider's Retry-After first.
+ */
+const reportIngestError = (error: unknown, retry?: () => void) => {
+  const apiError = error instanceof ApiError ? error : null;
+  const failedAt = Date.now();
+  const handleRetry = () => {
+    const waitMs = (apiError?.retryAfter ?? 0) * 1000 - (Date.now() - failedAt);
+    if (waitMs <= 0) {
+      retry?.();
+      return;
+    }
+    toast({ title: "Retrying import", description: `Trying again in ${Math.ceil(waitMs / 1000)} s` });
+    setTimeout(() => retry?.(), waitMs);
+  };
+
+  toast({
+    title: apiError?.code === "rate_limited"
+      ? "Import rate limited"
+      : apiError?.code === "unauthorized" || apiError?.code === "forbidden"
+      ? "Importing needs an admin account"
+      : "Import failed",
+    description: error instanceof Error ? error.message : "Unknown error",
+    variant: "destructive",
+    action: retry && apiError?.retryable
+      ? <ToastAction altText="Retry the import" onClick={handleRetry}>Retry</ToastAction>
+      : undefined,
+  });
 };
 
 const DataExplorer = () => {
-  const [activeTab, setActiveTab] = useState<string>("fred");
+  const [activeTab, setActiveTab] = useState<string>("all");
   const [chartType, setChartType] = useState<ChartType>("line");
+  const { data: sources } = useSources();
   
   // Search state for each source
   const [searchQuery, setSearchQuery] = useState("");
@@ -103,6 +153,9 @@ const DataExplorer = () => {
   const [chartData, setChartData] = useState<ChartDataPoint[]>([]);
   const [loadingChart, setLoadingChart] = useState(false);
   const [ingestingId, setIngestingId] = useState<string | null>(null);
+  const [pendingFanOut, setPendingFanOut] = useState<PendingFanOut | null>(null);
+  const [ecbDataflow, setEcbDataflow] = useState<DataSeries | null>(null);
+  const [eurostatDataset, setEurostatDataset] = useState<DataSeries | null>(null);
   const [seriesWithData, setSeriesWithData] = useState<Set<string>>(new Set());
 
   // Calculate statistics for selected series
@@ -138,6 +191,133 @@ const DataExplorer = () => {
     loadWbCountries();
   }, []);
 
+  // Results of a catalog search. A catalog that was never downloaded answers with a hint,
+  // shown on the provider's own tab (the "All" tab keeps its toast for failed sources)
+  const catalogResults = (data: { results?: unknown[]; hint?: string | null }) => {
+    if (data.hint && activeTab !== "all") {
+      toast({ title: "Catalog not loaded yet", description: data.hint });
+    }
+    return data.results || [];
+  };
+
+  // One provider's search, mapped to DataSeries
+  const searchSource = async (tab: string, query: string): Promise<DataSeries[]> => {
+    switch (tab) {
+      case "fred": {
+        const data = await fredApi.search(query);
+        return (data.results || []).map((s: any) => ({
+          id: s.id,
+          title: s.title,
+          source: "FRED",
+          frequency: s.frequency_short,
+          units: s.units,
+        }));
+      }
+      case "ecb": {
+        const data = await ecbApi.search(query);
+        return catalogResults(data).map((s: any) => ({
+          id: s.id,
+          title: s.name,
+          source: "ECB",
+          providerId: s.id,
+        }));
+      }
+      case "eurostat": {
+        const data = await eurostatApi.search(query, eurostatGeo);
+        return catalogResults(data).map((s: any) => ({
+          id: s.id,
+          title: s.title,
+          source: "EUROSTAT",
+          providerId: s.id,
+          geo: eurostatGeo,
+        }));
+      }
+      case "oecd": {
+        const data = await oecdApi.search(query);
+        return catalogResults(data).map((s: any) => ({
+          id: s.id,
+          title: s.name,
+          source: "OECD",
+          providerId: s.id,
+          agencyId: s.agencyID,
+          version: s.version,
+          dsdId: s.dsdId,
+        }));
+      }
+      case "worldbank": {
+        const data = await worldbankApi.search(query, worldbankCountry);
+        return catalogResults(data).map((s: any) => ({
+          id: s.id,
+          title: s.name,
+          source: "WORLDBANK",
+          providerId: s.id,
+          geo: worldbankCountry,
+        }));
+      }
+      case "statfin": {
+        const data = await statfinApi.search(query);
+        return catalogResults(data).map((s: { id: string; title: string }) => ({
+          id: `STATFIN_${s.id}`,
+          title: s.title,
+          source: "STATFIN",
+          providerId: s.id,
+          path: s.id,
+          api: "v2",
+        }));
+      }
+      default:
+        return [];
+    }
+  };
+
+  // Series already in the warehouse whose title or id matches
+  const searchWarehouse = async (query: string): Promise<DataSeries[]> => {
+    const { data, error } = await supabase
+      .from("series")
+      .select("id, source, title, freq, unit_original, provider_id")
+      .or(seriesTextFilter(query))
+      .limit(50);
+
+    if (error) throw error;
+    return (data || []).map((s) => ({
+      id: s.id,
+      title: s.title,
+      source: s.source,
+      frequency: s.freq ?? undefined,
+      units: s.unit_original ?? undefined,
+      providerId: s.provider_id,
+      stored: true,
+    }));
+  };
+
+  // Search the warehouse and every provider at once; a failing provider only drops its own results
+  const searchAllSources = async (query: string): Promise<DataSeries[]> => {
+    const [warehouse, ...providers] = await Promise.allSettled([
+      searchWarehouse(query),
+      ...SEARCH_TABS.map((tab) => searchSource(tab, query)),
+    ]);
+
+    const failed = [warehouse, ...providers]
+      .map((outcome, i) => (outcome.status === "rejected" ? (i === 0 ? "the warehouse" : sourceLabel(sources, SEARCH_TABS[i - 1].toUpperCase())) : null))
+      .filter((name): name is string => name !== null);
+    if (failed.length > providers.length) {
+      throw new Error("Every source failed to respond");
+    }
+    if (failed.length > 0) {
+      console.error("Search failed for:", failed);
+      toast({
+        title: "Some sources did not respond",
+        description: `Showing results without ${failed.join(", ")}`,
+      });
+    }
+
+    return mergeSearchResults(
+      query,
+      warehouse.status === "fulfilled" ? warehouse.value : [],
+      providers.map((outcome) => (outcome.status === "fulfilled" ? outcome.value : [])),
+    );
+  };
+
   // Generic search handler
   const handleSearch = async () => {
     if (!searchQuery.trim()) return;
@@ -146,63 +326,9 @@ const DataExplorer = () => {
     setSearchResults([]);
     
     try {
-      let results: DataSeries[] = [];
-      
-      switch (activeTab) {
-        case "fred": {
-          const data = await fredApi.search(searchQuery);
-          results = (data.results || []).map((s: any) => ({
-            id: s.id,
-            title: s.title,
-            source: "FRED" as SourceType,
-            frequency: s.frequency_short,
-            units: s.units,
-          }));
-          break;
-        }
-        case "ecb": {
-          const data = await ecbApi.search(searchQuery);
-          results = (data.results || []).map((s: any) => ({
-            id: s.id,
-            title: s.name,
-            source: "ECB" as SourceType,
-            providerId: s.id,
-          }));
-          break;
-        }
-        case "eurostat": {
-          const data = await eurostatApi.search(searchQuery, eurostatGeo);
-          results = (data.results || []).map((s: any) => ({
-            id: s.id,
-            title: s.title,
-            source: "EUROSTAT" as SourceType,
-            providerId: s.id,
-            geo: eurostatGeo,
-          }));
-          break;
-        }
-        case "oecd": {
-          const data = await oecdApi.search(searchQuery);
-          results = (data.results || []).map((s: any) => ({
-            id: s.id,
-            title: s.name,
-            source: "OECD" as SourceType,
-            providerId: s.id,
-          }));
-          break;
-        }
-        case "worldbank": {
-          const data = await worldbankApi.search(searchQuery, worldbankCountry);
-          results = (data.results || []).map((s: any) => ({
-            id: s.id,
-            title: s.name,
-            source: "WORLDBANK" as SourceType,
-            providerId: s.id,
-            geo: worldbankCountry,
-          }));
-          break;
-        }
-      }
+      const results = activeTab === "all"
+        ? await searchAllSources(searchQuery.trim())
+        : await searchSource(activeTab, searchQuery);
       
       setSearchResults(results);
     } catch (error) {
@@ -293,7 +419,8 @@ const DataExplorer = () => {
 
   // Series selection
   const handleSelectSeries = (series: DataSeries) => {
-    const normalizedId = series.source === "FRED" ? `FRED_${series.id}` : series.id;
+    // FRED search results carry the bare FRED id; warehouse series already have the prefix
+    const normalizedId = series.source === "FRED" && !series.id.startsWith("FRED_") ? `FRED_${series.id}` : series.id;
     
     if (selectedSeries.find(s => s.id === normalizedId || s.id === series.id)) {
       toast({ title: "Series already added" });
@@ -316,6 +443,39 @@ const DataExplorer = () => {
     setSearchQuery("");
   };
 
+  // "All" tab results: ECB dataflows and Eurostat datasets open their builders, like on their own tabs
+  const handleSelectSearchResult = (series: DataSeries) => {
+    if (!series.stored && series.source === "ECB") {
+      setEcbDataflow(series);
+      setSearchResults([]);
+    } else if (!series.stored && series.source === "EUROSTAT") {
+      setEurostatDataset(series);
+      setSearchResults([]);
+    } else {
+      handleSelectSeries(series);
+    }
+  };
+
+  // Add series created by the ECB key builder or Eurostat filter builder, up to the 6-series limit
+  const handleKeyBuilderIngested = (source: string, ingested: IngestedSeries[]) => {
+    const fresh = ingested.filter(s => !selectedSeries.find(existing => existing.id === s.seriesId));
+    const added = fresh
+      .slice(0, Math.max(0, 6 - selectedSeries.length))
+      .map((s, i): SelectedSeriesItem => ({
+        id: s.seriesId,
+        title: s.title,
+        source,
+        providerId: s.providerId,
+        axis: selectedSeries.length + i === 0 ? "left" : "right",
+        color: COLORS[(selectedSeries.length + i) % COLORS.length],
+      }));
+
+    if (added.length < fresh.length) {
+      toast({ title: "Maximum 6 series allowed", description: `${fresh.length - added.length} imported series were not added to the chart` });
+    }
+    setSelectedSeries([...selectedSeries, ...added]);
+  };
+
   const handleRemoveSeries = (id: string) => {
     setSelectedSeries(selectedSeries.filter(s => s.id !== id));
   };
@@ -380,6 +540,13 @@ const DataExplorer = () => {
     setLoadingChart(false);
   };
 
+  const oecdDataflowOf = (series: DataSeries): OecdDataflowRef => ({
+    dataflowId: series.providerId || series.id.replace("OECD_", "").split("_")[0],
+    agencyId: series.agencyId,
+    version: series.version,
+    dsdId: series.dsdId,
+  });
+
   // Ingest data
   const handleIngestSeries = async (series: SelectedSeriesItem) => {
     setIngestingId(series.id);
@@ -395,24 +562,40 @@ const DataExplorer = () => {
             await statfinApi.ingest(series.path, {
               query: [],
               response: { format: "json" }
-            });
+            }, undefined, undefined, undefined, undefined, series.api);
           }
           break;
         }
         case "ECB": {
-          const dataflowId = series.providerId || series.id.replace("ECB_", "").split("_")[0];
-          await ecbApi.ingest(dataflowId, "..", series.title);
+          // Series from the key builder carry "FLOW/KEY"; search results only the dataflow id
+          const [dataflowId, seriesKey = ".."] = (series.providerId || series.id.replace("ECB_", "").split("_")[0]).split("/");
+          const preview = await ecbApi.preview(dataflowId, seriesKey, series.title);
+          if (preview.seriesCount > 1) {
+            setPendingFanOut({ series, flowId: dataflowId, key: seriesKey, preview });
+            setIngestingId(null);
+            return;
+          }
+          await ecbApi.ingest(dataflowId, seriesKey, series.title, series.id.startsWith("ECB_") ? series.id : undefined);
           break;
         }
         case "EUROSTAT": {
-          const datasetId = series.providerId || series.id.replace("EUROSTAT_", "").split("_")[0];
-          const geo = series.geo || eurostatGeo;
-          await eurostatApi.ingest(datasetId, geo, series.title, geo);
+          // The filter builder stores "DATASET/KEY" with a code for every dimension
+          const [datasetId, filters] = (series.providerId || "").split("/");
+          if (!filters) {
+            throw new Error("Pick a value for every dimension in the Eurostat filter builder first");
+          }
+          await eurostatApi.ingest(datasetId, filters, series.title, series.geo || eurostatGeo);
           break;
         }
         case "OECD": {
-          const dataflowId = series.providerId || series.id.replace("OECD_", "").split("_")[0];
-          await oecdApi.ingest(dataflowId, "all", series.title);
+          const dataflow = oecdDataflowOf(series);
+          const preview = await oecdApi.preview(dataflow, "all", series.title);
+          if (preview.seriesCount > 1) {
+            setPendingFanOut({ series, flowId: dataflow.dataflowId, key: "all", preview });
+            setIngestingId(null);
+            return;
+          }
+          await oecdApi.ingest(dataflow, "all", series.title);
           break;
         }
         case "WORLDBANK": {
@@ -429,11 +612,28 @@ const DataExplorer = () => {
       });
       await fetchChartData();
     } catch (error) {
+      reportIngestError(error, () => handleIngestSeries(series));
+    }
+    setIngestingId(null);
+  };
+
+  // Ingest every series matched by a confirmed partial key
+  const handleConfirmFanOut = async () => {
+    if (!pendingFanOut) return;
+    const { series, flowId, key } = pendingFanOut;
+    setPendingFanOut(null);
+    setIngestingId(series.id);
+    try {
+      const result = series.source === "ECB"
+        ? await ecbApi.ingest(flowId, key, series.title, undefined, true)
+        : await oecdApi.ingest(oecdDataflowOf(series), key, series.title, undefined, true);
+
       toast({
-        title: "Import failed",
-        description: error instanceof Error ? error.message : "Unknown error",
-        variant: "destructive",
+        title: "Data imported",
+        description: `${result.seriesCount} series from ${series.title} have been added to the database`,
       });
+    } catch (error) {
+      reportIngestError(error);
     }
     setIngestingId(null);
   };
@@ -657,7 +857,11 @@ const DataExplorer = () => {
           {/* Left Panel: Data Sources */}
           <div className="space-y-6">
             <Tabs value={activeTab} onValueChange={handleTabChange}>
-              <TabsList className="grid w-full grid-cols-3 lg:grid-cols-6 h-auto">
+              <TabsList className="grid w-full grid-cols-4 lg:grid-cols-7 h-auto">
+                <TabsTrigger value="all" className="text-xs px-2">
+                  <Layers className="h-3 w-3 mr-1" />
+                  All
+                </TabsTrigger>
                 <TabsTrigger value="fred" className="text-xs px-2">
                   <TrendingUp className="h-3 w-3 mr-1" />
                   FRED
@@ -684,13 +888,93 @@ const DataExplorer = () => {
                 </TabsTrigger>
               </TabsList>
 
+              {/* All sources at once, plus the series already in the warehouse */}
+              <TabsContent value="all" className="space-y-4 mt-4">
+                <Card>
+                  <CardHeader className="pb-3">
+                    <CardTitle className="text-base">Search All Sources</CardTitle>
+                  </CardHeader>
+                  <CardContent className="space-y-4">
+                    <div className="flex gap-2">
+                      <Input
+                        placeholder="Unemployment, inflation, GDP..."
+                        value={searchQuery}
+                        onChange={(e) => setSearchQuery(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && handleSearch()}
+                      />
+                      <Button onClick={handleSearch} disabled={searching} size="icon">
+                        {searching ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <Search className="h-4 w-4" />
+                        )}
+                      </Button>
+                    </div>
+
+                    {searchResults.length > 0 && (
+                      <div className="max-h-96 overflow-y-auto space-y-2">
+                        {searchResults.map((series) => (
+                          <button
+                            key={`${series.source}:${series.id}`}
+                            onClick={() => handleSelectSearchResult(series)}
+                            className="w-full text-left p-3 rounded-lg border border-border hover:bg-accent transition-colors"
+                          >
+                            <div className="flex items-start justify-between gap-2">
+                              <p className="font-medium text-sm text-foreground line-clamp-2">
+                                {series.title}
+                              </p>
+                              <Badge variant={series.source === "FRED" ? "default" : "secondary"} className="shrink-0 text-xs">
+                                {sourceLabel(sources, series.source)}
+                              </Badge>
+                            </div>
+                            <div className="flex items-center gap-2 mt-1">
+                              <p className="text-xs text-muted-foreground truncate">
+                                {series.providerId || series.id}
+                                {series.frequency && ` • ${series.frequency}`}
+                              </p>
+                              {series.inWarehouse && (
+                                <Badge
+                                  variant="outline"
+                                  className="shrink-0 text-xs"
+                                  title={series.stored ? "Stored in the warehouse" : "The warehouse has series from this dataset"}
+                                >
+                                  In warehouse
+                                </Badge>
+                              )}
+                            </div>
+                          </button>
+                        ))}
+                      </div>
+                    )}
+                  </CardContent>
+                </Card>
+
+                {ecbDataflow && (
+                  <EcbKeyBuilder
+                    dataflowId={ecbDataflow.providerId || ecbDataflow.id}
+                    dataflowTitle={ecbDataflow.title}
+                    onIngested={(ingested) => handleKeyBuilderIngested("ECB", ingested)}
+                    onClose={() => setEcbDataflow(null)}
+                  />
+                )}
+                {eurostatDataset && (
+                  <EurostatFilterBuilder
+                    datasetId={eurostatDataset.providerId || eurostatDataset.id}
+                    datasetTitle={eurostatDataset.title}
+                    defaultGeo={eurostatGeo}
+                    onIngested={(ingested) => handleKeyBuilderIngested("EUROSTAT", ingested)}
+                    onClose={() => setEurostatDataset(null)}
+                  />
+                )}
+              </TabsContent>
+
               {/* FRED, ECB, OECD - Standard search */}
               {["fred", "ecb", "oecd"].map((source) => (
                 <TabsContent key={source} value={source} className="space-y-4 mt-4">
                   <Card>
                     <CardHeader className="pb-3">
                       <CardTitle className="text-base">
-                        Search {SOURCE_LABELS[source.toUpperCase() as SourceType] || source}
+                        Search {sourceLabel(sources, source.toUpperCase())}
                       </CardTitle>
                     </CardHeader>
                     <CardContent className="space-y-4">
@@ -715,7 +999,15 @@ const DataExplorer = () => {
                           {searchResults.map((series) => (
                             <button
                               key={series.id}
-                              onClick={() => handleSelectSeries(series)}
+                              onClick={() => {
+                                // ECB dataflows open the key builder instead of importing the whole flow
+                                if (series.source === "ECB") {
+                                  setEcbDataflow(series);
+                                  setSearchResults([]);
+                                } else {
+                                  handleSelectSeries(series);
+                                }
+                              }}
                               className="w-full text-left p-3 rounded-lg border border-border hover:bg-accent transition-colors"
                             >
                               <p className="font-medium text-sm text-foreground truncate">
@@ -732,6 +1024,15 @@ const DataExplorer = () => {
                       )}
                     </CardContent>
                   </Card>
+
+                  {source === "ecb" && ecbDataflow && (
+                    <EcbKeyBuilder
+                      dataflowId={ecbDataflow.providerId || ecbDataflow.id}
+                      dataflowTitle={ecbDataflow.title}
+                      onIngested={(ingested) => handleKeyBuilderIngested("ECB", ingested)}
+                      onClose={() => setEcbDataflow(null)}
+                    />
+                  )}
                 </TabsContent>
               ))}
 
@@ -769,7 +1070,10 @@ const DataExplorer = () => {
                         {searchResults.map((series) => (
                           <button
                             key={series.id}
-                            onClick={() => handleSelectSeries(series)}
+                            onClick={() => {
+                              setEurostatDataset(series);
+                              setSearchResults([]);
+                            }}
                             className="w-full text-left p-3 rounded-lg border border-border hover:bg-accent transition-colors"
                           >
                             <p className="font-medium text-sm text-foreground truncate">
@@ -784,6 +1088,16 @@ const DataExplorer = () => {
                     )}
                   </CardContent>
                 </Card>
+
+                {eurostatDataset && (
+                  <EurostatFilterBuilder
+                    datasetId={eurostatDataset.providerId || eurostatDataset.id}
+                    datasetTitle={eurostatDataset.title}
+                    defaultGeo={eurostatGeo}
+                    onIngested={(ingested) => handleKeyBuilderIngested("EUROSTAT", ingested)}
+                    onClose={() => setEurostatDataset(null)}
+                  />
+                )}
               </TabsContent>
 
               {/* World Bank with country filter */}
@@ -926,7 +1240,7 @@ const DataExplorer = () => {
                               {series.title}
                             </p>
                             <Badge variant="secondary" className="text-xs mt-1">
-                              {SOURCE_LABELS[series.source]}
+                              {sourceLabel(sources, series.source)}
                             </Badge>
                           </div>
                         </div>
@@ -1065,6 +1379,13 @@ const DataExplorer = () => {
           </div>
         </div>
       </div>
+
+      <FanOutConfirmDialog
+        title={pendingFanOut?.series.title ?? null}
+        preview={pendingFanOut?.preview ?? null}
+        onConfirm={handleConfirmFanOut}
+        onCancel={() => setPendingFanOut(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,178 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
+import { FolderOpen, Link2, Loader2, SearchX } from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard";
+import { MultiSeriesChart } from "@/components/analysis/MultiSeriesChart";
+import { AnalysisDataTable } from "@/components/analysis/AnalysisDataTable";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { hasRole, useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { analysisShareUrl, getSavedAnalysis } from "@/lib/savedAnalyses";
+
+const CURRENCY_LABELS = { original: "Original currency", EUR: "EUR", USD: "USD" } as const;
+
+const TRANSFORMATION_SYMBOLS = { divide: "÷", multiply: "×", add: "+", subtract: "−" } as const;
+
+/**
+ * Read-only view of a saved analysis, reached through its share link
+ */
+const SharedAnalysis = () => {
+  const { id = "" } = useParams<{ id: string }>();
+  const { toast } = useToast();
+  const { role } = useAuth();
+  const navigate = useNavigate();
+
+  const { data: analysis, isLoading, error } = useQuery({
+    queryKey: ["saved-analysis", id],
+    queryFn: () => getSavedAnalysis(id),
+    enabled: id !== "",
+  });
+
+  const handleCopyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(analysisShareUrl(id));
+      toast({ title: "Link copied" });
+    } catch (err) {
+      toast({
+        title: "Could not copy the link",
+        description: err instanceof Error ? err.message : "Unknown error",
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <DashboardLayout>
+        <div className="flex h-[400px] items-center justify-center">
+          <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  if (error || !analysis) {
+    return (
+      <DashboardLayout>
+        <div className="flex h-[400px] items-center justify-center rounded-lg border border-border bg-card">
+          <div className="text-center">
+            <SearchX className="mx-auto mb-4 h-12 w-12 text-muted-foreground" />
+            <p className="text-lg font-medium text-foreground">
+              {error ? "Could not load the analysis" : "Analysis not found"}
+            </p>
+            <p className="mb-4 text-sm text-muted-foreground">
+              {error
+                ? (error as { message?: string }).message || "Unknown error"
+                : "The link may be mistyped, or the analysis was deleted."}
+            </p>
+            <Link to="/analysis" className="text-sm text-primary underline hover:text-primary/90">
+              Go to the Analysis Builder
+            </Link>
+          </div>
+        </div>
+      </DashboardLayout>
+    );
+  }
+
+  const { selectedSeries, transformations, dateRange, currency } = analysis.config;
+  const titleOf = (seriesId: string) => selectedSeries.find((s) => s.id === seriesId)?.title ?? seriesId;
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div className="flex flex-col gap-4 md:flex-row md:items-start md:justify-between">
+          <div>
+            <div className="flex items-center gap-2">
+              <h2 className="text-2xl font-bold text-foreground">{analysis.name}</h2>
+              <Badge variant="secondary">Read-only</Badge>
+            </div>
+            <p className="text-sm text-muted-foreground">
+              Updated {new Date(analysis.updated_at).toLocaleString()} · {dateRange.start} to {dateRange.end} ·{" "}
+              {CURRENCY_LABELS[currency]}
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" onClick={handleCopyLink}>
+              <Link2 className="mr-2 h-4 w-4" />
+              Copy link
+            </Button>
+            {hasRole(role, "analyst") && (
+              <Button onClick={() => navigate("/analysis", { state: { analysisId: analysis.id } })}>
+                <FolderOpen className="mr-2 h-4 w-4" />
+                {analysis.isOwner ? "Edit in Analysis Builder" : "Open a copy in Analysis Builder"}
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-4">
+          <div className="lg:col-span-1 space-y-6">
+            <Card>
+              <CardHeader className="pb-3">
+                <CardTitle className="text-base">Series</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ul className="space-y-2">
+                  {selectedSeries.map((series) => (
+                    <li key={series.id} className="text-sm">
+                      <p className="font-medium text-foreground">{series.title}</p>
+                      <p className="text-xs text-muted-foreground">
+                        {series.source} · {series.id}
+                      </p>
+                    </li>
+                  ))}
+                </ul>
+              </CardContent>
+            </Card>
+            {transformations.length > 0 && (
+              <Card>
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-base">Transformations</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <ul className="space-y-2">
+                    {transformations.map((t) => (
+                      <li key={t.id} className="text-sm">
+                        <p className="font-medium text-foreground">{t.name}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {titleOf(t.seriesA)} {TRANSFORMATION_SYMBOLS[t.type]} {titleOf(t.seriesB)}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          <div className="lg:col-span-3 space-y-6">
+            {selectedSeries.length > 0 ? (
+              <>
+                <MultiSeriesChart
+                  selectedSeries={selectedSeries}
+                  transformations={transformations}
+                  dateRange={dateRange}
+                  currency={currency}
+                />
+                <AnalysisDataTable
+                  selectedSeries={selectedSeries}
+                  transformations={transformations}
+                  dateRange={dateRange}
+                  currency={currency}
+                />
+              </>
+            ) : (
+              <div className="flex h-[400px] items-center justify-center rounded-lg border border-border bg-card">
+                <p className="text-sm text-muted-foreground">This analysis has no series.</p>
+              </div>
+            )}
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default SharedAnalysis;
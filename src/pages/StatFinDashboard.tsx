@@ -1,5 +1,6 @@
 import { useState, useMemo } from "react";
 import { Link } from "react-router-dom";
+import { useQuery } from "@tanstack/react-query";
 import { 
   ArrowLeft, 
   TrendingUp, 
@@ -8,7 +9,10 @@ import {
   Search,
   Filter,
   Table2,
-  X
+  X,
+  DatabaseZap,
+  Loader2,
+  LayoutGrid
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
@@ -38,11 +42,17 @@ import {
   fetchTableData,
   detectFrequency,
   getTablePathString,
+  getPxWebSourceOption,
+  PxWebApiVersion,
+  StatFinQuery,
 } from "@/lib/statfinPxweb";
+import { statfinApi } from "@/lib/api";
 import { transformPxWebResponse, StatFinTableData } from "@/lib/statfinTransform";
 import StatFinChart from "@/components/statfin/StatFinChart";
 import StatFinExplorer from "@/components/statfin/StatFinExplorer";
 import StatFinResultView from "@/components/statfin/StatFinResultView";
+import { TableModuleExplorer } from "@/components/statfin/TableModuleExplorer";
+import { fetchTableModules } from "@/lib/statfinModules";
 
 interface TimeSeriesData {
   date: string;
@@ -56,7 +66,10 @@ interface IndicatorData {
 }
 
 interface ExplorerTableResult {
+  source: string;
+  api: PxWebApiVersion;
   path: string[];
+  query: StatFinQuery;
   metadata: StatFinTableMetadata;
   tableData: StatFinTableData;
   rawResponse: StatFinDataResponse;
@@ -83,6 +96,19 @@ export default function StatFinDashboard() {
   // Explorer state - now stores table data for table-first view
   const [explorerResults, setExplorerResults] = useState<ExplorerTableResult[]>([]);
   const [isLoadingExplorer, setIsLoadingExplorer] = useState(false);
+  const [explorerSource, setExplorerSource] = useState("STATFIN");
+  const [explorerApi, setExplorerApi] = useState<PxWebApiVersion>("v1");
+  const [ingestingIndex, setIngestingIndex] = useState<number | null>(null);
+
+  // Table modules state
+  const [moduleId, setModuleId] = useState<string | null>(null);
+  const { data: tableModules = [], isLoading: isLoadingModules } = useQuery({
+    queryKey: ["statfin-modules"],
+    queryFn: fetchTableModules,
+    enabled: activeTab === "modules",
+    staleTime: Infinity,
+  });
+  const activeModule = tableModules.find((m) => m.id === moduleId) || tableModules[0];
 
   const categories = useMemo(() => getCategories(), []);
 
@@ -112,11 +138,11 @@ export default function StatFinDashboard() {
     setIsLoadingExplorer(true);
     
     try {
-      // Build a default query
-      const query = buildDefaultQuery(metadata, 100); // Last 100 time periods
+      // Build a default query over the full history; fetch-statfin splits it if it exceeds the cell limit
+      const query = buildDefaultQuery(metadata);
       
       // Fetch the raw data
-      const rawResponse = await fetchTableData(tablePath, query);
+      const rawResponse = await fetchTableData(tablePath, query, "en", explorerSource, explorerApi);
       
       // Transform to normalized table structure
       const tableData = transformPxWebResponse(rawResponse, metadata);
@@ -133,7 +159,7 @@ export default function StatFinDashboard() {
       // Add to explorer results
       setExplorerResults(prev => [
         ...prev,
-        { path: tablePath, metadata, tableData, rawResponse }
+        { source: explorerSource, api: explorerApi, path: tablePath, query, metadata, tableData, rawResponse }
       ]);
       
       toast({
@@ -156,6 +182,34 @@ export default function StatFinDashboard() {
     setExplorerResults(prev => prev.filter((_, i) => i !== index));
   };
 
+  // Store the previewed query in the warehouse, one series per dimension combination
+  const ingestExplorerResult = async (result: ExplorerTableResult, index: number) => {
+    setIngestingIndex(index);
+    try {
+      const response = await statfinApi.ingest(
+        getTablePathString(result.path),
+        result.query,
+        undefined,
+        result.metadata.title,
+        "en",
+        result.source,
+        result.api
+      );
+      toast({
+        title: "Data imported",
+        description: `Ingested ${response.observationCount} observations into ${response.seriesCount} series`,
+      });
+    } catch (error) {
+      toast({
+        title: "Import failed",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setIngestingIndex(null);
+    }
+  };
+
   const fetchIndicatorData = async (indicator: StatFinIndicator): Promise<TimeSeriesData[]> => {
     const SUPABASE_URL = import.meta.env.VITE_SUPABASE_URL;
     const SUPABASE_ANON_KEY = import.meta.env.VITE_SUPABASE_PUBLISHABLE_KEY;
@@ -385,7 +439,7 @@ export default function StatFinDashboard() {
 
       <div className="container mx-auto px-4 py-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full max-w-md grid-cols-2">
+          <TabsList className="grid w-full max-w-lg grid-cols-3">
             <TabsTrigger value="explorer" className="flex items-center gap-2">
               <Table2 className="h-4 w-4" />
               Browse All Tables
@@ -394,11 +448,23 @@ export default function StatFinDashboard() {
               <Filter className="h-4 w-4" />
               Curated Indicators
             </TabsTrigger>
+            <TabsTrigger value="modules" className="flex items-center gap-2">
+              <LayoutGrid className="h-4 w-4" />
+              Table Modules
+            </TabsTrigger>
           </TabsList>
 
           {/* Explorer Tab - Table-first view */}
           <TabsContent value="explorer" className="space-y-6">
             <StatFinExplorer 
+              key={`${explorerSource}-${explorerApi}`}
+              source={explorerSource}
+              onSourceChange={(source) => {
+                setExplorerSource(source);
+                if (!getPxWebSourceOption(source).apiVersions.includes(explorerApi)) setExplorerApi("v1");
+              }}
+              api={explorerApi}
+              onApiChange={setExplorerApi}
               onTableSelected={handleExplorerTableSelected}
               onError={(err) => {
                 toast({
@@ -445,7 +511,27 @@ export default function StatFinDashboard() {
                     >
                       <X className="h-4 w-4" />
                     </Button>
-                    <StatFinResultView tableData={result.tableData} />
+                    <StatFinResultView
+                      tableData={result.tableData}
+                      actions={
+                        <>
+                          <Badge variant="outline">{getPxWebSourceOption(result.source).name}</Badge>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={ingestingIndex !== null}
+                            onClick={() => ingestExplorerResult(result, index)}
+                          >
+                            {ingestingIndex === index ? (
+                              <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                            ) : (
+                              <DatabaseZap className="h-4 w-4 mr-1" />
+                            )}
+                            Ingest
+                          </Button>
+                        </>
+                      }
+                    />
                   </div>
                 ))}
               </div>
@@ -640,6 +726,37 @@ export default function StatFinDashboard() {
               </div>
             </div>
           </TabsContent>
+
+          {/* Table Modules Tab - focused views of single tables defined in fetch-statfin-module */}
+          <TabsContent value="modules" className="space-y-6">
+            {isLoadingModules ? (
+              <div className="flex items-center justify-center py-12">
+                <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />
+              </div>
+            ) : activeModule ? (
+              <>
+                {tableModules.length > 1 && (
+                  <Select value={activeModule.id} onValueChange={setModuleId}>
+                    <SelectTrigger className="w-[300px]">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {tableModules.map((m) => (
+                        <SelectItem key={m.id} value={m.id}>
+                          {m.title}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+                <TableModuleExplorer key={activeModule.id} module={activeModule} />
+              </>
+            ) : (
+              <p className="text-sm text-muted-foreground text-center py-12">
+                No table modules are defined.
+              </p>
+            )}
+          </TabsContent>
         </Tabs>
       </div>
     </div>
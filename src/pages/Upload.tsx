@@ -0,0 +1,403 @@
+import { useMemo, useState } from "react";
+import { Link } from "react-router-dom";
+import { useQueryClient } from "@tanstack/react-query";
+import { AlertCircle, FileSpreadsheet, Loader2, Upload as UploadIcon } from "lucide-react";
+import { DashboardLayout } from "@/components/dashboard";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { uploadApi } from "@/lib/api";
+import {
+  MAX_UPLOAD_SERIES,
+  buildUploadSeries,
+  guessFrequency,
+  parseUploadDate,
+  readUploadFile,
+  uploadSeriesId,
+  type UploadFrequency,
+  type UploadParseResult,
+  type UploadWorkbook,
+} from "@/lib/uploadParser";
+
+const FREQUENCY_OPTIONS: { value: UploadFrequency; label: string }[] = [
+  { value: "A", label: "Annual" },
+  { value: "Q", label: "Quarterly" },
+  { value: "M", label: "Monthly" },
+  { value: "W", label: "Weekly" },
+  { value: "D", label: "Daily" },
+];
+
+const CURRENCY_OPTIONS = ["EUR", "USD", "SEK", "NOK", "ISK", "GBP"];
+const NO_CURRENCY = "none";
+
+const PREVIEW_ROWS = 12;
+
+const Upload = () => {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const [workbook, setWorkbook] = useState<UploadWorkbook | null>(null);
+  const [sheetIndex, setSheetIndex] = useState(0);
+  const [dateColumn, setDateColumn] = useState(0);
+  const [valueTitles, setValueTitles] = useState<Record<number, string>>({});
+  const [freq, setFreq] = useState<UploadFrequency>("M");
+  const [unit, setUnit] = useState("");
+  const [currency, setCurrency] = useState(NO_CURRENCY);
+  // Without this, saving a title that is already stored fails instead of overwriting it
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [reading, setReading] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  const sheet = workbook?.sheets[sheetIndex] ?? null;
+
+  const selectColumns = (columns: Record<number, string>, nextDateColumn: number) => {
+    setDateColumn(nextDateColumn);
+    setValueTitles(columns);
+  };
+
+  /**
+   * Default mapping for a sheet: the first column with dates, every other column as a value
+   */
+  const applySheetDefaults = (book: UploadWorkbook, index: number) => {
+    const target = book.sheets[index];
+    const sample = target.rows.slice(0, 20);
+    const dateIndex = Math.max(0, target.headers.findIndex((_, i) => sample.some((row) => parseUploadDate(row[i]))));
+
+    const titles: Record<number, string> = {};
+    target.headers.forEach((header, i) => {
+      if (i !== dateIndex && Object.keys(titles).length < MAX_UPLOAD_SERIES) titles[i] = header;
+    });
+    selectColumns(titles, dateIndex);
+
+    const dates = target.rows
+      .map((row) => parseUploadDate(row[dateIndex]))
+      .filter((d): d is string => d !== null);
+    setFreq(guessFrequency(dates));
+  };
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    setReading(true);
+    try {
+      const book = await readUploadFile(file);
+      setWorkbook(book);
+      setSheetIndex(0);
+      applySheetDefaults(book, 0);
+    } catch (error) {
+      setWorkbook(null);
+      toast({
+        title: "Could not read file",
+        description: error instanceof Error ? error.message : "Unsupported file",
+        variant: "destructive",
+      });
+    } finally {
+      setReading(false);
+    }
+  };
+
+  const handleSheetChange = (value: string) => {
+    if (!workbook) return;
+    const index = parseInt(value);
+    setSheetIndex(index);
+    applySheetDefaults(workbook, index);
+  };
+
+  const toggleValueColumn = (index: number, checked: boolean) => {
+    if (!sheet) return;
+    const next = { ...valueTitles };
+    if (checked) next[index] = sheet.headers[index];
+    else delete next[index];
+    setValueTitles(next);
+  };
+
+  // Parse on every mapping change; errors are shown in place of the preview
+  const parsed = useMemo((): { result: UploadParseResult | null; error: string | null } => {
+    const valueColumns = Object.entries(valueTitles)
+      .map(([index, title]) => ({ index: Number(index), title }))
+      .filter((c) => c.index !== dateColumn);
+    if (!sheet || valueColumns.length === 0) return { result: null, error: null };
+
+    try {
+      const result = buildUploadSeries(sheet, {
+        dateColumn,
+        valueColumns,
+        freq,
+        unit: unit.trim(),
+        currency: currency === NO_CURRENCY ? null : currency,
+      });
+      return { result, error: null };
+    } catch (error) {
+      return { result: null, error: error instanceof Error ? error.message : "Could not parse the file" };
+    }
+  }, [sheet, dateColumn, valueTitles, freq, unit, currency]);
+
+  const previewDates = useMemo(() => {
+    const dates = new Set<string>();
+    for (const series of parsed.result?.series || []) {
+      for (const obs of series.observations) dates.add(obs.date);
+    }
+    return Array.from(dates).sort();
+  }, [parsed.result]);
+
+  const valuesByDate = useMemo(
+    () => (parsed.result?.series || []).map((series) => new Map(series.observations.map((o) => [o.date, o.value]))),
+    [parsed.result]
+  );
+
+  const selectedCount = Object.keys(valueTitles).filter((i) => Number(i) !== dateColumn).length;
+  const canSave = !!parsed.result && previewDates.length > 0 && selectedCount <= MAX_UPLOAD_SERIES && !saving;
+
+  const handleSave = async () => {
+    if (!workbook || !parsed.result) return;
+
+    setSaving(true);
+    try {
+      const series = replaceExisting
+        ? parsed.result.series.map((s) => ({ ...s, seriesId: uploadSeriesId(s.title) }))
+        : parsed.result.series;
+      const result = await uploadApi.save(workbook.fileName, series);
+      await queryClient.invalidateQueries({ queryKey: ["series"] });
+      toast({
+        title: "Upload saved",
+        description: `Stored ${result.seriesCount} series with ${result.observationCount} observations`,
+      });
+    } catch (error) {
+      toast({
+        title: "Upload failed",
+        description: error instanceof Error ? error.message : "Could not save the series",
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <DashboardLayout>
+      <div className="space-y-6">
+        <div>
+          <h2 className="text-2xl font-bold text-foreground">Upload Data</h2>
+          <p className="text-sm text-muted-foreground">
+            Add your own time series from a CSV or Excel file. Saved series can be used in{" "}
+            <Link to="/analysis" className="text-primary hover:underline">Analysis</Link> and on the dashboard.
+          </p>
+        </div>
+
+        <div className="grid gap-6 lg:grid-cols-3">
+          {/* Left Panel: File & Column Mapping */}
+          <div className="lg:col-span-1 space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2 text-base">
+                  <FileSpreadsheet className="h-4 w-4" />
+                  File
+                </CardTitle>
+                <CardDescription>CSV, XLS or XLSX with a header row</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <Input type="file" accept=".csv,.xls,.xlsx" onChange={handleFileChange} disabled={reading} />
+                {reading && (
+                  <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <Loader2 className="h-4 w-4 animate-spin" />
+                    Reading file...
+                  </div>
+                )}
+                {workbook && workbook.sheets.length > 1 && (
+                  <div className="space-y-2">
+                    <Label>Sheet</Label>
+                    <Select value={String(sheetIndex)} onValueChange={handleSheetChange}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {workbook.sheets.map((s, i) => (
+                          <SelectItem key={s.name} value={String(i)}>{s.name}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {sheet && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="text-base">Columns</CardTitle>
+                  <CardDescription>Each value column becomes one series</CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="space-y-2">
+                    <Label>Date column</Label>
+                    <Select
+                      value={String(dateColumn)}
+                      onValueChange={(value) => {
+                        const index = parseInt(value);
+                        const next = { ...valueTitles };
+                        delete next[index];
+                        selectColumns(next, index);
+                      }}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {sheet.headers.map((header, i) => (
+                          <SelectItem key={i} value={String(i)}>{header}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Value columns and series titles</Label>
+                    <ScrollArea className="h-[240px] pr-3">
+                      <div className="space-y-2">
+                        {sheet.headers.map((header, i) => i !== dateColumn && (
+                          <div key={i} className="flex items-center gap-2">
+                            <Checkbox
+                              checked={i in valueTitles}
+                              onCheckedChange={(checked) => toggleValueColumn(i, checked === true)}
+                            />
+                            <Input
+                              value={valueTitles[i] ?? header}
+                              disabled={!(i in valueTitles)}
+                              onChange={(e) => setValueTitles({ ...valueTitles, [i]: e.target.value })}
+                              className="h-8"
+                            />
+                          </div>
+                        ))}
+                      </div>
+                    </ScrollArea>
+                    {selectedCount > MAX_UPLOAD_SERIES && (
+                      <p className="text-xs text-destructive">At most {MAX_UPLOAD_SERIES} series per upload</p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label>Frequency</Label>
+                    <Select value={freq} onValueChange={(value) => setFreq(value as UploadFrequency)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {FREQUENCY_OPTIONS.map((option) => (
+                          <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="grid grid-cols-2 gap-3">
+                    <div className="space-y-2">
+                      <Label>Unit</Label>
+                      <Input value={unit} onChange={(e) => setUnit(e.target.value)} placeholder="e.g. Index, %" />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Currency</Label>
+                      <Select value={currency} onValueChange={setCurrency}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_CURRENCY}>None</SelectItem>
+                          {CURRENCY_OPTIONS.map((code) => (
+                            <SelectItem key={code} value={code}>{code}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+
+                  <div className="flex items-start gap-2">
+                    <Checkbox
+                      id="replace-existing"
+                      checked={replaceExisting}
+                      onCheckedChange={(checked) => setReplaceExisting(checked === true)}
+                    />
+                    <Label htmlFor="replace-existing" className="text-sm font-normal leading-snug">
+                      Replace uploaded series with the same titles and their history
+                    </Label>
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+
+          {/* Right Panel: Preview */}
+          <div className="lg:col-span-2">
+            <Card>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div>
+                  <CardTitle className="text-base">Preview</CardTitle>
+                  <CardDescription>
+                    {parsed.result
+                      ? `${parsed.result.series.length} series, ${previewDates.length} periods` +
+                        (parsed.result.skippedRows > 0 ? `, ${parsed.result.skippedRows} rows without a readable date skipped` : "")
+                      : "Choose a file and at least one value column"}
+                  </CardDescription>
+                </div>
+                <Button onClick={handleSave} disabled={!canSave}>
+                  {saving ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <UploadIcon className="mr-2 h-4 w-4" />}
+                  Save Series
+                </Button>
+              </CardHeader>
+              <CardContent>
+                {parsed.error && (
+                  <div className="flex items-center gap-2 rounded-md border border-destructive/50 p-3 text-sm text-destructive">
+                    <AlertCircle className="h-4 w-4 shrink-0" />
+                    {parsed.error}
+                  </div>
+                )}
+                {parsed.result && previewDates.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No rows with a readable date in the date column.</p>
+                )}
+                {parsed.result && previewDates.length > 0 && (
+                  <div className="overflow-x-auto">
+                    <Table>
+                      <TableHeader>
+                        <TableRow>
+                          <TableHead>Date</TableHead>
+                          {parsed.result.series.map((series) => (
+                            <TableHead key={series.column} className="text-right">{series.title}</TableHead>
+                          ))}
+                        </TableRow>
+                      </TableHeader>
+                      <TableBody>
+                        {previewDates.slice(-PREVIEW_ROWS).map((date) => (
+                          <TableRow key={date}>
+                            <TableCell className="font-mono text-xs">{date}</TableCell>
+                            {valuesByDate.map((values, i) => (
+                              <TableCell key={i} className="text-right font-mono text-xs">
+                                {values.get(date)?.toLocaleString() ?? "–"}
+                              </TableCell>
+                            ))}
+                          </TableRow>
+                        ))}
+                      </TableBody>
+                    </Table>
+                    {previewDates.length > PREVIEW_ROWS && (
+                      <p className="mt-2 text-xs text-muted-foreground">
+                        Showing the latest {PREVIEW_ROWS} of {previewDates.length} periods
+                      </p>
+                    )}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </div>
+      </div>
+    </DashboardLayout>
+  );
+};
+
+export default Upload;
@@ -0,0 +1,58 @@
+// Caller verification for the actions that write to the warehouse
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+export type AppRole = "admin" | "analyst" | "viewer";
+
+/**
+ * Error for a caller that is not signed in (401) or lacks the role an action needs (403)
+ */
+export class AuthError extends Error {
+  constructor(message: string, readonly status: 401 | 403) {
+    super(message);
+    this.name = "AuthError";
+  }
+}
+
+export interface Caller {
+  /** null for calls made with the service role key (pg_cron jobs and refresh-series) */
+  userId: string | null;
+  role: AppRole;
+}
+
+/**
+ * Verify the JWT in the Authorization header and require one of roles. The service
+ * role key passes as admin, and users without a user_roles row count as viewers.
+ */
+export async function requireRole(
+  supabase: SupabaseClient,
+  req: Request,
+  roles: AppRole[],
+): Promise<Caller> {
+  const token = req.headers.get("Authorization")?.replace(/^Bearer\s+/i, "");
+  if (!token) {
+    throw new AuthError("Sign in to continue", 401);
+  }
+  if (token === Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")) {
+    return { userId: null, role: "admin" };
+  }
+
+  // Fails for the anon key, which carries no user
+  const { data: { user }, error } = await supabase.auth.getUser(token);
+  if (error || !user) {
+    throw new AuthError("Sign in to continue", 401);
+  }
+
+  const { data, error: roleError } = await supabase
+    .from("user_roles")
+    .select("role")
+    .eq("user_id", user.id)
+    .maybeSingle();
+  if (roleError) throw roleError;
+
+  const role = (data?.role ?? "viewer") as AppRole;
+  if (!roles.includes(role)) {
+    throw new AuthError(`This action needs the ${roles.join(" or ")} role; your role is ${role}`, 403);
+  }
+  return { userId: user.id, role };
+}
@@ -0,0 +1,258 @@
+// HTTP calls to statistics providers (timeouts, retries with backoff, per-host concurrency) and error responses
+
+import { AuthError } from "./auth.ts";
+
+// Provider response bodies are truncated before they are stored
+const MAX_ERROR_BODY_LENGTH = 4000;
+
+const DEFAULT_TIMEOUT_MS = 30_000;
+const DEFAULT_RETRIES = 3;
+const BASE_BACKOFF_MS = 1_000;
+const MAX_BACKOFF_MS = 20_000;
+// A longer Retry-After fails the call instead of holding the function open
+const MAX_RETRY_AFTER_SECONDS = 60;
+
+const RETRY_STATUSES = new Set([429, 500, 502, 503, 504]);
+
+// Requests in flight per host; providers with strict rate limits get fewer
+const DEFAULT_HOST_CONCURRENCY = 4;
+const HOST_CONCURRENCY: Record<string, number> = {
+  "pxdata.stat.fi": 2,
+  "ec.europa.eu": 2,
+  "sdmx.oecd.org": 2,
+  "api.scb.se": 2,
+};
+
+export type ProviderErrorKind =
+  | "rate_limited"
+  | "timeout"
+  | "unavailable"
+  | "not_found"
+  | "bad_request"
+  | "network"
+  | "http";
+
+function kindForStatus(status: number): ProviderErrorKind {
+  if (status === 429) return "rate_limited";
+  if (status === 404) return "not_found";
+  if (status === 408 || status === 504) return "timeout";
+  if (status >= 500) return "unavailable";
+  if (status >= 400) return "bad_request";
+  return "http";
+}
+
+function describeKind(provider: string, kind: ProviderErrorKind, status: number, retryAfterSeconds: number | null): string {
+  switch (kind) {
+    case "rate_limited":
+      return retryAfterSeconds !== null
+        ? `${provider} is rate limiting requests; try again in ${retryAfterSeconds} seconds`
+        : `${provider} is rate limiting requests; try again later`;
+    case "timeout":
+      return `${provider} did not respond in time`;
+    case "unavailable":
+      return `${provider} is temporarily unavailable (${status})`;
+    case "not_found":
+      return `${provider} has no data for this request (404)`;
+    case "bad_request":
+      return `${provider} rejected the request (${status})`;
+    case "network":
+      return `Could not connect to ${provider}`;
+    default:
+      return `${provider} API error: ${status}`;
+  }
+}
+
+/**
+ * Error for a failed provider call that keeps the status and body so they can be
+ * stored with the failed ingestion run. status is 0 when no response arrived.
+ */
+export class ProviderError extends Error {
+  readonly kind: ProviderErrorKind;
+
+  constructor(
+    readonly provider: string,
+    readonly status: number,
+    readonly body: string,
+    kind?: ProviderErrorKind,
+    readonly retryAfterSeconds: number | null = null,
+  ) {
+    const resolvedKind = kind ?? kindForStatus(status);
+    super(describeKind(provider, resolvedKind, status, retryAfterSeconds));
+    this.name = "ProviderError";
+    this.kind = resolvedKind;
+  }
+
+  static async fromResponse(provider: string, response: Response): Promise<ProviderError> {
+    const body = await response.text().catch(() => "");
+    return new ProviderError(
+      provider,
+      response.status,
+      body.substring(0, MAX_ERROR_BODY_LENGTH),
+      undefined,
+      parseRetryAfter(response.headers.get("retry-after")),
+    );
+  }
+}
+
+export interface ProviderFetchOptions extends RequestInit {
+  timeoutMs?: number;
+  /** Further attempts after the first one for retryable failures */
+  retries?: number;
+}
+
+/** Retry-After as seconds from now; the header is either delta-seconds or an HTTP date */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, Math.ceil(seconds));
+  const date = Date.parse(header);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, Math.ceil((date - Date.now()) / 1000));
+}
+
+function backoffMs(attempt: number): number {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt);
+  // Jitter keeps parallel ingests from retrying in lockstep
+  return Math.round(delay / 2 + Math.random() * (delay / 2));
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+interface HostSlots {
+  active: number;
+  waiting: (() => void)[];
+}
+
+const hostSlots = new Map<string, HostSlots>();
+
+async function acquireSlot(host: string): Promise<void> {
+  let slots = hostSlots.get(host);
+  if (!slots) {
+    slots = { active: 0, waiting: [] };
+    hostSlots.set(host, slots);
+  }
+  const limit = HOST_CONCURRENCY[host] ?? DEFAULT_HOST_CONCURRENCY;
+  if (slots.active >= limit) {
+    await new Promise<void>((resolve) => slots!.waiting.push(resolve));
+  }
+  slots.active++;
+}
+
+function releaseSlot(host: string): void {
+  const slots = hostSlots.get(host);
+  if (!slots) return;
+  slots.active--;
+  slots.waiting.shift()?.();
+}
+
+async function fetchOnce(provider: string, url: string, init: RequestInit, timeoutMs: number): Promise<Response> {
+  const host = new URL(url).host;
+  // The timeout starts once a slot is free, so queueing behind other requests does not count
+  await acquireSlot(host);
+  const controller = new AbortController();
+  const timer = setTimeout(() => controller.abort(), timeoutMs);
+
+  try {
+    return await fetch(url, { ...init, signal: controller.signal });
+  } catch (error) {
+    if (controller.signal.aborted) {
+      throw new ProviderError(provider, 0, `No response within ${timeoutMs / 1000} seconds`, "timeout");
+    }
+    throw new ProviderError(provider, 0, error instanceof Error ? error.message : String(error), "network");
+  } finally {
+    clearTimeout(timer);
+    releaseSlot(host);
+  }
+}
+
+/**
+ * fetch() for provider APIs. Timeouts, network errors, 429 and 5xx responses are
+ * retried with exponential backoff, waiting for Retry-After when the provider sends
+ * one. Resolves only with a 2xx response; anything else throws a ProviderError.
+ */
+export async function providerFetch(
+  provider: string,
+  url: string,
+  { timeoutMs = DEFAULT_TIMEOUT_MS, retries = DEFAULT_RETRIES, ...init }: ProviderFetchOptions = {},
+): Promise<Response> {
+  for (let attempt = 0; ; attempt++) {
+    let response: Response;
+    try {
+      response = await fetchOnce(provider, url, init, timeoutMs);
+    } catch (error) {
+      if (attempt >= retries) throw error;
+      const delay = backoffMs(attempt);
+      console.warn(`${provider} request failed (${(error as Error).message}), retrying in ${delay} ms`);
+      await sleep(delay);
+      continue;
+    }
+
+    if (response.ok) return response;
+
+    const retryAfter = parseRetryAfter(response.headers.get("retry-after"));
+    const retryable = RETRY_STATUSES.has(response.status) &&
+      attempt < retries &&
+      (retryAfter === null || retryAfter <= MAX_RETRY_AFTER_SECONDS);
+    if (!retryable) {
+      throw await ProviderError.fromResponse(provider, response);
+    }
+
+    await response.body?.cancel();
+    const delay = retryAfter !== null ? retryAfter * 1000 : backoffMs(attempt);
+    console.warn(`${provider} returned ${response.status}, retrying in ${delay} ms (${attempt + 1}/${retries})`);
+    await sleep(delay);
+  }
+}
+
+// HTTP status a function answers with when a provider call fails
+function responseStatus(error: ProviderError): number {
+  switch (error.kind) {
+    case "rate_limited":
+      return 429;
+    case "not_found":
+      return 404;
+    case "timeout":
+      return 504;
+    default:
+      return 502;
+  }
+}
+
+/**
+ * JSON error response for a function's outer catch. Provider failures carry
+ * their kind, provider and retry delay so the frontend can explain them; auth
+ * failures answer 401 or 403.
+ */
+export function errorResponse(error: unknown, headers: Record<string, string>): Response {
+  const jsonHeaders = { ...headers, "Content-Type": "application/json" };
+
+  if (error instanceof ProviderError) {
+    if (error.retryAfterSeconds !== null) {
+      jsonHeaders["Retry-After"] = String(error.retryAfterSeconds);
+    }
+    return new Response(
+      JSON.stringify({
+        error: error.message,
+        code: error.kind,
+        provider: error.provider,
+        providerStatus: error.status || null,
+        retryAfter: error.retryAfterSeconds,
+      }),
+      { status: responseStatus(error), headers: jsonHeaders },
+    );
+  }
+
+  if (error instanceof AuthError) {
+    return new Response(
+      JSON.stringify({ error: error.message, code: error.status === 401 ? "unauthorized" : "forbidden" }),
+      { status: error.status, headers: jsonHeaders },
+    );
+  }
+
+  const errorMessage = error instanceof Error
+    ? error.message
+    : error && typeof error === "object" && "message" in error
+    ? String((error as { message: unknown }).message)
+    : "Unknown error";
+  return new Response(JSON.stringify({ error: errorMessage }), { status: 500, headers: jsonHeaders });
+}
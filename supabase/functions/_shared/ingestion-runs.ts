@@ -0,0 +1,112 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { ProviderError } from "./http.ts";
+import { runQualityChecks } from "./quality-checks.ts";
+
+// Header set by refresh-series so scheduled runs can be told apart from manual ones
+export const INGEST_TRIGGER_HEADER = "x-ingest-trigger";
+
+interface StartRunOptions {
+  functionName: string;
+  source: string;
+  seriesId?: string | null;
+  params?: Record<string, unknown>;
+  req: Request;
+}
+
+interface FinishRunOptions {
+  seriesId?: string | null;
+  /** Every series written by a run that fanned out into several series */
+  seriesIds?: string[];
+  rowsReceived?: number;
+}
+
+export interface IngestionRun {
+  id: number | null;
+  succeed(options?: FinishRunOptions): Promise<void>;
+  fail(error: unknown, options?: FinishRunOptions): Promise<void>;
+}
+
+function describeError(error: unknown): { message: string; details: Record<string, unknown> | null } {
+  if (error instanceof ProviderError) {
+    return {
+      message: error.message,
+      details: {
+        provider: error.provider,
+        kind: error.kind,
+        status: error.status,
+        retryAfter: error.retryAfterSeconds,
+        body: error.body,
+      },
+    };
+  }
+  if (error instanceof Error) {
+    return { message: error.message, details: null };
+  }
+  // Supabase client errors are plain objects with message/code/details/hint
+  if (error && typeof error === "object" && "message" in error) {
+    const details = error as Record<string, unknown>;
+    return { message: String(details.message), details };
+  }
+  return { message: "Unknown error", details: null };
+}
+
+/**
+ * Record the start of an ingest in ingestion_runs. Logging failures never fail the ingest itself.
+ * A successful run also re-checks the data quality of the series it wrote.
+ */
+export async function startIngestionRun(
+  supabase: SupabaseClient,
+  { functionName, source, seriesId = null, params = {}, req }: StartRunOptions,
+): Promise<IngestionRun> {
+  const { data, error } = await supabase
+    .from("ingestion_runs")
+    .insert({
+      function_name: functionName,
+      source,
+      series_id: seriesId,
+      params,
+      triggered_by: req.headers.get(INGEST_TRIGGER_HEADER) || "manual",
+    })
+    .select("id")
+    .single();
+
+  if (error) console.error("Failed to record ingestion run:", error);
+  const runId: number | null = data?.id ?? null;
+
+  const finish = async (
+    status: "success" | "error",
+    { seriesId: finalSeriesId, seriesIds, rowsReceived }: FinishRunOptions,
+    error?: unknown,
+  ) => {
+    if (runId === null) return;
+    const described = error === undefined ? null : describeError(error);
+    const { error: finishError } = await supabase.rpc("finish_ingestion_run", {
+      p_run_id: runId,
+      p_status: status,
+      p_series_id: finalSeriesId ?? seriesId,
+      p_rows_received: rowsReceived ?? null,
+      p_error: described?.message ?? null,
+      p_error_details: described?.details ?? null,
+      p_series_ids: seriesIds ?? null,
+    });
+    if (finishError) console.error("Failed to finish ingestion run:", finishError);
+  };
+
+  const checkQuality = async ({ seriesId: finalSeriesId, seriesIds }: FinishRunOptions) => {
+    const ids = seriesIds ?? [finalSeriesId ?? seriesId].filter((id): id is string => !!id);
+    try {
+      await runQualityChecks(supabase, ids);
+    } catch (error) {
+      console.error("Quality checks failed:", error);
+    }
+  };
+
+  return {
+    id: runId,
+    succeed: async (options = {}) => {
+      await finish("success", options);
+      await checkQuality(options);
+    },
+    fail: (error, options = {}) => finish("error", options, error),
+  };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from "vitest";
+import { normalizeObservationStatus } from "./observation-flags.ts";
+
+describe("normalizeObservationStatus", () => {
+  it("keeps SDMX codes and uppercases Eurostat flags", () => {
+    expect(normalizeObservationStatus("P")).toBe("P");
+    expect(normalizeObservationStatus("p")).toBe("P");
+  });
+
+  it("maps provider-specific letters to their SDMX status", () => {
+    expect(normalizeObservationStatus("s")).toBe("E");
+    expect(normalizeObservationStatus("G")).toBe("U");
+    expect(normalizeObservationStatus("L")).toBe("M");
+    expect(normalizeObservationStatus("q")).toBe("M");
+  });
+
+  it("picks the most important of combined flags", () => {
+    expect(normalizeObservationStatus("bp")).toBe("B");
+    expect(normalizeObservationStatus("pe")).toBe("P");
+    expect(normalizeObservationStatus("cs")).toBe("E");
+  });
+
+  it("gives null for normal values, unknown codes and missing flags", () => {
+    expect(normalizeObservationStatus("A")).toBeNull();
+    expect(normalizeObservationStatus("z")).toBeNull();
+    expect(normalizeObservationStatus("")).toBeNull();
+    expect(normalizeObservationStatus(null)).toBeNull();
+  });
+});
@@ -0,0 +1,56 @@
+// Observation status flags and footnotes shared by the SDMX and PxWeb ingests
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+/**
+ * Statuses stored in observations.status, as SDMX OBS_STATUS codes. Listed from most to
+ * least important: when a provider gives several flags, the first one listed wins.
+ */
+export const OBSERVATION_STATUSES = ["B", "P", "E", "F", "I", "U", "D", "C", "M"] as const;
+
+export type ObservationStatus = typeof OBSERVATION_STATUSES[number];
+
+// Provider codes that mean something other than their letter, e.g. Eurostat "s" for a Eurostat estimate
+const STATUS_ALIASES: Record<string, ObservationStatus> = {
+  S: "E",
+  G: "U",
+  L: "M",
+  H: "M",
+  Q: "M",
+};
+
+export interface ObservationFootnote {
+  /** Observation date the note applies to, or null for the whole series */
+  date: string | null;
+  footnote: string;
+}
+
+/**
+ * Status for a provider flag such as SDMX "P", Eurostat "p" or combined Eurostat flags
+ * like "bp". Normal values ("A") and unknown codes give null.
+ */
+export function normalizeObservationStatus(flag: string | null | undefined): ObservationStatus | null {
+  if (!flag) return null;
+  const letters = flag.toUpperCase().replace(/[^A-Z]/g, "").split("");
+  const statuses = letters.map((letter) => STATUS_ALIASES[letter] ?? letter);
+  return OBSERVATION_STATUSES.find((status) => statuses.includes(status)) ?? null;
+}
+
+/**
+ * Replace a series' footnotes with the ones from the latest ingest
+ */
+export async function replaceFootnotes(
+  supabase: SupabaseClient,
+  seriesId: string,
+  footnotes: ObservationFootnote[],
+): Promise<void> {
+  const { error: deleteError } = await supabase.from("observation_footnotes").delete().eq("series_id", seriesId);
+  if (deleteError) throw deleteError;
+  if (footnotes.length === 0) return;
+
+  const unique = new Map(footnotes.map((f) => [`${f.date ?? ""}|${f.footnote}`, f]));
+  const { error } = await supabase.from("observation_footnotes").insert(
+    Array.from(unique.values()).map((f) => ({ series_id: seriesId, date: f.date, footnote: f.footnote })),
+  );
+  if (error) throw error;
+}
@@ -0,0 +1,105 @@
+// Cached provider catalogs (provider_catalog) behind the search actions
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+
+// Search results returned per query
+export const CATALOG_SEARCH_LIMIT = 50;
+
+const UPSERT_BATCH_SIZE = 500;
+
+/** One dataflow, dataset, indicator or table of a provider */
+export interface CatalogEntry {
+  /** Provider id, unique within the source */
+  code: string;
+  title: string;
+  /** Finnish title where the provider publishes one */
+  titleFi?: string | null;
+  description?: string | null;
+  /** Fields the search action returns for this entry */
+  details: Record<string, unknown>;
+}
+
+/**
+ * Replace a source's catalog with freshly downloaded entries. Entries missing
+ * from the download are removed. Returns the number of entries stored.
+ */
+export async function replaceCatalog(
+  supabase: SupabaseClient,
+  source: string,
+  entries: CatalogEntry[],
+): Promise<number> {
+  // An empty download is more likely a provider outage than an empty catalog
+  if (entries.length === 0) {
+    throw new Error(`${source} catalog download returned no entries`);
+  }
+
+  const refreshedAt = new Date().toISOString();
+  const unique = new Map(entries.map((entry) => [entry.code, entry]));
+  const rows = Array.from(unique.values()).map((entry) => ({
+    source,
+    code: entry.code,
+    title: entry.title,
+    title_fi: entry.titleFi ?? null,
+    description: entry.description ?? null,
+    details: entry.details,
+    refreshed_at: refreshedAt,
+  }));
+
+  for (let i = 0; i < rows.length; i += UPSERT_BATCH_SIZE) {
+    const { error } = await supabase
+      .from("provider_catalog")
+      .upsert(rows.slice(i, i + UPSERT_BATCH_SIZE), { onConflict: "source,code" });
+    if (error) throw error;
+  }
+
+  const { error: deleteError } = await supabase
+    .from("provider_catalog")
+    .delete()
+    .eq("source", source)
+    .lt("refreshed_at", refreshedAt);
+  if (deleteError) throw deleteError;
+
+  console.log(`Stored ${rows.length} ${source} catalog entries`);
+  return rows.length;
+}
+
+/** Search action response; hint explains an empty result for a catalog that was never downloaded */
+export interface CatalogSearchResult {
+  results: Record<string, unknown>[];
+  hint: string | null;
+}
+
+/**
+ * Ranked catalog search for one source. Searching never downloads: a source that
+ * has not been refreshed yet returns no results and a hint to run refresh-catalog.
+ */
+export async function searchCatalog(
+  supabase: SupabaseClient,
+  source: string,
+  query: string,
+): Promise<CatalogSearchResult> {
+  const { count, error: countError } = await supabase
+    .from("provider_catalog")
+    .select("code", { count: "exact", head: true })
+    .eq("source", source);
+  if (countError) throw countError;
+
+  if (!count) {
+    return {
+      results: [],
+      hint: `The ${source} catalog has not been downloaded yet; it loads with the daily catalog refresh, or an admin can run action=refresh-catalog now`,
+    };
+  }
+
+  const { data, error } = await supabase.rpc("search_provider_catalog", {
+    p_source: source,
+    p_query: query,
+    p_limit: CATALOG_SEARCH_LIMIT,
+  });
+  if (error) throw error;
+
+  return {
+    results: ((data || []) as { details: Record<string, unknown> }[]).map((row) => row.details),
+    hint: null,
+  };
+}
@@ -0,0 +1,194 @@
+// Splitting of PxWeb queries that exceed a source's cell limit into chunks that are
+// run one after another and merged back into a single response
+
+import {
+  findTimeVariable,
+  type PxWebDataResponse,
+  type PxWebLimits,
+  type PxWebMetadata,
+  type PxWebQuery,
+  type PxWebVariable,
+} from "./pxweb.ts";
+
+type PxWebQueryItem = PxWebQuery["query"][number];
+
+/**
+ * Value codes an item selects, or null when its filter cannot be resolved from
+ * metadata (e.g. agg: and vs: groupings), in which case it is never split
+ */
+function resolveSelection(item: PxWebQueryItem, variable: PxWebVariable | undefined): string[] | null {
+  if (!variable) return null;
+  const { filter, values } = item.selection;
+
+  if (filter === "item") return values;
+  if (filter === "top") {
+    const count = parseInt(values[0]);
+    return isNaN(count) ? null : variable.values.slice(-count);
+  }
+  if (filter === "all") {
+    const patterns = values.map((pattern) =>
+      new RegExp(`^${pattern.replace(/[.+?^${}()|[\]\\]/g, "\\$&").replace(/\*/g, ".*")}$`)
+    );
+    return variable.values.filter((code) => patterns.some((pattern) => pattern.test(code)));
+  }
+  return null;
+}
+
+interface ResolvedItem {
+  item: PxWebQueryItem;
+  codes: string[] | null;
+  count: number;
+}
+
+function resolveQuery(query: PxWebQuery, metadata: PxWebMetadata): ResolvedItem[] {
+  const variablesByCode = new Map(metadata.variables.map((v) => [v.code, v]));
+  return (query.query || []).map((item) => {
+    const codes = resolveSelection(item, variablesByCode.get(item.code));
+    return { item, codes, count: codes ? codes.length : item.selection.values.length };
+  });
+}
+
+/**
+ * Cells a query returns: the product of the values selected per variable.
+ * Variables left out of the query are eliminated and count once.
+ */
+export function estimatePxWebCells(query: PxWebQuery, metadata: PxWebMetadata): number {
+  return resolveQuery(query, metadata).reduce((cells, { count }) => cells * Math.max(count, 1), 1);
+}
+
+/**
+ * Split a query into queries of at most maxCells cells each. The time variable is
+ * split first and the variable with the most selected values otherwise; when one
+ * value of that variable still exceeds the limit, each part is split again along
+ * the next variable. Queries within the limit are returned unchanged.
+ */
+export function chunkPxWebQuery(query: PxWebQuery, metadata: PxWebMetadata, maxCells: number): PxWebQuery[] {
+  const resolved = resolveQuery(query, metadata);
+  const cells = resolved.reduce((total, { count }) => total * Math.max(count, 1), 1);
+  if (cells <= maxCells) return [query];
+
+  const splittable = resolved.filter((r): r is ResolvedItem & { codes: string[] } => r.codes !== null && r.count > 1);
+  const { variable: timeVariable } = findTimeVariable(metadata.variables);
+  const split =
+    splittable.find((r) => r.item.code === timeVariable?.code) ||
+    [...splittable].sort((a, b) => b.count - a.count)[0];
+
+  // Nothing left to split, e.g. a single aggregated grouping; let the API report the limit
+  if (!split) return [query];
+
+  const cellsPerValue = cells / split.count;
+  const valuesPerChunk = Math.max(1, Math.floor(maxCells / cellsPerValue));
+
+  const chunks: PxWebQuery[] = [];
+  for (let i = 0; i < split.codes.length; i += valuesPerChunk) {
+    const values = split.codes.slice(i, i + valuesPerChunk);
+    const chunk: PxWebQuery = {
+      ...query,
+      query: query.query.map((item) =>
+        item.code === split.item.code ? { code: item.code, selection: { filter: "item", values } } : item
+      ),
+    };
+    chunks.push(...chunkPxWebQuery(chunk, metadata, maxCells));
+  }
+  return chunks;
+}
+
+/**
+ * Concatenate the data rows of chunked responses. Key columns and table metadata are the
+ * same in every chunk; contents columns differ when the contents variable was split, in
+ * which case rows with the same key are joined over the union of contents columns.
+ */
+export function mergePxWebResponses(responses: PxWebDataResponse[]): PxWebDataResponse {
+  if (responses.length === 1) return responses[0];
+  const [first] = responses;
+  const comments = responses.flatMap((r) => r.comments || []);
+
+  const contentCodesOf = (response: PxWebDataResponse) =>
+    (response.columns || []).filter((c) => c.type === "c").map((c) => c.code);
+  const firstCodes = contentCodesOf(first).join("|");
+  if (responses.every((response) => contentCodesOf(response).join("|") === firstCodes)) {
+    return { ...first, comments, data: responses.flatMap((r) => r.data || []) };
+  }
+
+  const contentColumns = new Map<string, NonNullable<PxWebDataResponse["columns"]>[number]>();
+  for (const response of responses) {
+    for (const column of response.columns || []) {
+      if (column.type === "c" && !contentColumns.has(column.code)) contentColumns.set(column.code, column);
+    }
+  }
+  const contentCodes = Array.from(contentColumns.keys());
+
+  const rows = new Map<string, { key: string[]; values: string[] }>();
+  for (const response of responses) {
+    const codes = contentCodesOf(response);
+    for (const item of response.data || []) {
+      const rowKey = item.key.join("|");
+      if (!rows.has(rowKey)) rows.set(rowKey, { key: item.key, values: contentCodes.map(() => "..") });
+      const row = rows.get(rowKey)!;
+      codes.forEach((code, i) => {
+        row.values[contentCodes.indexOf(code)] = item.values[i];
+      });
+    }
+  }
+
+  return {
+    ...first,
+    columns: [...(first.columns || []).filter((c) => c.type !== "c"), ...contentColumns.values()],
+    comments,
+    data: Array.from(rows.values()),
+  };
+}
+
+/**
+ * Paces calls to a source's maxCalls per time window
+ */
+class PxWebThrottle {
+  private calls: number[] = [];
+
+  constructor(private readonly limits: PxWebLimits) {}
+
+  async wait(): Promise<void> {
+    const windowMs = this.limits.timeWindowSeconds * 1000;
+    const now = Date.now();
+    this.calls = this.calls.filter((time) => now - time < windowMs);
+    if (this.calls.length >= this.limits.maxCalls) {
+      const delay = windowMs - (now - this.calls[0]);
+      console.log(`PxWeb rate limit reached, waiting ${delay} ms`);
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+    this.calls.push(Date.now());
+  }
+}
+
+/**
+ * Run a query in chunks that fit the source's cell limit, sequentially and within its
+ * call rate, and merge the results. fetchChunk posts one query and returns its
+ * v1-shaped response through providerFetch, which retries a chunk the API still answers
+ * with 429 despite the pacing.
+ */
+export async function runPxWebQueryInChunks(
+  query: PxWebQuery,
+  metadata: PxWebMetadata,
+  limits: PxWebLimits,
+  fetchChunk: (query: PxWebQuery) => Promise<PxWebDataResponse>,
+): Promise<PxWebDataResponse> {
+  const chunks = chunkPxWebQuery(query, metadata, limits.maxCells);
+  if (chunks.length > 1) {
+    console.log(
+      `Query of ${estimatePxWebCells(query, metadata)} cells exceeds the ${limits.maxCells} cell limit; running ${chunks.length} chunks`,
+    );
+  }
+
+  const throttle = new PxWebThrottle(limits);
+  const responses: PxWebDataResponse[] = [];
+
+  for (const [index, chunk] of chunks.entries()) {
+    await throttle.wait();
+    responses.push(await fetchChunk(chunk));
+    if (chunks.length > 1) {
+      console.log(`Chunk ${index + 1}/${chunks.length}: ${responses[index].data?.length || 0} rows`);
+    }
+  }
+
+  return mergePxWebResponses(responses);
+}
@@ -0,0 +1,285 @@
+// PxWebApi 2.0 client: navigation, table metadata and JSON-stat2 data, returned in the
+// v1 shapes of pxweb.ts so both API versions share one ingest path
+
+import { providerFetch } from "./http.ts";
+import type { PxWebDataResponse, PxWebMetadata, PxWebQuery, PxWebSource, PxWebVariable } from "./pxweb.ts";
+
+export interface JsonStat2Dimension {
+  label: string;
+  category: {
+    index: Record<string, number>;
+    label?: Record<string, string>;
+    unit?: Record<string, { base?: string; decimals?: number }>;
+    /** Value notes by category code */
+    note?: Record<string, string[]>;
+  };
+  extension?: Record<string, unknown>;
+}
+
+export interface JsonStat2Dataset {
+  version: string;
+  class: string;
+  label: string;
+  source?: string;
+  updated?: string;
+  id: string[];
+  size: number[];
+  role?: { time?: string[]; metric?: string[]; geo?: string[] };
+  dimension: Record<string, JsonStat2Dimension>;
+  value?: (number | null)[];
+  status?: Record<string, string>;
+  note?: string[];
+}
+
+interface PxWebV2FolderItem {
+  type: string;
+  id: string;
+  label: string;
+  description?: string;
+  updated?: string;
+}
+
+/** Table in the v2 /tables listing */
+export interface PxWebV2Table {
+  id: string;
+  label: string;
+  description?: string;
+  updated?: string;
+  firstPeriod?: string;
+  lastPeriod?: string;
+}
+
+// Page size for the /tables listing
+const V2_TABLES_PAGE_SIZE = 1000;
+
+/** Navigation entry in the v1 list shape: type "l" for folders, "t" for tables */
+export interface PxWebNavigationItem {
+  id: string;
+  text: string;
+  type: "l" | "t";
+  updated?: string;
+}
+
+/**
+ * v2 API root of a source, or an error for sources that only publish v1
+ */
+export function pxwebV2BaseUrl(source: PxWebSource): string {
+  if (!source.v2BaseUrl) {
+    throw new Error(`${source.name} does not publish PxWebApi 2.0; use api=v1`);
+  }
+  return source.v2BaseUrl;
+}
+
+/**
+ * v2 table id for a v1-style path: the last segment without ".px",
+ * e.g. "StatFin/synt/statfin_synt_pxt_12dl.px" gives "statfin_synt_pxt_12dl"
+ */
+export function pxwebV2TableId(tablePath: string): string {
+  const segments = tablePath.replace(/^\/+|\/+$/g, "").split("/");
+  return segments[segments.length - 1].replace(/\.px$/i, "");
+}
+
+async function fetchV2Json<T>(source: PxWebSource, url: string, init?: RequestInit): Promise<T> {
+  console.log(`Fetching ${source.name} v2:`, url);
+  const response = await providerFetch(source.name, url, init);
+  return await response.json() as T;
+}
+
+/**
+ * Folders and tables in a navigation folder; the root folder when folderId is null
+ */
+export async function fetchV2Navigation(
+  source: PxWebSource,
+  folderId: string | null,
+  language: string,
+): Promise<PxWebNavigationItem[]> {
+  const path = folderId ? `/navigation/${encodeURIComponent(folderId)}` : "/navigation";
+  const data = await fetchV2Json<{ folderContents?: PxWebV2FolderItem[] }>(
+    source,
+    `${pxwebV2BaseUrl(source)}${path}?lang=${language}`,
+  );
+
+  return (data.folderContents || [])
+    .filter((item) => item.type === "FolderInformation" || item.type === "Table")
+    .map((item) => ({
+      id: item.id,
+      text: item.label,
+      type: item.type === "Table" ? "t" : "l",
+      updated: item.updated,
+    }));
+}
+
+/**
+ * Every current table of a source, read page by page
+ */
+export async function fetchV2Tables(source: PxWebSource, language: string): Promise<PxWebV2Table[]> {
+  const tables: PxWebV2Table[] = [];
+  let pageNumber = 1;
+  let totalPages = 1;
+
+  do {
+    const data = await fetchV2Json<{ tables?: PxWebV2Table[]; page?: { totalPages?: number } }>(
+      source,
+      `${pxwebV2BaseUrl(source)}/tables?lang=${language}&pageSize=${V2_TABLES_PAGE_SIZE}&pageNumber=${pageNumber}`,
+    );
+    tables.push(...(data.tables || []));
+    totalPages = data.page?.totalPages ?? 1;
+    pageNumber++;
+  } while (pageNumber <= totalPages);
+
+  return tables;
+}
+
+/**
+ * Variables of a table as v1 metadata
+ */
+export async function fetchV2Metadata(
+  source: PxWebSource,
+  tableId: string,
+  language: string,
+): Promise<PxWebMetadata> {
+  const dataset = await fetchV2Json<JsonStat2Dataset>(
+    source,
+    `${pxwebV2BaseUrl(source)}/tables/${encodeURIComponent(tableId)}/metadata?lang=${language}&outputFormat=json-stat2`,
+  );
+  return jsonStat2ToMetadata(dataset);
+}
+
+/**
+ * Run a v1 query against the v2 data endpoint. The JSON-stat2 response carries the
+ * labels of every returned value, so it also serves as the metadata for ingesting it.
+ */
+export async function fetchV2Data(
+  source: PxWebSource,
+  tableId: string,
+  query: PxWebQuery,
+  language: string,
+): Promise<{ dataset: JsonStat2Dataset; metadata: PxWebMetadata; data: PxWebDataResponse }> {
+  const dataset = await fetchV2Json<JsonStat2Dataset>(
+    source,
+    `${pxwebV2BaseUrl(source)}/tables/${encodeURIComponent(tableId)}/data?lang=${language}&outputFormat=json-stat2`,
+    {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(pxwebQueryToV2Selection(query)),
+    },
+  );
+  return { dataset, metadata: jsonStat2ToMetadata(dataset), data: jsonStat2ToDataResponse(dataset) };
+}
+
+/**
+ * v1 query items as a v2 selection. "all" and "top" filters become the v2
+ * "*" and TOP(n) expressions; item lists are passed through.
+ */
+export function pxwebQueryToV2Selection(query: PxWebQuery) {
+  return {
+    selection: (query.query || []).map((item) => {
+      let valueCodes = item.selection.values;
+      if (item.selection.filter === "all") valueCodes = ["*"];
+      if (item.selection.filter === "top") valueCodes = [`TOP(${item.selection.values[0]})`];
+      return { variableCode: item.code, valueCodes };
+    }),
+  };
+}
+
+function dimensionCodes(dimension: JsonStat2Dimension): string[] {
+  const index = dimension.category.index;
+  return Object.keys(index).sort((a, b) => index[a] - index[b]);
+}
+
+/**
+ * JSON-stat2 dimensions as v1 variables, in dataset order
+ */
+export function jsonStat2ToMetadata(dataset: JsonStat2Dataset): PxWebMetadata {
+  const timeIds = new Set(dataset.role?.time || []);
+  const variables: PxWebVariable[] = dataset.id.map((id) => {
+    const dimension = dataset.dimension[id];
+    const values = dimensionCodes(dimension);
+    return {
+      code: id,
+      text: dimension.label || id,
+      values,
+      valueTexts: values.map((code) => dimension.category.label?.[code] || code),
+      time: timeIds.has(id),
+    };
+  });
+
+  return { title: dataset.label, variables, updated: dataset.updated, source: dataset.source };
+}
+
+/**
+ * JSON-stat2 values as a v1 json response: one data item per combination of the
+ * non-metric dimensions, with one value per code of the metric (contents) dimension
+ */
+export function jsonStat2ToDataResponse(dataset: JsonStat2Dataset): PxWebDataResponse {
+  const timeIds = new Set(dataset.role?.time || []);
+  const metricId = dataset.role?.metric?.[0];
+  const codes = dataset.id.map((id) => dimensionCodes(dataset.dimension[id]));
+
+  // Row-major strides: the last dimension varies fastest
+  const strides = new Array<number>(dataset.id.length).fill(1);
+  for (let d = dataset.id.length - 2; d >= 0; d--) {
+    strides[d] = strides[d + 1] * dataset.size[d + 1];
+  }
+
+  const keyDimensions = dataset.id.map((id, d) => ({ id, d })).filter(({ id }) => id !== metricId);
+  const metricPosition = metricId ? dataset.id.indexOf(metricId) : -1;
+  const metricCodes = metricPosition >= 0 ? codes[metricPosition] : [];
+  const metricDimension = metricId ? dataset.dimension[metricId] : undefined;
+
+  const columns: NonNullable<PxWebDataResponse["columns"]> = [
+    ...keyDimensions.map(({ id }) => ({
+      code: id,
+      text: dataset.dimension[id].label || id,
+      type: timeIds.has(id) ? "t" : "d",
+    })),
+    ...(metricCodes.length > 0
+      ? metricCodes.map((code) => ({
+          code,
+          text: metricDimension?.category.label?.[code] || code,
+          type: "c",
+          unit: metricDimension?.category.unit?.[code]?.base,
+        }))
+      : [{ code: "value", text: dataset.label, type: "c" }]),
+  ];
+
+  const values = dataset.value || [];
+  const data: PxWebDataResponse["data"] = [];
+  const combinationCount = keyDimensions.reduce((count, { d }) => count * dataset.size[d], 1);
+
+  for (let n = 0; n < combinationCount; n++) {
+    // Decode n into one position per key dimension, last dimension fastest
+    let remaining = n;
+    const positions = new Map<number, number>();
+    for (let k = keyDimensions.length - 1; k >= 0; k--) {
+      const { d } = keyDimensions[k];
+      positions.set(d, remaining % dataset.size[d]);
+      remaining = Math.floor(remaining / dataset.size[d]);
+    }
+
+    const baseIndex = keyDimensions.reduce((sum, { d }) => sum + positions.get(d)! * strides[d], 0);
+    const cellValues = (metricCodes.length > 0 ? metricCodes : [null]).map((_, m) => {
+      const value = values[baseIndex + (metricPosition >= 0 ? m * strides[metricPosition] : 0)];
+      return value === null || value === undefined ? ".." : String(value);
+    });
+
+    data.push({
+      key: keyDimensions.map(({ d }) => codes[d][positions.get(d)!]),
+      values: cellValues,
+    });
+  }
+
+  // Category notes are v1 value comments
+  const comments = dataset.id.flatMap((id) =>
+    Object.entries(dataset.dimension[id].category.note || {}).flatMap(([value, notes]) =>
+      notes.map((comment) => ({ variable: id, value, comment }))
+    )
+  );
+
+  return {
+    columns,
+    comments,
+    data,
+    metadata: [{ updated: dataset.updated, label: dataset.label, source: dataset.source }],
+  };
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from "vitest";
+import {
+  PXWEB_SOURCES,
+  pxwebCurrency,
+  pxwebIngestTargets,
+  pxwebProviderId,
+  splitPxWebIntoSeries,
+  type PxWebDataResponse,
+  type PxWebMetadata,
+  type PxWebQuery,
+} from "./pxweb.ts";
+
+const metadata: PxWebMetadata = {
+  title: "Population",
+  variables: [
+    { code: "Alue", text: "Area", values: ["SSS", "091"], valueTexts: ["WHOLE COUNTRY", "Helsinki"] },
+    { code: "Vuosi", text: "Year", values: ["2023", "2024"], valueTexts: ["2023", "2024"], time: true },
+    { code: "Tiedot", text: "Information", values: ["vaesto"], valueTexts: ["Population"] },
+  ],
+};
+
+const data: PxWebDataResponse = {
+  columns: [
+    { code: "Alue", text: "Area", type: "d" },
+    { code: "Vuosi", text: "Year", type: "t" },
+    { code: "vaesto", text: "Population", type: "c", unit: "persons" },
+  ],
+  comments: [{ variable: "Vuosi", value: "2024", comment: "Ennakkotieto" }],
+  data: [
+    { key: ["SSS", "2023"], values: ["100"] },
+    { key: ["SSS", "2024"], values: [".."] },
+    { key: ["091", "2023"], values: ["50"] },
+  ],
+};
+
+const query: PxWebQuery = {
+  query: [
+    { code: "Alue", selection: { filter: "item", values: ["SSS", "091"] } },
+    { code: "Vuosi", selection: { filter: "item", values: ["2023", "2024"] } },
+  ],
+  response: { format: "json" },
+};
+
+describe("splitPxWebIntoSeries", () => {
+  it("gives one slice per combination of non-time values", () => {
+    const slices = splitPxWebIntoSeries(data, metadata);
+
+    expect(slices.map((s) => s.selection)).toEqual([
+      { Alue: "SSS", Tiedot: "vaesto" },
+      { Alue: "091", Tiedot: "vaesto" },
+    ]);
+    expect(slices[0].labels).toEqual({ Alue: "WHOLE COUNTRY", Tiedot: "Population" });
+    expect(slices[0].unit).toBe("persons");
+  });
+
+  it("keeps missing values and reads their status from time notes", () => {
+    const [country, helsinki] = splitPxWebIntoSeries(data, metadata);
+
+    expect(country.observations).toEqual([
+      { date: "2023-01-01", value: 100, status: null },
+      { date: "2024-01-01", value: null, status: "P" },
+    ]);
+    expect(country.footnotes).toEqual([{ date: "2024-01-01", footnote: "Ennakkotieto" }]);
+    expect(helsinki.footnotes).toEqual([]);
+  });
+
+  it("gives no slices for a response without data", () => {
+    expect(splitPxWebIntoSeries({}, metadata)).toEqual([]);
+  });
+});
+
+describe("pxwebIngestTargets", () => {
+  const request = { tablePath: "StatFin/vaerak/x.px", seriesId: "STATFIN_X", title: "Population", query };
+
+  it("fans several slices out with narrowed queries", () => {
+    const targets = pxwebIngestTargets(splitPxWebIntoSeries(data, metadata), request);
+
+    expect(targets.map(({ seriesId, providerId, title }) => ({ seriesId, providerId, title }))).toEqual([
+      { seriesId: "STATFIN_X_SSS", providerId: "StatFin/vaerak/x.px/Alue=SSS;Tiedot=vaesto", title: "Population: WHOLE COUNTRY" },
+      { seriesId: "STATFIN_X_091", providerId: "StatFin/vaerak/x.px/Alue=091;Tiedot=vaesto", title: "Population: Helsinki" },
+    ]);
+    expect(targets[0].query.query).toEqual([
+      { code: "Vuosi", selection: { filter: "item", values: ["2023", "2024"] } },
+      { code: "Alue", selection: { filter: "item", values: ["SSS"] } },
+      { code: "Tiedot", selection: { filter: "item", values: ["vaesto"] } },
+    ]);
+  });
+
+  it("keeps the requested id, title and query for a single slice", () => {
+    const [country] = splitPxWebIntoSeries(data, metadata);
+    const [target] = pxwebIngestTargets([country], request);
+
+    expect(target.seriesId).toBe("STATFIN_X");
+    expect(target.title).toBe("Population");
+    expect(target.query).toBe(query);
+  });
+});
+
+describe("pxwebProviderId", () => {
+  it("appends the sorted selection to the table path", () => {
+    expect(pxwebProviderId("x.px", { Tiedot: "vaesto", Alue: "SSS" })).toBe("x.px/Alue=SSS;Tiedot=vaesto");
+    expect(pxwebProviderId("x.px", {})).toBe("x.px");
+  });
+});
+
+describe("pxwebCurrency", () => {
+  it("reads euros and the source's own currency", () => {
+    expect(pxwebCurrency(PXWEB_SOURCES.STATFIN, "1000 euroa")).toBe("EUR");
+    expect(pxwebCurrency(PXWEB_SOURCES.SCB, "mnkr")).toBe("SEK");
+    expect(pxwebCurrency(PXWEB_SOURCES.SSB, "kroner")).toBe("NOK");
+  });
+
+  it("gives null for counts, percentages and indices", () => {
+    expect(pxwebCurrency(PXWEB_SOURCES.SCB, "persons")).toBeNull();
+    expect(pxwebCurrency(PXWEB_SOURCES.SCB, "%")).toBeNull();
+    expect(pxwebCurrency(PXWEB_SOURCES.SCB, "index (2015=100)")).toBeNull();
+    expect(pxwebCurrency(PXWEB_SOURCES.SCB, null)).toBeNull();
+  });
+});
@@ -0,0 +1,539 @@
+// PxWeb sources (Statistics Finland, Sweden, Norway and Iceland) and decoding of PxWeb API v1 responses
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ObservationFootnote, ObservationStatus } from "./observation-flags.ts";
+import { chunkIds } from "./series-store.ts";
+
+/** Query limits published by a PxWeb API (maxValues, maxCalls and timeWindow in its ?config) */
+export interface PxWebLimits {
+  /** Largest number of cells one data query may return */
+  maxCells: number;
+  /** Calls allowed per time window before the API answers 429 */
+  maxCalls: number;
+  timeWindowSeconds: number;
+}
+
+export interface PxWebSource {
+  /** series.source code */
+  code: string;
+  name: string;
+  /** API root with a {lang} placeholder, e.g. "https://api.scb.se/OV0104/v1/doris/{lang}/ssd" */
+  baseUrl: string;
+  /** PxWebApi 2.0 root, for sources that publish it; languages are passed as ?lang= */
+  v2BaseUrl?: string;
+  languages: string[];
+  defaultLanguage: string;
+  /**
+   * Databases directly under the API root. Table paths that do not start with one are
+   * resolved under the first; sources whose root already is the database leave this empty.
+   */
+  databases: string[];
+  /** Currency of units that name the national currency without a code, e.g. "mnkr" */
+  currency: string;
+  geo: string;
+  license: string;
+  limits: PxWebLimits;
+}
+
+export const PXWEB_SOURCES: Record<string, PxWebSource> = {
+  STATFIN: {
+    code: "STATFIN",
+    name: "Statistics Finland",
+    baseUrl: "https://pxdata.stat.fi/PXWeb/api/v1/{lang}",
+    v2BaseUrl: "https://pxdata.stat.fi/api/v2",
+    languages: ["en", "fi", "sv"],
+    defaultLanguage: "en",
+    databases: [
+      "StatFin",
+      "Check",
+      "Hyvinvointialueet",
+      "Kokeelliset_tilastot",
+      "Kuntien_avainluvut",
+      "Kuntien_talous_ja_toiminta",
+      "Maahanmuuttajat_ja_kotoutuminen",
+      "NOVI-fi",
+      "Postinumeroalueittainen_avoin_tieto",
+      "SDG",
+      "StatFin_Passiivi",
+    ],
+    currency: "EUR",
+    geo: "FI",
+    license: "CC BY 4.0",
+    limits: { maxCells: 100000, maxCalls: 30, timeWindowSeconds: 10 },
+  },
+  SCB: {
+    code: "SCB",
+    name: "Statistics Sweden",
+    baseUrl: "https://api.scb.se/OV0104/v1/doris/{lang}/ssd",
+    v2BaseUrl: "https://api.scb.se/OV0104/v2beta/api/v2",
+    languages: ["en", "sv"],
+    defaultLanguage: "en",
+    databases: [],
+    currency: "SEK",
+    geo: "SE",
+    license: "CC0 1.0",
+    limits: { maxCells: 150000, maxCalls: 10, timeWindowSeconds: 10 },
+  },
+  SSB: {
+    code: "SSB",
+    name: "Statistics Norway",
+    baseUrl: "https://data.ssb.no/api/v0/{lang}/table",
+    languages: ["en", "no"],
+    defaultLanguage: "en",
+    databases: [],
+    currency: "NOK",
+    geo: "NO",
+    license: "CC BY 4.0",
+    limits: { maxCells: 300000, maxCalls: 30, timeWindowSeconds: 60 },
+  },
+  HAGSTOFA: {
+    code: "HAGSTOFA",
+    name: "Statistics Iceland",
+    baseUrl: "https://px.hagstofa.is/px{lang}/api/v1/{lang}",
+    languages: ["en", "is"],
+    defaultLanguage: "en",
+    databases: [],
+    currency: "ISK",
+    geo: "IS",
+    license: "CC BY 4.0",
+    limits: { maxCells: 100000, maxCalls: 30, timeWindowSeconds: 10 },
+  },
+};
+
+/**
+ * Source for a request's source parameter; StatFin when none is given
+ */
+export function getPxWebSource(code: string | null): PxWebSource {
+  const source = PXWEB_SOURCES[(code || "STATFIN").toUpperCase()];
+  if (!source) {
+    throw new Error(`Unknown PxWeb source ${code}; expected one of ${Object.keys(PXWEB_SOURCES).join(", ")}`);
+  }
+  return source;
+}
+
+/**
+ * API root for a source in the requested language, falling back to the source default
+ */
+export function pxwebBaseUrl(source: PxWebSource, language: string | null): string {
+  const lang = language && source.languages.includes(language) ? language : source.defaultLanguage;
+  return source.baseUrl.replace(/\{lang\}/g, lang);
+}
+
+/**
+ * Normalize a table or folder path: strip slashes and, for sources with several
+ * databases, put paths that name no known database under the first one
+ */
+export function pxwebTablePath(source: PxWebSource, path: string): string {
+  const trimmed = path.replace(/^\/+|\/+$/g, '');
+  if (source.databases.length === 0) return trimmed;
+  if (trimmed.includes("/") && source.databases.some((db) => trimmed.startsWith(db))) return trimmed;
+  return `${source.databases[0]}/${trimmed}`;
+}
+
+export interface PxWebQuery {
+  query: Array<{
+    code: string;
+    selection: {
+      filter: string;
+      values: string[];
+    };
+  }>;
+  response: {
+    format: string;
+  };
+}
+
+export interface PxWebVariable {
+  code: string;
+  text: string;
+  values: string[];
+  valueTexts: string[];
+  time?: boolean;
+}
+
+export interface PxWebMetadata {
+  title: string;
+  variables: PxWebVariable[];
+  updated?: string;
+  source?: string;
+}
+
+export interface PxWebDataItem {
+  key: string[];
+  values: string[];
+}
+
+/** Value note, e.g. { variable: "Vuosi", value: "2024", comment: "Ennakkotieto" } */
+export interface PxWebComment {
+  variable: string;
+  value: string;
+  comment: string;
+}
+
+export interface PxWebDataResponse {
+  columns?: Array<{ code: string; text: string; type: string; unit?: string }>;
+  comments?: PxWebComment[];
+  data?: PxWebDataItem[];
+  metadata?: Array<{ updated?: string; label?: string; source?: string }>;
+}
+
+/**
+ * Find the time variable in metadata
+ */
+export function findTimeVariable(variables: PxWebVariable[]): { index: number; variable: PxWebVariable | null } {
+  const idx = variables.findIndex(
+    (v) =>
+      v.time === true ||
+      v.code.toLowerCase().includes('vuosi') ||
+      v.code.toLowerCase().includes('aika') ||
+      v.code.toLowerCase().includes('kuukausi') ||
+      v.code.toLowerCase().includes('neljännes') ||
+      v.code.toLowerCase() === 'year' ||
+      v.code.toLowerCase() === 'time' ||
+      v.code.toLowerCase() === 'quarter' ||
+      v.code.toLowerCase() === 'month' ||
+      (v.values.length > 0 && /^\d{4}/.test(v.values[0]))
+  );
+  return { index: idx, variable: idx >= 0 ? variables[idx] : null };
+}
+
+/**
+ * Convert StatFin time values to ISO date format
+ * - Annual: 2020 -> 2020-01-01
+ * - Quarterly: 2020Q1 or 2020K1 -> 2020-01-01, Q2->04-01, Q3->07-01, Q4->10-01
+ * - Monthly: 2020M01 or 2020-01 -> 2020-01-01
+ */
+export function normalizeTimeToISO(timeKey: string): string {
+  if (!timeKey) return '';
+  
+  // Quarterly format: 2024Q1, 2024K1, 2024Q3
+  const quarterMatch = timeKey.match(/^(\d{4})[QK](\d)$/i);
+  if (quarterMatch) {
+    const year = quarterMatch[1];
+    const quarter = parseInt(quarterMatch[2]);
+    const monthMap: Record<number, string> = { 1: '01', 2: '04', 3: '07', 4: '10' };
+    const month = monthMap[quarter] || '01';
+    return `${year}-${month}-01`;
+  }
+  
+  // Monthly format: 2024M01
+  const monthMatch = timeKey.match(/^(\d{4})M(\d{2})$/i);
+  if (monthMatch) {
+    return `${monthMatch[1]}-${monthMatch[2]}-01`;
+  }
+  
+  // Monthly format: 2024-01
+  const monthDashMatch = timeKey.match(/^(\d{4})-(\d{2})$/);
+  if (monthDashMatch) {
+    return `${monthDashMatch[1]}-${monthDashMatch[2]}-01`;
+  }
+  
+  // Already ISO format: 2024-01-01
+  if (/^\d{4}-\d{2}-\d{2}$/.test(timeKey)) {
+    return timeKey;
+  }
+  
+  // Annual format: 2024 -> 2024-01-01
+  if (/^\d{4}$/.test(timeKey)) {
+    return `${timeKey}-01-01`;
+  }
+  
+  // Fallback: return as is
+  return timeKey;
+}
+
+/**
+ * Determine frequency from time values
+ */
+export function detectFrequency(timeValues: string[]): string {
+  if (timeValues.length === 0) return 'A';
+  const sample = timeValues[0];
+  if (/[QK]\d/i.test(sample)) return 'Q';
+  if (/M\d{2}/i.test(sample) || /^\d{4}-\d{2}$/.test(sample)) return 'M';
+  return 'A';
+}
+
+/**
+ * Seasonal adjustment of the selected values, e.g. "Kausitasoitettu" or "Trend",
+ * for tables that publish original, adjusted and trend series side by side
+ */
+export function detectSeasonalAdjustment(metadata: PxWebMetadata, query: PxWebQuery): string | null {
+  for (const item of query.query || []) {
+    const variable = metadata.variables?.find((v) => v.code === item.code);
+    if (!variable || item.selection.values.length !== 1) continue;
+    const text = variable.valueTexts[variable.values.indexOf(item.selection.values[0])];
+    if (text && /kausitasoitettu|kausipuhdistettu|säsongrensad|sesongjustert|seasonally adjusted|trendi|trend|alkuperäinen|original/i.test(text)) {
+      return text;
+    }
+  }
+  return null;
+}
+
+/**
+ * Power of ten in a PxWeb unit such as "1000 euroa", "milj. euroa" or "mnkr"
+ */
+export function detectUnitMultiplier(unit: string | null): number | null {
+  if (!unit) return null;
+  if (/mrd|miljard|billion|mdkr/i.test(unit)) return 9;
+  if (/^1\s?000\s?000\b|milj|million|mnkr/i.test(unit)) return 6;
+  if (/^1\s?000\b|thousand|tuhat|tusen/i.test(unit)) return 3;
+  return 0;
+}
+
+/**
+ * Currency a PxWeb unit is an amount of, e.g. "EUR" for "1000 euroa" or the source's
+ * currency for "mnkr" or "krónur"; null for counts, percentages and indices
+ */
+export function pxwebCurrency(source: PxWebSource, unit: string | null): string | null {
+  if (!unit || /^\s*(%|per ?cent|procent|prosent|indeks|index)/i.test(unit)) return null;
+  if (/\bm?eur(o|oa|os)?\b|€/i.test(unit)) return "EUR";
+  if (/\busd\b|\bdollars?\b/i.test(unit)) return "USD";
+  if (/\b(sek|nok|isk)\b|kronor|kroner|krón|kr\b/i.test(unit)) return source.currency;
+  return null;
+}
+
+// Upper bound on series created by one ingest that selects several values per variable.
+// Leaves room for a whole municipal table (309 in Finland, 290 in Sweden, 357 in Norway)
+// with a few contents values; storeSeries writes them in shared batches.
+export const PXWEB_MAX_SERIES = 1000;
+
+export interface PxWebSeriesSlice {
+  /** Selected value code of every non-time variable, including the contents variable */
+  selection: Record<string, string>;
+  /** valueTexts label of every selected value */
+  labels: Record<string, string>;
+  unit: string | null;
+  observations: Array<{ date: string; value: number | null; status: ObservationStatus | null }>;
+  /** Notes on the selected values (whole series) and on time periods (dated) */
+  footnotes: ObservationFootnote[];
+}
+
+/**
+ * Parse a PxWeb cell value, treating the ".." / "." placeholders as missing
+ */
+export function parsePxWebValue(rawValue: string | null | undefined): number | null {
+  if (rawValue === '..' || rawValue === '.' || rawValue === '' || rawValue === null || rawValue === undefined) {
+    return null;
+  }
+  const parsed = parseFloat(rawValue);
+  return isNaN(parsed) ? null : parsed;
+}
+
+/**
+ * Status a value note or time label implies, in Finnish, Swedish, Norwegian,
+ * Icelandic or English: preliminary, estimated or a break in series
+ */
+export function pxwebNoteStatus(text: string | undefined): ObservationStatus | null {
+  if (!text) return null;
+  if (/aikasarjakatko|tidsseriebrott|brudd i tidsserie|break in (the )?series/i.test(text)) return "B";
+  if (/ennakko|preliminär|foreløpig|bráðabirgða|preliminary|provisional/i.test(text)) return "P";
+  if (/arvio|ennuste|uppskattning|estimat|áætl|estimate|forecast/i.test(text)) return "E";
+  return null;
+}
+
+/**
+ * Split a PxWeb response into one slice per combination of non-time values.
+ * Keys follow the response's non-contents columns (eliminated variables are absent);
+ * several contents columns each become a slice of their own.
+ */
+export function splitPxWebIntoSeries(data: PxWebDataResponse, metadata: PxWebMetadata): PxWebSeriesSlice[] {
+  if (!data.data || !Array.isArray(data.data)) {
+    console.log("No data array in PxWeb response");
+    return [];
+  }
+
+  const variablesByCode = new Map(metadata.variables.map((v) => [v.code, v]));
+  const keyVariables: PxWebVariable[] = data.columns
+    ? data.columns
+        .filter((c) => c.type !== 'c')
+        .map((c) => variablesByCode.get(c.code) || { code: c.code, text: c.text, values: [], valueTexts: [], time: c.type === 't' })
+    : metadata.variables;
+  const timeIndex = data.columns
+    ? data.columns.filter((c) => c.type !== 'c').findIndex((c) => c.type === 't')
+    : findTimeVariable(keyVariables).index;
+  console.log(`Time variable found at index ${timeIndex}:`, keyVariables[timeIndex]?.code);
+  const timePosition = timeIndex >= 0 ? timeIndex : 0;
+
+  // Each contents column is a value of the contents variable, e.g. Tiedot=tasmcp
+  const contentColumns = (data.columns || []).filter((c) => c.type === 'c');
+  const keyCodes = new Set(keyVariables.map((v) => v.code));
+  const contentsVariable = metadata.variables.find(
+    (v) => !keyCodes.has(v.code) && contentColumns.some((c) => v.values.includes(c.code))
+  );
+
+  const labelOf = (variable: PxWebVariable, value: string) =>
+    variable.valueTexts?.[variable.values.indexOf(value)] || value;
+
+  // Notes on time periods apply to one date; notes on other values to every series selecting them
+  const timeVariable = keyVariables[timePosition];
+  const timeNotes = new Map<string, string[]>();
+  const valueNotes: PxWebComment[] = [];
+  for (const comment of data.comments || []) {
+    if (!comment?.comment) continue;
+    if (comment.variable === timeVariable?.code) {
+      timeNotes.set(comment.value, [...(timeNotes.get(comment.value) || []), comment.comment]);
+    } else {
+      valueNotes.push(comment);
+    }
+  }
+  const timeStatus = (timeKey: string): ObservationStatus | null =>
+    pxwebNoteStatus(timeVariable ? labelOf(timeVariable, timeKey) : undefined) ??
+    (timeNotes.get(timeKey) || []).map(pxwebNoteStatus).find((status) => status !== null) ??
+    null;
+
+  const slices = new Map<string, PxWebSeriesSlice>();
+  const seenDates = new Map<string, Set<string>>();
+
+  data.data.forEach((item) => {
+    if (!item.key || !item.values || item.values.length === 0) return;
+
+    // Get time value from the key at timeIndex, or assume first key is time
+    const timeKey = item.key[timePosition];
+    const date = normalizeTimeToISO(timeKey);
+    if (!date) {
+      console.warn("Could not parse date from:", timeKey);
+      return;
+    }
+
+    const selection: Record<string, string> = {};
+    const labels: Record<string, string> = {};
+    item.key.forEach((value, i) => {
+      const variable = keyVariables[i];
+      if (!variable || i === timePosition) return;
+      selection[variable.code] = value;
+      labels[variable.code] = labelOf(variable, value);
+    });
+
+    item.values.forEach((rawValue, j) => {
+      const column = contentColumns[j];
+      const sliceSelection = { ...selection };
+      const sliceLabels = { ...labels };
+      // A single contents column joins the selection only when its variable is known,
+      // so the selection stays a valid query for refreshes
+      if (column && (contentColumns.length > 1 || contentsVariable)) {
+        const code = contentsVariable?.code || 'ContentsCode';
+        sliceSelection[code] = column.code;
+        sliceLabels[code] = column.text;
+      }
+
+      const sliceKey = Object.entries(sliceSelection)
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([, v]) => v)
+        .join('|');
+
+      if (!slices.has(sliceKey)) {
+        const footnotes = valueNotes
+          .filter((note) =>
+            selection[note.variable] === note.value ||
+            (note.variable === contentsVariable?.code && note.value === column?.code)
+          )
+          .map((note) => ({ date: null, footnote: note.comment }));
+        slices.set(sliceKey, { selection: sliceSelection, labels: sliceLabels, unit: column?.unit || null, observations: [], footnotes });
+        seenDates.set(sliceKey, new Set());
+      }
+
+      // Keep the first value if a date repeats within one combination
+      const dates = seenDates.get(sliceKey)!;
+      if (dates.has(date)) return;
+      dates.add(date);
+      const slice = slices.get(sliceKey)!;
+      slice.observations.push({ date, value: parsePxWebValue(rawValue), status: timeStatus(timeKey) });
+      for (const footnote of timeNotes.get(timeKey) || []) {
+        slice.footnotes.push({ date, footnote });
+      }
+    });
+  });
+
+  const result = Array.from(slices.values());
+  console.log(`Split ${data.data.length} items into ${result.length} series`);
+  return result;
+}
+
+/**
+ * provider_id of one series of a table: the table path followed by the selected value
+ * of every non-time variable, e.g. "StatFin/vaerak/statfin_vaerak_pxt_11ra.px/Alue=SSS;Tiedot=vaesto".
+ * Series from one table differ in their selection, so each gets its own provider_id.
+ */
+export function pxwebProviderId(tablePath: string, selection: Record<string, string>): string {
+  const key = Object.entries(selection)
+    .sort(([a], [b]) => a.localeCompare(b))
+    .map(([code, value]) => `${code}=${value}`)
+    .join(";");
+  return key ? `${tablePath}/${key}` : tablePath;
+}
+
+export interface PxWebIngestTarget {
+  slice: PxWebSeriesSlice | undefined;
+  seriesId: string;
+  providerId: string;
+  title: string;
+  /** Query narrowed to this series, stored in ingest_params so refreshes re-create it */
+  query: PxWebQuery;
+}
+
+/**
+ * Warehouse series to write for a PxWeb response. A single series keeps the requested
+ * id, title and query; several series fan out into one row each, with the varying
+ * value codes appended to the id and their labels to the title.
+ */
+export function pxwebIngestTargets(
+  slices: PxWebSeriesSlice[],
+  request: { tablePath: string; seriesId: string; title: string; query: PxWebQuery },
+): PxWebIngestTarget[] {
+  const { tablePath, seriesId, title, query } = request;
+  if (slices.length <= 1) {
+    const providerId = pxwebProviderId(tablePath, slices[0]?.selection || {});
+    return [{ slice: slices[0], seriesId, providerId, title, query }];
+  }
+
+  const varying = new Set<string>();
+  for (const slice of slices) {
+    for (const [code, value] of Object.entries(slice.selection)) {
+      if (slices.some((other) => other.selection[code] !== value)) varying.add(code);
+    }
+  }
+
+  return slices.map((slice) => {
+    const codes = Object.keys(slice.selection).filter((code) => varying.has(code));
+    const narrowed = (query.query || []).filter((item) => !(item.code in slice.selection));
+    for (const [code, value] of Object.entries(slice.selection)) {
+      narrowed.push({ code, selection: { filter: "item", values: [value] } });
+    }
+
+    return {
+      slice,
+      seriesId: `${seriesId}_${codes.map((code) => slice.selection[code].replace(/[^A-Za-z0-9]+/g, "_")).join("_")}`,
+      providerId: pxwebProviderId(tablePath, slice.selection),
+      title: `${title}: ${codes.map((code) => slice.labels[code]).join(", ")}`,
+      query: { ...query, query: narrowed },
+    };
+  });
+}
+
+/**
+ * provider_id is unique per source, so refuse an ingest before it writes anything when one
+ * of its selections is already stored under a different series id
+ */
+export async function assertPxWebProviderIdsFree(
+  supabase: SupabaseClient,
+  source: string,
+  targets: PxWebIngestTarget[],
+): Promise<void> {
+  const rows: { id: string; provider_id: string }[] = [];
+  for (const chunk of chunkIds(targets.map((t) => t.providerId))) {
+    const { data, error } = await supabase
+      .from("series")
+      .select("id, provider_id")
+      .eq("source", source)
+      .in("provider_id", chunk);
+    if (error) throw error;
+    rows.push(...(data || []));
+  }
+
+  const taken = rows.find((row) =>
+    targets.some((t) => t.providerId === row.provider_id && t.seriesId !== row.id)
+  );
+  if (taken) {
+    throw new Error(`${taken.provider_id} is already stored as series ${taken.id}; ingest it with seriesId=${taken.id} to update it`);
+  }
+}
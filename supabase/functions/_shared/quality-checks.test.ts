@@ -0,0 +1,66 @@
+import { describe, expect, it } from "vitest";
+import { checkSeriesQuality, qualityStatus, type QualityObservation } from "./quality-checks.ts";
+
+const now = new Date("2024-11-15T00:00:00Z");
+const monthly = { id: "TEST_M", freq: "M" };
+
+function months(values: (number | null)[], start = 2024): QualityObservation[] {
+  return values.map((value, i) => ({
+    date: `${start + Math.floor(i / 12)}-${String((i % 12) + 1).padStart(2, "0")}-01`,
+    value,
+  }));
+}
+
+const checks = (observations: QualityObservation[], series = monthly) =>
+  checkSeriesQuality(series, observations, now).map((f) => f.check);
+
+describe("checkSeriesQuality", () => {
+  it("reports series without values as errors", () => {
+    expect(checkSeriesQuality(monthly, [], now)).toMatchObject([{ check: "no_data", severity: "error" }]);
+    expect(checkSeriesQuality(monthly, months([null, null]), now)).toMatchObject([{ check: "all_null", severity: "error" }]);
+  });
+
+  it("reports periods missing between the first and last observation", () => {
+    const observations = months([1, 2, 3, 4]).filter((o) => o.date !== "2024-02-01");
+    const [finding] = checkSeriesQuality(monthly, observations, now);
+
+    expect(finding).toMatchObject({ check: "missing_periods", details: { count: 1, periods: ["2024-02"] } });
+  });
+
+  it("reports a jump by orders of magnitude as an outlier", () => {
+    const observations = months([1.0, 1.1, 1.2, 1.1, 1.0, 1.2, 1.1, 1100, 1.2, 1.1]);
+
+    expect(checks(observations)).toEqual(["outlier"]);
+  });
+
+  it("does not treat moves near zero as unit changes", () => {
+    const observations = months([0.5, 0.25, 0.25, 0.01, 0.01, 0.6, 0.75, 1, 1.25, 1.5]);
+
+    expect(checks(observations)).toEqual([]);
+  });
+
+  it("reports series whose latest value is older than their frequency allows", () => {
+    const annual = { id: "TEST_A", freq: "A" };
+
+    expect(checks([{ date: "2020-01-01", value: 1 }, { date: "2021-01-01", value: 2 }], annual)).toEqual(["stale"]);
+    expect(checks([{ date: "2022-01-01", value: 1 }, { date: "2023-01-01", value: 2 }], annual)).toEqual([]);
+  });
+
+  it("reports long runs of one value as info only", () => {
+    const findings = checkSeriesQuality(monthly, months(Array(12).fill(5)), now);
+
+    expect(findings).toMatchObject([{ check: "duplicate_values", severity: "info", details: { count: 12 } }]);
+    expect(qualityStatus(findings)).toBe("ok");
+  });
+});
+
+describe("qualityStatus", () => {
+  it("takes the most severe warning or error and ignores info", () => {
+    const finding = (severity: "info" | "warning" | "error") => ({ check: "stale" as const, severity, message: "", details: {} });
+
+    expect(qualityStatus([])).toBe("ok");
+    expect(qualityStatus([finding("info")])).toBe("ok");
+    expect(qualityStatus([finding("warning"), finding("info")])).toBe("warning");
+    expect(qualityStatus([finding("warning"), finding("error")])).toBe("error");
+  });
+});
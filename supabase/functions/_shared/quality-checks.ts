@@ -0,0 +1,298 @@
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { IN_FILTER_CHUNK_SIZE, chunkIds } from "./series-store.ts";
+
+export type QualityCheck = "no_data" | "all_null" | "missing_periods" | "outlier" | "stale" | "duplicate_values";
+
+// "info" findings are shown but do not change a series' status
+export type QualitySeverity = "info" | "warning" | "error";
+
+export type QualityStatus = "ok" | Exclude<QualitySeverity, "info">;
+
+export interface QualityFinding {
+  check: QualityCheck;
+  severity: QualitySeverity;
+  message: string;
+  details: Record<string, unknown>;
+}
+
+export interface QualitySeries {
+  id: string;
+  freq: string | null;
+}
+
+export interface QualityObservation {
+  date: string;
+  value: number | null;
+}
+
+export interface QualityResult {
+  seriesId: string;
+  status: QualityStatus;
+  findings: QualityFinding[];
+}
+
+// Months between periods for frequencies whose periods can be enumerated
+const PERIOD_MONTHS: Record<string, number> = { M: 1, Q: 3, S: 6, SA: 6, H: 6, A: 12 };
+
+// A series is stale once its latest observation is older than this many days
+const STALE_AFTER_DAYS: Record<string, number> = {
+  D: 14,
+  B: 14,
+  W: 35,
+  BW: 45,
+  M: 120,
+  Q: 240,
+  S: 400,
+  SA: 400,
+  H: 400,
+  A: 730,
+};
+
+// Robust z-score above which a period-over-period change is reported
+const OUTLIER_Z_THRESHOLD = 10;
+
+// A change by this factor or more in either direction suggests a unit change
+const UNIT_CHANGE_RATIO = 50;
+
+// The ratio test only compares values at least this share of the series' median absolute
+// value, so moves near zero (a policy rate going from 0.01 to 0.6) are not unit changes
+const UNIT_CHANGE_MIN_SHARE = 0.1;
+
+// Identical consecutive values reported as a possibly stuck series
+const DUPLICATE_RUN_MIN = 12;
+
+// Dates listed in a finding's details
+const MAX_LISTED_DATES = 20;
+
+const SEVERITY_ORDER: QualityStatus[] = ["ok", "warning", "error"];
+
+function addMonths(date: string, months: number): string {
+  const [year, month] = date.split("-").map(Number);
+  const index = year * 12 + (month - 1) + months;
+  return `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, "0")}`;
+}
+
+function daysBetween(a: string, b: string | Date): number {
+  return (new Date(b).getTime() - new Date(a).getTime()) / 86400000;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/**
+ * Periods between the first and last observation with no row, for frequencies with fixed periods
+ */
+function checkMissingPeriods(freq: string | null, dates: string[]): QualityFinding | null {
+  const step = freq ? PERIOD_MONTHS[freq] : undefined;
+  if (!step || dates.length < 2) return null;
+
+  const present = new Set(dates.map((d) => d.slice(0, 7)));
+  const last = dates[dates.length - 1].slice(0, 7);
+  const missing: string[] = [];
+  for (let period = dates[0].slice(0, 7); period < last; period = addMonths(`${period}-01`, step)) {
+    if (!present.has(period)) missing.push(period);
+  }
+  if (missing.length === 0) return null;
+
+  return {
+    check: "missing_periods",
+    severity: "warning",
+    message: `${missing.length} missing ${missing.length === 1 ? "period" : "periods"} between ${dates[0]} and ${dates[dates.length - 1]}`,
+    details: { count: missing.length, periods: missing.slice(0, MAX_LISTED_DATES) },
+  };
+}
+
+/**
+ * Period-over-period changes far outside the series' usual changes, measured by median absolute deviation
+ */
+function checkOutliers(observations: QualityObservation[]): QualityFinding | null {
+  const valued = observations.filter((o): o is { date: string; value: number } => o.value !== null);
+  if (valued.length < 8) return null;
+
+  const changes = valued.slice(1).map((o, i) => ({ date: o.date, previous: valued[i].value, value: o.value, diff: o.value - valued[i].value }));
+  const center = median(changes.map((c) => c.diff));
+  const mad = median(changes.map((c) => Math.abs(c.diff - center)));
+  const floor = UNIT_CHANGE_MIN_SHARE * median(valued.map((o) => Math.abs(o.value)));
+
+  const flagged = changes.filter((c) => {
+    const comparable = floor > 0 && Math.abs(c.previous) >= floor && Math.abs(c.value) >= floor;
+    const ratio = comparable ? Math.abs(c.value / c.previous) : 1;
+    if (ratio >= UNIT_CHANGE_RATIO || ratio <= 1 / UNIT_CHANGE_RATIO) return true;
+    return mad > 0 && (0.6745 * Math.abs(c.diff - center)) / mad > OUTLIER_Z_THRESHOLD;
+  });
+  if (flagged.length === 0) return null;
+
+  return {
+    check: "outlier",
+    severity: "warning",
+    message: `${flagged.length} sudden ${flagged.length === 1 ? "jump" : "jumps"}, possibly a unit change or bad value (first on ${flagged[0].date})`,
+    details: {
+      count: flagged.length,
+      jumps: flagged.slice(0, MAX_LISTED_DATES).map((c) => ({ date: c.date, previous: c.previous, value: c.value })),
+    },
+  };
+}
+
+function checkStale(freq: string | null, lastDate: string, now: Date): QualityFinding | null {
+  const limit = STALE_AFTER_DAYS[freq || ""] ?? STALE_AFTER_DAYS.A;
+  const age = Math.floor(daysBetween(lastDate, now));
+  if (age <= limit) return null;
+
+  return {
+    check: "stale",
+    severity: "warning",
+    message: `Latest observation is from ${lastDate}, ${Math.floor(age / 30)} months ago`,
+    details: { lastDate, ageDays: age, limitDays: limit },
+  };
+}
+
+/**
+ * Longest run of identical consecutive values, as left by a stuck feed or a mis-joined query
+ */
+function checkDuplicateValues(observations: QualityObservation[]): QualityFinding | null {
+  let best = { start: 0, length: 0 };
+  let start = 0;
+  for (let i = 1; i <= observations.length; i++) {
+    const same = i < observations.length && observations[i].value !== null && observations[i].value === observations[start].value;
+    if (same) continue;
+    if (i - start > best.length) best = { start, length: i - start };
+    start = i;
+  }
+  if (best.length < DUPLICATE_RUN_MIN || observations[best.start].value === null) return null;
+
+  const from = observations[best.start];
+  const to = observations[best.start + best.length - 1];
+  return {
+    check: "duplicate_values",
+    severity: "info",
+    message: `Value ${from.value} repeats for ${best.length} consecutive periods (${from.date} to ${to.date})`,
+    details: { value: from.value, count: best.length, from: from.date, to: to.date },
+  };
+}
+
+/**
+ * Findings for one series; observations must be sorted by date
+ */
+export function checkSeriesQuality(
+  series: QualitySeries,
+  observations: QualityObservation[],
+  now: Date = new Date(),
+): QualityFinding[] {
+  if (observations.length === 0) {
+    return [{ check: "no_data", severity: "error", message: "Series has no observations", details: {} }];
+  }
+
+  const nonNull = observations.filter((o) => o.value !== null);
+  if (nonNull.length === 0) {
+    return [{
+      check: "all_null",
+      severity: "error",
+      message: `All ${observations.length} observations are empty; the provider's missing-value markers may have been ingested`,
+      details: { count: observations.length },
+    }];
+  }
+
+  return [
+    checkMissingPeriods(series.freq, observations.map((o) => o.date)),
+    checkOutliers(observations),
+    checkStale(series.freq, nonNull[nonNull.length - 1].date, now),
+    checkDuplicateValues(observations),
+  ].filter((f): f is QualityFinding => f !== null);
+}
+
+/**
+ * Most severe warning or error, or "ok" when there are only info findings
+ */
+export function qualityStatus(findings: QualityFinding[]): QualityStatus {
+  return findings.reduce<QualityStatus>(
+    (worst, f) =>
+      f.severity !== "info" && SEVERITY_ORDER.indexOf(f.severity) > SEVERITY_ORDER.indexOf(worst) ? f.severity : worst,
+    "ok",
+  );
+}
+
+async function loadObservations(supabase: SupabaseClient, seriesIds: string[]) {
+  const bySeries = new Map<string, QualityObservation[]>(seriesIds.map((id) => [id, []]));
+  const pageSize = 1000;
+
+  for (let from = 0; ; from += pageSize) {
+    const { data, error } = await supabase
+      .from("observations")
+      .select("series_id, date, value")
+      .in("series_id", seriesIds)
+      .order("series_id")
+      .order("date")
+      .range(from, from + pageSize - 1);
+    if (error) throw error;
+
+    for (const row of data || []) {
+      bySeries.get(row.series_id)?.push({ date: row.date, value: row.value });
+    }
+    if (!data || data.length < pageSize) break;
+  }
+
+  return bySeries;
+}
+
+/**
+ * Check the given series and replace their stored findings and status
+ */
+export async function runQualityChecks(supabase: SupabaseClient, seriesIds: string[]): Promise<QualityResult[]> {
+  if (seriesIds.length === 0) return [];
+  // Every lookup below filters with .in(), so large ingests are checked a chunk at a time
+  if (seriesIds.length > IN_FILTER_CHUNK_SIZE) {
+    const results: QualityResult[] = [];
+    for (const chunk of chunkIds(seriesIds)) {
+      results.push(...await runQualityChecks(supabase, chunk));
+    }
+    return results;
+  }
+
+  const { data: series, error: seriesError } = await supabase
+    .from("series")
+    .select("id, freq")
+    .in("id", seriesIds);
+  if (seriesError) throw seriesError;
+
+  const ids = (series as QualitySeries[] || []).map((s) => s.id);
+  const observations = await loadObservations(supabase, ids);
+  const checkedAt = new Date();
+
+  const results = (series as QualitySeries[] || []).map((s) => {
+    const findings = checkSeriesQuality(s, observations.get(s.id) || [], checkedAt);
+    return { seriesId: s.id, status: qualityStatus(findings), findings };
+  });
+
+  const { error: deleteError } = await supabase.from("series_quality_findings").delete().in("series_id", ids);
+  if (deleteError) throw deleteError;
+
+  const findingRows = results.flatMap((r) =>
+    r.findings.map((f) => ({
+      series_id: r.seriesId,
+      check_type: f.check,
+      severity: f.severity,
+      message: f.message,
+      details: f.details,
+      detected_at: checkedAt.toISOString(),
+    }))
+  );
+  if (findingRows.length > 0) {
+    const { error: insertError } = await supabase.from("series_quality_findings").insert(findingRows);
+    if (insertError) throw insertError;
+  }
+
+  const { error: statusError } = await supabase.from("series_quality_status").upsert(
+    results.map((r) => ({
+      series_id: r.seriesId,
+      status: r.status,
+      finding_count: r.findings.filter((f) => f.severity !== "info").length,
+      checked_at: checkedAt.toISOString(),
+    })),
+  );
+  if (statusError) throw statusError;
+
+  return results;
+}
@@ -0,0 +1,135 @@
+import { describe, expect, it } from "vitest";
+import {
+  assertSdmxFanOut,
+  parseSdmxJson,
+  sdmxIngestTargets,
+  sdmxKeyIsPartial,
+  sdmxObservationStatus,
+  sdmxPeriodToDate,
+  sdmxSeriesMetadata,
+  type SdmxJsonMessage,
+  type SdmxSeries,
+} from "./sdmx-json.ts";
+
+const message: SdmxJsonMessage = {
+  data: {
+    structure: {
+      dimensions: {
+        series: [
+          { id: "FREQ", values: [{ id: "M", name: "Monthly" }] },
+          { id: "CURRENCY", values: [{ id: "USD", name: "US dollar" }, { id: "JPY", name: "Japanese yen" }] },
+        ],
+        observation: [{ id: "TIME_PERIOD", values: [{ id: "2024-01" }, { id: "2024-02" }] }],
+      },
+      attributes: {
+        observation: [{ id: "OBS_STATUS", values: [{ id: "A" }, { id: "P" }] }],
+      },
+    },
+    dataSets: [{
+      series: {
+        "0:0": { observations: { "0": [1.1, 0], "1": [1.2, 1] } },
+        "0:1": { observations: { "0": [150, 0] } },
+      },
+    }],
+  },
+};
+
+const request = { idPrefix: "ECB", flowId: "EXR", key: "M.", seriesId: "ECB_EXR_M_", title: "Rates" };
+
+function series(dimensions: Record<string, string>, attributes: Record<string, string> = {}): SdmxSeries {
+  return {
+    key: Object.values(dimensions).join("."),
+    dimensions: Object.fromEntries(Object.entries(dimensions).map(([id, code]) => [id, { id: code, name: code }])),
+    attributes,
+    observations: [],
+  };
+}
+
+describe("sdmxPeriodToDate", () => {
+  it("gives the first day of the period", () => {
+    expect(sdmxPeriodToDate("2024")).toBe("2024-01-01");
+    expect(sdmxPeriodToDate("2024-S2")).toBe("2024-07-01");
+    expect(sdmxPeriodToDate("2024-Q2")).toBe("2024-04-01");
+    expect(sdmxPeriodToDate("2024Q2")).toBe("2024-04-01");
+    expect(sdmxPeriodToDate("2024-03")).toBe("2024-03-01");
+    expect(sdmxPeriodToDate("2024-W01")).toBe("2024-01-01");
+    expect(sdmxPeriodToDate("2024-03-15")).toBe("2024-03-15");
+  });
+
+  it("gives null for unknown formats", () => {
+    expect(sdmxPeriodToDate("2024-X1")).toBeNull();
+  });
+});
+
+describe("parseSdmxJson", () => {
+  it("decodes series keys, observations and their statuses", () => {
+    const parsed = parseSdmxJson(message);
+
+    expect(parsed.map((s) => s.key)).toEqual(["M.USD", "M.JPY"]);
+    expect(parsed[0].dimensions.CURRENCY).toEqual({ id: "USD", name: "US dollar" });
+    expect(parsed[0].observations.map((o) => [o.date, o.value])).toEqual([["2024-01-01", 1.1], ["2024-02-01", 1.2]]);
+    expect(parsed[0].observations.map(sdmxObservationStatus)).toEqual([null, "P"]);
+  });
+});
+
+describe("sdmxIngestTargets", () => {
+  it("fans several series out into one target each", () => {
+    const targets = sdmxIngestTargets(parseSdmxJson(message), request);
+
+    expect(targets.map(({ seriesId, providerId, title }) => ({ seriesId, providerId, title }))).toEqual([
+      { seriesId: "ECB_EXR_M_USD", providerId: "EXR/M.USD", title: "Rates: US dollar" },
+      { seriesId: "ECB_EXR_M_JPY", providerId: "EXR/M.JPY", title: "Rates: Japanese yen" },
+    ]);
+  });
+
+  it("keeps the requested id and key for a single series", () => {
+    const [single] = parseSdmxJson(message);
+    const targets = sdmxIngestTargets([single], { ...request, key: "M.USD", seriesId: "ECB_USD", providerFlowId: "ECB,EXR,1.0" });
+
+    expect(targets).toEqual([{ series: single, seriesId: "ECB_USD", providerId: "ECB,EXR,1.0/M.USD", title: "Rates" }]);
+  });
+});
+
+describe("sdmxSeriesMetadata", () => {
+  it("reads the currency of amounts from the unit", () => {
+    expect(sdmxSeriesMetadata(series({ unit: "MIO_EUR" })).currency).toBe("EUR");
+    expect(sdmxSeriesMetadata(series({}, { UNIT_MEASURE: "USD_EXC" })).currency).toBe("USD");
+  });
+
+  it("gives no currency for percentages, indices and exchange rates", () => {
+    expect(sdmxSeriesMetadata(series({ unit: "PC_GDP" })).currency).toBeNull();
+    expect(sdmxSeriesMetadata(series({ unit: "I15" })).currency).toBeNull();
+    expect(sdmxSeriesMetadata(series({ CURRENCY: "USD", CURRENCY_DENOM: "EUR" }, { UNIT: "USD" })).currency).toBeNull();
+  });
+
+  it("reads the unit multiplier", () => {
+    expect(sdmxSeriesMetadata(series({}, { UNIT_MULT: "6" })).unitMultiplier).toBe(6);
+    expect(sdmxSeriesMetadata(undefined)).toEqual({
+      seasonalAdjustment: null,
+      unit: null,
+      unitMultiplier: null,
+      currency: null,
+    });
+  });
+});
+
+describe("sdmxKeyIsPartial", () => {
+  it("detects keys that can match several series", () => {
+    expect(sdmxKeyIsPartial("all")).toBe(true);
+    expect(sdmxKeyIsPartial("M..EUR")).toBe(true);
+    expect(sdmxKeyIsPartial("M.USD+JPY.EUR")).toBe(true);
+    expect(sdmxKeyIsPartial("M.USD.EUR.SP00.A")).toBe(false);
+  });
+});
+
+describe("assertSdmxFanOut", () => {
+  it("allows one series, or several once confirmed", () => {
+    expect(() => assertSdmxFanOut(1, "M.USD", false)).not.toThrow();
+    expect(() => assertSdmxFanOut(2, "M.", true)).not.toThrow();
+  });
+
+  it("rejects unconfirmed and oversized fan-outs", () => {
+    expect(() => assertSdmxFanOut(2, "M.", false)).toThrow(/confirm/);
+    expect(() => assertSdmxFanOut(201, "M.", true)).toThrow(/at most 200/);
+  });
+});
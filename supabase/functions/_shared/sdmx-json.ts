@@ -0,0 +1,529 @@
+// Decoding of SDMX-JSON data messages (ECB, Eurostat and OECD)
+
+import { normalizeObservationStatus, type ObservationFootnote, type ObservationStatus } from "./observation-flags.ts";
+
+interface SdmxValue {
+  id: string;
+  name?: string;
+  names?: Record<string, string>;
+}
+
+interface SdmxComponent {
+  id: string;
+  name?: string;
+  names?: Record<string, string>;
+  role?: string | string[];
+  keyPosition?: number;
+  values: SdmxValue[];
+}
+
+type SdmxObservationValues = (number | string | null)[];
+
+interface SdmxDataSetSeries {
+  attributes?: (number | null)[];
+  observations?: Record<string, SdmxObservationValues>;
+}
+
+interface SdmxStructure {
+  dimensions?: {
+    series?: SdmxComponent[];
+    observation?: SdmxComponent[];
+  };
+  attributes?: {
+    series?: SdmxComponent[];
+    observation?: SdmxComponent[];
+  };
+}
+
+export interface SdmxJsonMessage {
+  data?: SdmxJsonMessage;
+  dataSets?: {
+    series?: Record<string, SdmxDataSetSeries>;
+    observations?: Record<string, SdmxObservationValues>;
+  }[];
+  structure?: SdmxStructure;
+  structures?: SdmxStructure[];
+}
+
+export interface SdmxCode {
+  id: string;
+  name: string;
+}
+
+interface SdmxStructureItem {
+  id: string;
+  name?: string;
+  names?: Record<string, string>;
+}
+
+interface SdmxStructureDimension {
+  id: string;
+  position?: number;
+  conceptIdentity?: string;
+  localRepresentation?: { enumeration?: string };
+}
+
+export interface SdmxStructureMessage {
+  data?: SdmxStructureMessage;
+  dataStructures?: {
+    id: string;
+    dataStructureComponents?: {
+      dimensionList?: { dimensions?: SdmxStructureDimension[] };
+    };
+  }[];
+  codelists?: (SdmxStructureItem & { codes?: SdmxStructureItem[] })[];
+  conceptSchemes?: (SdmxStructureItem & { concepts?: SdmxStructureItem[] })[];
+}
+
+export interface SdmxDimensionDefinition {
+  id: string;
+  name: string;
+  /** Position of the dimension in a series key, as declared by the data structure */
+  position: number;
+  codes: SdmxCode[];
+}
+
+export interface SdmxObservation {
+  /** Period as published, e.g. "2024-Q1" */
+  period: string;
+  /** First day of the period (YYYY-MM-DD), or null for unrecognised formats */
+  date: string | null;
+  value: number | null;
+  attributes: Record<string, string>;
+}
+
+export interface SdmxSeries {
+  /** Dot-separated dimension codes in key order, e.g. "M.USD.EUR.SP00.A" */
+  key: string;
+  dimensions: Record<string, SdmxCode>;
+  attributes: Record<string, string>;
+  observations: SdmxObservation[];
+}
+
+const TIME_DIMENSION_ID = "TIME_PERIOD";
+
+function componentName(item: { id: string; name?: string; names?: Record<string, string> }): string {
+  return item.name || item.names?.en || item.id;
+}
+
+function isTimeDimension(dimension: SdmxComponent): boolean {
+  const roles = Array.isArray(dimension.role) ? dimension.role : [dimension.role];
+  return dimension.id === TIME_DIMENSION_ID || roles.includes("time");
+}
+
+function toNumber(raw: number | string | null | undefined): number | null {
+  if (raw === null || raw === undefined || raw === "") return null;
+  const value = typeof raw === "number" ? raw : parseFloat(raw);
+  return Number.isFinite(value) ? value : null;
+}
+
+/**
+ * Resolve attribute value indices against their attribute definitions.
+ * Attributes that are absent (null index) are left out. Coded attributes resolve
+ * to their code; free-text ones such as OBS_COM have no id and resolve to their text.
+ */
+function resolveAttributes(
+  definitions: SdmxComponent[],
+  indices: (number | string | null | undefined)[],
+): Record<string, string> {
+  const attributes: Record<string, string> = {};
+  definitions.forEach((definition, i) => {
+    const index = indices[i];
+    if (index === null || index === undefined) return;
+    const value = definition.values[Number(index)];
+    if (value) attributes[definition.id] = value.id || value.name || value.names?.en || "";
+  });
+  return attributes;
+}
+
+function isoWeekStart(year: number, week: number): Date {
+  const jan4 = new Date(Date.UTC(year, 0, 4));
+  const mondayOffset = (jan4.getUTCDay() + 6) % 7;
+  return new Date(Date.UTC(year, 0, 4 - mondayOffset + (week - 1) * 7));
+}
+
+/**
+ * Convert an SDMX time period to the first day of that period.
+ * Handles years, semesters, quarters, months, ISO weeks and days, with or without
+ * the dash ("2024-Q1" and "2024Q1"). Returns null for formats it does not know.
+ */
+export function sdmxPeriodToDate(period: string): string | null {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  let match: RegExpMatchArray | null;
+
+  if ((match = period.match(/^(\d{4})(?:-A1)?$/))) {
+    return `${match[1]}-01-01`;
+  }
+  if ((match = period.match(/^(\d{4})-?S([12])$/))) {
+    return `${match[1]}-${pad((parseInt(match[2]) - 1) * 6 + 1)}-01`;
+  }
+  if ((match = period.match(/^(\d{4})-?Q([1-4])$/))) {
+    return `${match[1]}-${pad((parseInt(match[2]) - 1) * 3 + 1)}-01`;
+  }
+  if ((match = period.match(/^(\d{4})-?M?(\d{2})$/))) {
+    return `${match[1]}-${match[2]}-01`;
+  }
+  if ((match = period.match(/^(\d{4})-?W(\d{2})$/))) {
+    return isoWeekStart(parseInt(match[1]), parseInt(match[2])).toISOString().split("T")[0];
+  }
+  if ((match = period.match(/^(\d{4}-\d{2}-\d{2})(?:T.*)?$/))) {
+    return match[1];
+  }
+  return null;
+}
+
+/**
+ * Decode every series in an SDMX-JSON data message.
+ * Series keys are resolved into dimension codes and labels, and series and
+ * observation attributes are resolved into their codes. Both the series layout
+ * and the flat AllDimensions layout are supported.
+ */
+export function parseSdmxJson(message: SdmxJsonMessage): SdmxSeries[] {
+  // ECB and OECD wrap the message in "data"; Eurostat does not
+  const root = message?.data ?? message;
+  const structure = root?.structure ?? root?.structures?.[0];
+  const dataSet = root?.dataSets?.[0];
+  if (!structure || !dataSet) return [];
+
+  const seriesDimensions = structure.dimensions?.series || [];
+  const observationDimensions = structure.dimensions?.observation || [];
+  const seriesAttributes = structure.attributes?.series || [];
+  const observationAttributes = structure.attributes?.observation || [];
+
+  const decodeObservation = (period: string, values: SdmxObservationValues): SdmxObservation => ({
+    period,
+    date: sdmxPeriodToDate(period),
+    value: toNumber(values[0]),
+    attributes: resolveAttributes(observationAttributes, values.slice(1)),
+  });
+
+  const result: SdmxSeries[] = [];
+
+  if (dataSet.series) {
+    const timeDimension = observationDimensions.find(isTimeDimension) || observationDimensions[0];
+    const timeValues = timeDimension?.values || [];
+
+    for (const [seriesKey, series] of Object.entries(dataSet.series)) {
+      const dimensions: Record<string, SdmxCode> = {};
+      const codes = seriesKey.split(":").map((index, position) => {
+        const dimension = seriesDimensions[position];
+        const value = dimension?.values[parseInt(index)];
+        if (dimension && value) {
+          dimensions[dimension.id] = { id: value.id, name: componentName(value) };
+        }
+        return value?.id ?? "";
+      });
+
+      const observations = Object.entries(series.observations || {})
+        .map(([index, values]) => {
+          const period = timeValues[parseInt(index)]?.id;
+          return period ? decodeObservation(period, values) : null;
+        })
+        .filter((obs): obs is SdmxObservation => obs !== null)
+        .sort((a, b) => a.period.localeCompare(b.period));
+
+      result.push({
+        key: codes.join("."),
+        dimensions,
+        attributes: resolveAttributes(seriesAttributes, series.attributes || []),
+        observations,
+      });
+    }
+    return result;
+  }
+
+  // AllDimensions layout: every dimension, including time, is in the observation key
+  if (dataSet.observations) {
+    const timePosition = Math.max(observationDimensions.findIndex(isTimeDimension), 0);
+    const bySeries = new Map<string, SdmxSeries>();
+
+    for (const [observationKey, values] of Object.entries(dataSet.observations)) {
+      const indices = observationKey.split(":").map((i) => parseInt(i));
+      const period = observationDimensions[timePosition]?.values[indices[timePosition]]?.id;
+      if (!period) continue;
+
+      const dimensions: Record<string, SdmxCode> = {};
+      const codes: string[] = [];
+      observationDimensions.forEach((dimension, position) => {
+        if (position === timePosition) return;
+        const value = dimension.values[indices[position]];
+        if (value) dimensions[dimension.id] = { id: value.id, name: componentName(value) };
+        codes.push(value?.id ?? "");
+      });
+
+      const key = codes.join(".");
+      let series = bySeries.get(key);
+      if (!series) {
+        series = { key, dimensions, attributes: {}, observations: [] };
+        bySeries.set(key, series);
+      }
+      series.observations.push(decodeObservation(period, values));
+    }
+
+    for (const series of bySeries.values()) {
+      series.observations.sort((a, b) => a.period.localeCompare(b.period));
+      result.push(series);
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Frequency code of a series (A, S, Q, M, W, D...). Eurostat uses lowercase dimension ids.
+ */
+export function sdmxFrequency(series: SdmxSeries): string | null {
+  return (series.dimensions.FREQ ?? series.dimensions.freq)?.id ?? null;
+}
+
+// Dimension or attribute ids providers use for seasonal adjustment and unit of measure
+const ADJUSTMENT_IDS = ["ADJUSTMENT", "S_ADJ", "s_adj"];
+const UNIT_IDS = ["UNIT_MEASURE", "UNIT", "unit"];
+
+// Currencies with rates in fx_rates (see fetch-fx)
+const FX_CURRENCIES = ["EUR", "USD", "GBP", "JPY", "CHF", "SEK", "NOK", "DKK", "ISK", "CNY"];
+
+export interface SdmxSeriesMetadata {
+  seasonalAdjustment: string | null;
+  unit: string | null;
+  /** Power of ten from UNIT_MULT, e.g. 6 for millions */
+  unitMultiplier: number | null;
+  /** Currency the values are amounts of, or null for indices, rates, percentages and counts */
+  currency: string | null;
+}
+
+/**
+ * Currency of a unit code such as "EUR" (ECB), "CP_MEUR" or "MIO_EUR" (Eurostat) or
+ * "USD_EXC" (OECD). Percentages, indices and PPP units are not amounts of a currency.
+ */
+function unitCurrency(code: string): string | null {
+  const tokens = code.toUpperCase().split(/[^A-Z0-9]+/);
+  if (tokens.some((token) => /^(PC|PPP|PPS|INX|I\d+$)/.test(token))) return null;
+  for (const token of tokens) {
+    const currency = token.match(/^(?:THS|MIO|MN|BN|M|K)?([A-Z]{3})$/)?.[1];
+    if (currency && FX_CURRENCIES.includes(currency)) return currency;
+  }
+  return null;
+}
+
+/**
+ * Seasonal adjustment, unit, unit multiplier and currency of a series, read from its
+ * key dimensions (with labels) or, failing that, its series attributes (codes).
+ */
+export function sdmxSeriesMetadata(series: SdmxSeries | undefined): SdmxSeriesMetadata {
+  const lookup = (ids: string[]): string | null => {
+    for (const id of ids) {
+      const dimension = series?.dimensions[id];
+      if (dimension) return dimension.name;
+      const attribute = series?.attributes[id];
+      if (attribute) return attribute;
+    }
+    return null;
+  };
+
+  const multiplier = series?.attributes.UNIT_MULT ?? series?.attributes.unit_mult;
+  const unitCode = UNIT_IDS.map((id) => series?.dimensions[id]?.id ?? series?.attributes[id]).find((code) => code);
+  // Exchange rates (ECB EXR) carry the quoted currency as their unit but are ratios
+  const isExchangeRate = series?.dimensions.CURRENCY_DENOM !== undefined;
+  return {
+    seasonalAdjustment: lookup(ADJUSTMENT_IDS),
+    unit: lookup(UNIT_IDS),
+    unitMultiplier: multiplier !== undefined && /^-?\d+$/.test(multiplier) ? parseInt(multiplier) : null,
+    currency: unitCode && !isExchangeRate ? unitCurrency(unitCode) : null,
+  };
+}
+
+// Attribute ids providers use for observation status, confidentiality and comments
+const STATUS_IDS = ["OBS_STATUS", "obs_status", "OBS_FLAG", "obs_flag"];
+const CONFIDENTIALITY_IDS = ["OBS_CONF", "obs_conf", "CONF_STATUS", "conf_status"];
+const OBSERVATION_COMMENT_IDS = ["OBS_COM", "OBS_COMMENT", "COMMENT_OBS", "obs_com"];
+const SERIES_COMMENT_IDS = ["COMMENT_TS", "COMMENT", "comment_ts"];
+
+/**
+ * Status of an observation from its OBS_STATUS (ECB, OECD) or OBS_FLAG (Eurostat)
+ * attribute; a value that is only flagged confidential through OBS_CONF gets "C"
+ */
+export function sdmxObservationStatus(observation: SdmxObservation): ObservationStatus | null {
+  const flag = STATUS_IDS.map((id) => observation.attributes[id]).find((v) => v);
+  const status = normalizeObservationStatus(flag);
+  if (status) return status;
+
+  const confidentiality = CONFIDENTIALITY_IDS.map((id) => observation.attributes[id]).find((v) => v);
+  return confidentiality && !/^(F|free)$/i.test(confidentiality) ? "C" : null;
+}
+
+/**
+ * Series-level and observation-level comment attributes of a series
+ */
+export function sdmxFootnotes(series: SdmxSeries | undefined): ObservationFootnote[] {
+  if (!series) return [];
+  const footnotes: ObservationFootnote[] = [];
+
+  for (const id of SERIES_COMMENT_IDS) {
+    const text = series.attributes[id]?.trim();
+    if (text) footnotes.push({ date: null, footnote: text });
+  }
+  for (const observation of series.observations) {
+    if (!observation.date) continue;
+    for (const id of OBSERVATION_COMMENT_IDS) {
+      const text = observation.attributes[id]?.trim();
+      if (text) footnotes.push({ date: observation.date, footnote: text });
+    }
+  }
+  return footnotes;
+}
+
+/**
+ * Titles for series fanned out from one partial key: the base title followed by
+ * the labels of the dimensions that differ between the series.
+ */
+export function sdmxSeriesTitles(seriesList: SdmxSeries[], baseTitle: string): string[] {
+  const varying = new Set<string>();
+  for (const series of seriesList) {
+    for (const [dimensionId, code] of Object.entries(series.dimensions)) {
+      if (seriesList.some((other) => other.dimensions[dimensionId]?.id !== code.id)) {
+        varying.add(dimensionId);
+      }
+    }
+  }
+
+  return seriesList.map((series) => {
+    const labels = Object.entries(series.dimensions)
+      .filter(([dimensionId]) => varying.has(dimensionId))
+      .map(([, code]) => code.name);
+    return labels.length > 0 ? `${baseTitle}: ${labels.join(", ")}` : baseTitle;
+  });
+}
+
+// Upper bound on series created by one wildcard ingest
+export const SDMX_MAX_FANOUT_SERIES = 200;
+
+/**
+ * Whether a series key can match more than one series: "all", an empty dimension
+ * ("M..EUR") or several values of one ("M.USD+JPY.EUR")
+ */
+export function sdmxKeyIsPartial(key: string): boolean {
+  return key === "all" || key.includes("+") || key.split(".").some((part) => part === "");
+}
+
+/**
+ * Reject an ingest whose key matches more series than one ingest may create,
+ * or several series without the caller's confirmation
+ */
+export function assertSdmxFanOut(seriesCount: number, key: string, confirmed: boolean): void {
+  if (seriesCount > SDMX_MAX_FANOUT_SERIES) {
+    throw new Error(`Key ${key} matches ${seriesCount} series; narrow it to at most ${SDMX_MAX_FANOUT_SERIES}`);
+  }
+  if (seriesCount > 1 && !confirmed) {
+    throw new Error(`Key ${key} matches ${seriesCount} series; preview the key and confirm to create one series per key`);
+  }
+}
+
+export interface SdmxIngestTarget {
+  series: SdmxSeries | undefined;
+  seriesId: string;
+  providerId: string;
+  title: string;
+}
+
+export interface SdmxIngestRequest {
+  idPrefix: string;
+  flowId: string;
+  key: string;
+  seriesId: string;
+  title: string;
+  /** Dataflow reference stored in provider_id when it differs from flowId, e.g. "AGENCY,FLOW,VERSION" */
+  providerFlowId?: string;
+}
+
+/**
+ * Warehouse series to write for an SDMX response. A single series keeps the requested
+ * id, key and title; several series fan out into one row each, with the full key in
+ * provider_id and a title built from the dimension labels.
+ */
+export function sdmxIngestTargets(
+  parsed: SdmxSeries[],
+  request: SdmxIngestRequest,
+): SdmxIngestTarget[] {
+  const { idPrefix, flowId, key, seriesId, title, providerFlowId = flowId } = request;
+  if (parsed.length <= 1) {
+    return [{ series: parsed[0], seriesId, providerId: `${providerFlowId}/${key}`, title }];
+  }
+
+  const titles = sdmxSeriesTitles(parsed, title);
+  return parsed.map((series, i) => ({
+    series,
+    seriesId: `${idPrefix}_${flowId}_${series.key.replace(/\./g, "_")}`,
+    providerId: `${providerFlowId}/${series.key}`,
+    title: titles[i],
+  }));
+}
+
+// Series listed in a preview; the count covers all of them
+const PREVIEW_SERIES_LIMIT = 50;
+
+/**
+ * Summary of what an ingest of this response would create, for confirmation before writing.
+ * Expects a response fetched with lastNObservations=1.
+ */
+export function sdmxIngestPreview(
+  parsed: SdmxSeries[],
+  request: SdmxIngestRequest,
+) {
+  const targets = sdmxIngestTargets(parsed, request);
+  return {
+    seriesCount: parsed.length,
+    maxSeries: SDMX_MAX_FANOUT_SERIES,
+    series: targets.slice(0, PREVIEW_SERIES_LIMIT).map((target) => {
+      const latest = target.series?.observations[target.series.observations.length - 1];
+      return {
+        seriesId: target.seriesId,
+        providerId: target.providerId,
+        title: target.title,
+        latestPeriod: latest?.period ?? null,
+        latestValue: latest?.value ?? null,
+      };
+    }),
+  };
+}
+
+/**
+ * Id of the artefact a URN points to, e.g. "CL_FREQ" for
+ * "urn:sdmx:org.sdmx.infomodel.codelist.Codelist=ECB:CL_FREQ(1.0)", or the trailing
+ * item id for concept URNs ("...ConceptScheme=ECB:ECB_CONCEPTS(1.0).FREQ" gives "FREQ").
+ */
+export function sdmxUrnTarget(urn: string | undefined): { artefactId: string | null; itemId: string | null } {
+  const match = urn?.match(/=[^:]+:([^(]+)\([^)]*\)(?:\.(.+))?$/);
+  return { artefactId: match?.[1] ?? null, itemId: match?.[2] ?? null };
+}
+
+/**
+ * Key dimensions of the first data structure in an SDMX-JSON structure message,
+ * in key order, each with its code list. The time dimension is not part of the key
+ * and is left out.
+ */
+export function parseSdmxStructure(message: SdmxStructureMessage): SdmxDimensionDefinition[] {
+  const root = message?.data ?? message;
+  const dimensions = root?.dataStructures?.[0]?.dataStructureComponents?.dimensionList?.dimensions || [];
+  const codelists = new Map((root?.codelists || []).map((cl) => [cl.id, cl.codes || []]));
+  const concepts = new Map(
+    (root?.conceptSchemes || []).flatMap((scheme) => scheme.concepts || []).map((c) => [c.id, c]),
+  );
+
+  return dimensions
+    .map((dimension, index) => {
+      const codelistId = sdmxUrnTarget(dimension.localRepresentation?.enumeration).artefactId;
+      const conceptId = sdmxUrnTarget(dimension.conceptIdentity).itemId ?? dimension.id;
+      const concept = concepts.get(conceptId);
+      return {
+        id: dimension.id,
+        name: concept ? componentName(concept) : dimension.id,
+        position: dimension.position ?? index,
+        codes: (codelistId ? codelists.get(codelistId) || [] : []).map((code) => ({
+          id: code.id,
+          name: componentName(code),
+        })),
+      };
+    })
+    .sort((a, b) => a.position - b.position);
+}
@@ -0,0 +1,87 @@
+// Batched writes for ingests that store many series from one provider response
+
+import type { SupabaseClient } from "https://esm.sh/@supabase/supabase-js@2";
+import type { ObservationFootnote, ObservationStatus } from "./observation-flags.ts";
+
+// Rows per upsert or insert request
+const WRITE_BATCH_SIZE = 1000;
+
+// Ids per .in() filter; the filter travels in the URL, which long ids would overflow
+export const IN_FILTER_CHUNK_SIZE = 100;
+
+export interface StoredSeries {
+  /** series row, including its id */
+  row: Record<string, unknown> & { id: string };
+  observations: { date: string; value: number | null; status?: ObservationStatus | null }[];
+  /** Footnotes replacing the stored ones; undefined leaves them untouched */
+  footnotes?: ObservationFootnote[];
+}
+
+/**
+ * Split ids into chunks small enough for one .in() filter
+ */
+export function chunkIds(ids: string[], size = IN_FILTER_CHUNK_SIZE): string[][] {
+  const chunks: string[][] = [];
+  for (let i = 0; i < ids.length; i += size) {
+    chunks.push(ids.slice(i, i + size));
+  }
+  return chunks;
+}
+
+async function insertInBatches(
+  supabase: SupabaseClient,
+  table: string,
+  rows: Record<string, unknown>[],
+  onConflict?: string,
+): Promise<void> {
+  for (let i = 0; i < rows.length; i += WRITE_BATCH_SIZE) {
+    const batch = rows.slice(i, i + WRITE_BATCH_SIZE);
+    const { error } = onConflict
+      ? await supabase.from(table).upsert(batch, { onConflict })
+      : await supabase.from(table).insert(batch);
+    if (error) throw error;
+  }
+}
+
+/**
+ * Upsert series with their observations and footnotes, then fill value_eur / value_usd
+ * and the observation ranges. Rows of all series share batches, so the number of
+ * requests grows with the number of rows rather than with the number of series.
+ * Returns the number of observations written.
+ */
+export async function storeSeries(supabase: SupabaseClient, series: StoredSeries[]): Promise<number> {
+  if (series.length === 0) return 0;
+  const ids = series.map((s) => s.row.id);
+
+  await insertInBatches(supabase, "series", series.map((s) => s.row), "id");
+
+  const observations = series.flatMap((s) =>
+    s.observations.map((obs) => ({
+      series_id: s.row.id,
+      date: obs.date,
+      value: obs.value,
+      ...(obs.status !== undefined ? { status: obs.status } : {}),
+    }))
+  );
+  await insertInBatches(supabase, "observations", observations, "series_id,date");
+
+  const withFootnotes = series.filter((s) => s.footnotes !== undefined);
+  for (const chunk of chunkIds(withFootnotes.map((s) => s.row.id))) {
+    const { error } = await supabase.from("observation_footnotes").delete().in("series_id", chunk);
+    if (error) throw error;
+  }
+  const footnotes = withFootnotes.flatMap((s) => {
+    const unique = new Map(s.footnotes!.map((f) => [`${f.date ?? ""}|${f.footnote}`, f]));
+    return Array.from(unique.values()).map((f) => ({ series_id: s.row.id, date: f.date, footnote: f.footnote }));
+  });
+  await insertInBatches(supabase, "observation_footnotes", footnotes);
+
+  const { error: fxError } = await supabase.rpc("apply_fx_conversion_many", { p_series_ids: ids });
+  if (fxError) console.error("FX conversion failed:", fxError);
+
+  const { error: rangeError } = await supabase.rpc("update_series_observation_ranges", { p_series_ids: ids });
+  if (rangeError) console.error("Observation range update failed:", rangeError);
+
+  console.log(`Stored ${observations.length} observations for ${series.length} series`);
+  return observations.length;
+}
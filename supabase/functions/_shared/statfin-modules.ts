@@ -0,0 +1,227 @@
+// StatFin table modules: focused views of single tables described by config (variable
+// roles, default selections, warehouse series and chart layout) that fetch-statfin-module
+// serves and the frontend TableModuleExplorer renders. Add a module to STATFIN_TABLE_MODULES
+// to expose a new table without a new function or component.
+
+import { normalizeTimeToISO, type PxWebMetadata, type PxWebQuery, type PxWebVariable } from "./pxweb.ts";
+import type { JsonStat2Dataset } from "./pxweb-v2.ts";
+
+/**
+ * What a variable contributes to a row: its date parts, the measured quantity, or a
+ * breakdown. "period" is a single time variable with codes such as 2024M01 or 2024Q1.
+ */
+export type TableModuleRole = "year" | "month" | "quarter" | "period" | "measure" | "dimension";
+
+/** Values selected when a request names none: the last or first n values, or all */
+export type TableModuleDefaultSelection = { last: number } | { first: number } | "all";
+
+export interface TableModuleVariable {
+  /** Selection key in requests and rows, e.g. "year" */
+  key: string;
+  /** PxWeb codes the variable is published under; the first found in the table metadata is used */
+  codes: string[];
+  role: TableModuleRole;
+  label: string;
+  defaultSelection: TableModuleDefaultSelection;
+  /** Explorer control: toggle buttons, a checkbox grid or a single-value select */
+  picker: "toggle" | "checkbox" | "select";
+}
+
+export interface TableModuleChartView {
+  id: string;
+  label: string;
+  type: "line" | "bar";
+  /** "period" plots every row, "year" plots the sum of each year's rows */
+  groupBy: "period" | "year";
+}
+
+export interface StatFinTableModule {
+  id: string;
+  title: string;
+  description: string;
+  /** lucide icon name shown next to the title */
+  icon: string;
+  /** v1 table path; the v2 table id is its last segment */
+  tablePath: string;
+  language: string;
+  /**
+   * Variables the explorer offers pickers for. Table variables not listed here are
+   * queried with all their values.
+   */
+  variables: TableModuleVariable[];
+  /**
+   * Warehouse series written by ingest. Selecting several measure or dimension values
+   * writes one series per combination, with the value codes appended to the id.
+   */
+  series: { id: string; title: string; freq: string; unit: string };
+  chart: { valueLabel: string; views: TableModuleChartView[] };
+}
+
+export const STATFIN_TABLE_MODULES: Record<string, StatFinTableModule> = {
+  births: {
+    id: "births",
+    title: "Live births by month",
+    description: "Monthly live births in Finland",
+    icon: "baby",
+    tablePath: "StatFin/synt/statfin_synt_pxt_12dl.px",
+    language: "fi",
+    variables: [
+      { key: "year", codes: ["Vuosi"], role: "year", label: "Years", defaultSelection: { last: 10 }, picker: "toggle" },
+      { key: "month", codes: ["Kuukausi", "Kuun"], role: "month", label: "Months", defaultSelection: "all", picker: "checkbox" },
+      { key: "info", codes: ["Tiedot"], role: "measure", label: "Measure", defaultSelection: { first: 1 }, picker: "select" },
+    ],
+    series: { id: "STATFIN_BIRTHS", title: "Finnish Live Births, Monthly", freq: "M", unit: "Count" },
+    chart: {
+      valueLabel: "Births",
+      views: [
+        { id: "monthly", label: "Monthly", type: "line", groupBy: "period" },
+        { id: "yearly", label: "Yearly", type: "bar", groupBy: "year" },
+      ],
+    },
+  },
+};
+
+/**
+ * Module for a request's module parameter
+ */
+export function getTableModule(id: string | null): StatFinTableModule {
+  const module = id ? STATFIN_TABLE_MODULES[id] : undefined;
+  if (!module) {
+    throw new Error(`Unknown table module ${id}; expected one of ${Object.keys(STATFIN_TABLE_MODULES).join(", ")}`);
+  }
+  return module;
+}
+
+/**
+ * Table variable each module variable maps to, by key; variables missing from the table are left out
+ */
+export function resolveModuleVariables(module: StatFinTableModule, meta: PxWebMetadata): Map<string, PxWebVariable> {
+  const resolved = new Map<string, PxWebVariable>();
+  for (const definition of module.variables) {
+    const variable = definition.codes
+      .map((code) => meta.variables.find((v) => v.code === code))
+      .find((v) => v !== undefined);
+    if (variable) resolved.set(definition.key, variable);
+  }
+  return resolved;
+}
+
+/**
+ * Values of a variable selected by default
+ */
+export function defaultModuleSelection(definition: TableModuleVariable, variable: PxWebVariable): string[] {
+  const selection = definition.defaultSelection;
+  if (selection === "all") return variable.values;
+  if ("last" in selection) return variable.values.slice(-selection.last);
+  return variable.values.slice(0, selection.first);
+}
+
+/**
+ * JSON-stat2 query for a module: requested values per key where given (unknown codes are
+ * dropped), the module default otherwise, and all values of unlisted variables
+ */
+export function buildModuleQuery(
+  module: StatFinTableModule,
+  meta: PxWebMetadata,
+  selections: Record<string, string[] | undefined> = {},
+): PxWebQuery {
+  const resolved = resolveModuleVariables(module, meta);
+  const keyByCode = new Map(Array.from(resolved.entries()).map(([key, variable]) => [variable.code, key]));
+  const query: PxWebQuery["query"] = [];
+
+  for (const variable of meta.variables) {
+    const key = keyByCode.get(variable.code);
+    const definition = module.variables.find((v) => v.key === key);
+    let values = variable.values;
+
+    if (definition) {
+      const requested = selections[definition.key];
+      values = requested && requested.length > 0
+        ? requested.filter((code) => variable.values.includes(code))
+        : defaultModuleSelection(definition, variable);
+    }
+
+    if (values.length > 0) {
+      query.push({ code: variable.code, selection: { filter: "item", values } });
+    }
+  }
+
+  return { query, response: { format: "json-stat2" } };
+}
+
+export interface TableModuleRow {
+  /** ISO date built from the row's year, month, quarter or period codes */
+  date: string;
+  /** Selected code per module variable key */
+  codes: Record<string, string>;
+  /** Label per module variable key */
+  labels: Record<string, string>;
+  value: number | null;
+}
+
+// Trailing month or quarter number of a code such as "1", "01", "M01" or "Q1"
+function trailingNumber(code: string): number | null {
+  const match = code.match(/(\d{1,2})$/);
+  return match ? parseInt(match[1], 10) : null;
+}
+
+function rowDate(module: StatFinTableModule, codes: Record<string, string>): string {
+  const codeFor = (role: TableModuleRole) => {
+    const definition = module.variables.find((v) => v.role === role);
+    return definition ? codes[definition.key] : undefined;
+  };
+
+  const period = codeFor("period");
+  if (period) return normalizeTimeToISO(period);
+
+  const year = codeFor("year");
+  if (!year) return "";
+
+  const month = trailingNumber(codeFor("month") || "");
+  if (month) return `${year}-${String(month).padStart(2, "0")}-01`;
+
+  const quarter = trailingNumber(codeFor("quarter") || "");
+  if (quarter) return `${year}-${String((quarter - 1) * 3 + 1).padStart(2, "0")}-01`;
+
+  return `${year}-01-01`;
+}
+
+/**
+ * One row per cell of a JSON-stat2 dataset, keyed by the module's variable keys
+ */
+export function moduleRows(module: StatFinTableModule, dataset: JsonStat2Dataset): TableModuleRow[] {
+  const keyByCode = new Map<string, string>();
+  for (const definition of module.variables) {
+    const code = definition.codes.find((c) => dataset.id.includes(c));
+    if (code) keyByCode.set(code, definition.key);
+  }
+
+  const dimensions = dataset.id.map((id) => {
+    const dimension = dataset.dimension[id];
+    const index = dimension.category.index;
+    const codes = Object.keys(index).sort((a, b) => index[a] - index[b]);
+    return { key: keyByCode.get(id), codes, labels: dimension.category.label || {} };
+  });
+
+  const values = dataset.value || [];
+  const rows: TableModuleRow[] = [];
+
+  for (let i = 0; i < values.length; i++) {
+    // Decode the flat index, last dimension fastest
+    let remaining = i;
+    const codes: Record<string, string> = {};
+    const labels: Record<string, string> = {};
+    for (let d = dimensions.length - 1; d >= 0; d--) {
+      const { key, codes: dimensionCodes, labels: dimensionLabels } = dimensions[d];
+      const code = dimensionCodes[remaining % dataset.size[d]];
+      remaining = Math.floor(remaining / dataset.size[d]);
+      if (!key) continue;
+      codes[key] = code;
+      labels[key] = dimensionLabels[code] || code;
+    }
+
+    rows.push({ date: rowDate(module, codes), codes, labels, value: values[i] });
+  }
+
+  return rows;
+}
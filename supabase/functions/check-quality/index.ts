@@ -0,0 +1,70 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireRole } from "../_shared/auth.ts";
+import { errorResponse } from "../_shared/http.ts";
+import { runQualityChecks, type QualityResult } from "../_shared/quality-checks.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Series checked per database round trip
+const BATCH_SIZE = 50;
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const action = url.searchParams.get("action");
+    const source = url.searchParams.get("source");
+    const onlySeriesId = url.searchParams.get("seriesId");
+
+    console.log("Quality Check Request:", { action, source, seriesId: onlySeriesId });
+
+    // Re-check every series (or one source / one series) and store the findings
+    if (action === "run") {
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin", "analyst"]);
+
+      let seriesQuery = supabase.from("series").select("id").order("id");
+      if (source) seriesQuery = seriesQuery.eq("source", source);
+      if (onlySeriesId) seriesQuery = seriesQuery.eq("id", onlySeriesId);
+
+      const { data: allSeries, error: seriesError } = await seriesQuery;
+      if (seriesError) throw seriesError;
+
+      const ids = (allSeries || []).map((s: { id: string }) => s.id);
+      const results: QualityResult[] = [];
+      for (let i = 0; i < ids.length; i += BATCH_SIZE) {
+        results.push(...await runQualityChecks(supabase, ids.slice(i, i + BATCH_SIZE)));
+      }
+
+      console.log(`Checked ${results.length} series`);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          checked: results.length,
+          ok: results.filter((r) => r.status === "ok").length,
+          warning: results.filter((r) => r.status === "warning").length,
+          error: results.filter((r) => r.status === "error").length,
+          results: onlySeriesId ? results : undefined,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(JSON.stringify({ error: "Invalid action" }), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in check-quality:", error);
+    return errorResponse(error, corsHeaders);
+  }
+});
@@ -1,4 +1,21 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireRole } from "../_shared/auth.ts";
+import { errorResponse, providerFetch } from "../_shared/http.ts";
+import { startIngestionRun, type IngestionRun } from "../_shared/ingestion-runs.ts";
+import { replaceFootnotes } from "../_shared/observation-flags.ts";
+import { replaceCatalog, searchCatalog, type CatalogEntry } from "../_shared/provider-catalog.ts";
+import {
+  assertSdmxFanOut,
+  parseSdmxJson,
+  parseSdmxStructure,
+  sdmxFootnotes,
+  sdmxFrequency,
+  sdmxIngestPreview,
+  sdmxIngestTargets,
+  sdmxKeyIsPartial,
+  sdmxObservationStatus,
+  sdmxSeriesMetadata,
+} from "../_shared/sdmx-json.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,6 +24,7 @@ const corsHeaders = {
 
 // ECB SDMX REST API
 const ECB_BASE_URL = "https://data-api.ecb.europa.eu/service";
+const ECB_LICENSE = "ECB statistics reuse policy (free reuse with attribution)";
 
 interface ECBDataflow {
   id: string;
@@ -14,9 +32,22 @@ interface ECBDataflow {
   agencyID: string;
 }
 
-interface ECBObservation {
-  date: string;
-  value: number | null;
+// Every ECB dataflow, for the provider_catalog table
+async function fetchCatalog(): Promise<CatalogEntry[]> {
+  const response = await providerFetch("ECB", `${ECB_BASE_URL}/dataflow/ECB?format=jsondata`, {
+    headers: { "Accept": "application/json" }
+  });
+
+  const data = await response.json();
+  const dataflows: ECBDataflow[] = data?.data?.dataflows || [];
+
+  return dataflows
+    .filter((df) => df.id)
+    .map((df) => ({
+      code: df.id,
+      title: df.name || df.id,
+      details: { id: df.id, name: df.name || df.id, agencyID: df.agencyID || "ECB" },
+    }));
 }
 
 Deno.serve(async (req) => {
@@ -24,6 +55,8 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let run: IngestionRun | null = null;
+
   try {
     const url = new URL(req.url);
     const action = url.searchParams.get("action");
@@ -33,59 +66,47 @@ Deno.serve(async (req) => {
     // Search dataflows (datasets)
     if (action === "search") {
       const query = url.searchParams.get("query") || "";
-      const dataflowUrl = `${ECB_BASE_URL}/dataflow/ECB?format=jsondata`;
-      
-      const response = await fetch(dataflowUrl, {
-        headers: { "Accept": "application/json" }
-      });
-      
-      if (!response.ok) {
-        throw new Error(`ECB API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      const dataflows = data?.data?.dataflows || [];
-      
-      // Filter by query
-      const filtered = dataflows
-        .filter((df: any) => {
-          const name = df.name || "";
-          const id = df.id || "";
-          const searchLower = query.toLowerCase();
-          return name.toLowerCase().includes(searchLower) || id.toLowerCase().includes(searchLower);
-        })
-        .slice(0, 50)
-        .map((df: any) => ({
-          id: df.id,
-          name: df.name,
-          agencyID: df.agencyID || "ECB",
-        }));
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      const catalog = await searchCatalog(supabase, "ECB", query);
 
       return new Response(
-        JSON.stringify({ results: filtered }),
+        JSON.stringify(catalog),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // List dimensions for a dataflow
+    // Re-download the dataflow list into provider_catalog (scheduled daily)
+    if (action === "refresh-catalog") {
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
+      const entries = await replaceCatalog(supabase, "ECB", await fetchCatalog());
+
+      return new Response(
+        JSON.stringify({ success: true, source: "ECB", entries }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // List the key dimensions of a dataflow with their code lists, in key order
     if (action === "dimensions") {
       const dataflowId = url.searchParams.get("dataflowId");
       if (!dataflowId) throw new Error("dataflowId required");
 
-      const structureUrl = `${ECB_BASE_URL}/datastructure/ECB/${dataflowId}?format=jsondata&references=children`;
-      
-      const response = await fetch(structureUrl, {
+      // The data structure id differs from the dataflow id (EXR uses ECB_EXR1), so resolve it through the dataflow
+      const structureUrl = `${ECB_BASE_URL}/dataflow/ECB/${dataflowId}?references=all&detail=referencepartial&format=jsondata`;
+
+      const response = await providerFetch("ECB", structureUrl, {
         headers: { "Accept": "application/json" }
       });
-      
-      if (!response.ok) {
-        throw new Error(`ECB API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
+
+      const dimensions = parseSdmxStructure(await response.json());
+
       return new Response(
-        JSON.stringify(data),
+        JSON.stringify({ dataflowId, dimensions }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -105,41 +126,45 @@ Deno.serve(async (req) => {
 
       console.log("Fetching ECB data:", obsUrl);
 
-      const response = await fetch(obsUrl, {
+      const response = await providerFetch("ECB", obsUrl, {
         headers: { "Accept": "application/json" }
       });
       
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("ECB API error:", errorText);
-        throw new Error(`ECB API error: ${response.status}`);
-      }
-      
       const data = await response.json();
       
-      // Parse SDMX JSON format
-      const observations: ECBObservation[] = [];
-      const dataSets = data?.data?.dataSets || [];
-      const timePeriods = data?.data?.structure?.dimensions?.observation?.[0]?.values || [];
+      // Every series matched by the key, with dimension codes and attributes resolved
+      const series = parseSdmxJson(data);
+
+      return new Response(
+        JSON.stringify({ series }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Preview the series a (partial) key would create, without writing
+    if (action === "preview") {
+      const dataflowId = url.searchParams.get("dataflowId");
+      const seriesKey = url.searchParams.get("seriesKey") || "..";
+      const title = url.searchParams.get("title");
+      
+      if (!dataflowId) throw new Error("dataflowId required");
+
+      const previewUrl = `${ECB_BASE_URL}/data/${dataflowId}/${seriesKey}?format=jsondata&lastNObservations=1`;
+      const response = await providerFetch("ECB", previewUrl, {
+        headers: { "Accept": "application/json" }
+      });
       
-      if (dataSets.length > 0 && dataSets[0].series) {
-        const firstSeriesKey = Object.keys(dataSets[0].series)[0];
-        const seriesObs = dataSets[0].series[firstSeriesKey]?.observations || {};
-        
-        for (const [idx, values] of Object.entries(seriesObs)) {
-          const period = timePeriods[parseInt(idx)]?.id;
-          const value = (values as number[])[0];
-          if (period) {
-            observations.push({
-              date: period,
-              value: value ?? null,
-            });
-          }
-        }
-      }
+      const data = await response.json();
+      const preview = sdmxIngestPreview(parseSdmxJson(data), {
+        idPrefix: "ECB",
+        flowId: dataflowId,
+        key: seriesKey,
+        seriesId: `ECB_${dataflowId}_${seriesKey.replace(/\./g, "_")}`,
+        title: title || dataflowId,
+      });
 
       return new Response(
-        JSON.stringify({ observations }),
+        JSON.stringify(preview),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -150,107 +175,134 @@ Deno.serve(async (req) => {
       const seriesKey = url.searchParams.get("seriesKey") || "..";
       const title = url.searchParams.get("title") || dataflowId;
       const customSeriesId = url.searchParams.get("seriesId"); // Allow custom series ID
+      const confirmed = url.searchParams.get("confirm") === "true";
       
       if (!dataflowId) throw new Error("dataflowId required");
 
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
       const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
 
       // Use custom seriesId if provided, otherwise generate from dataflow/key
       const seriesId = customSeriesId || `ECB_${dataflowId}_${seriesKey.replace(/\./g, "_")}`;
-      const providerId = `${dataflowId}/${seriesKey}`;
-      
-      console.log("ECB ingest:", { dataflowId, seriesKey, seriesId, title });
-
-      // Check if series exists with this provider_id (may have different id)
-      const { data: existingSeries } = await supabase
-        .from("series")
-        .select("id")
-        .eq("source", "ECB")
-        .eq("provider_id", providerId)
-        .maybeSingle();
-
-      // If exists with different ID, delete the old one first to avoid conflict
-      if (existingSeries && existingSeries.id !== seriesId) {
-        console.log(`Replacing series ${existingSeries.id} with ${seriesId}`);
-        // Delete old observations first
-        await supabase.from("observations").delete().eq("series_id", existingSeries.id);
-        // Delete old series
-        await supabase.from("series").delete().eq("id", existingSeries.id);
-      }
 
-      // Upsert series metadata using id as conflict target
-      const { error: seriesError } = await supabase.from("series").upsert({
-        id: seriesId,
+      run = await startIngestionRun(supabase, {
+        functionName: "fetch-ecb",
         source: "ECB",
-        provider_id: providerId,
-        title: title,
-        description: `ECB ${dataflowId} series`,
-        freq: null,
-        unit_original: null,
-        currency_orig: "EUR",
-        geo: "EU",
-      }, { onConflict: "id" });
+        seriesId,
+        params: Object.fromEntries(url.searchParams),
+        req,
+      });
+      
+      console.log("ECB ingest:", { dataflowId, seriesKey, seriesId, title, confirmed });
 
-      if (seriesError) throw seriesError;
+      const obsUrl = `${ECB_BASE_URL}/data/${dataflowId}/${seriesKey}?format=jsondata`;
+
+      // Count a partial key's series from their latest observation, as preview does,
+      // so an over-broad key is refused before its full history is downloaded
+      if (sdmxKeyIsPartial(seriesKey)) {
+        const probe = await providerFetch("ECB", `${obsUrl}&lastNObservations=1`, {
+          headers: { "Accept": "application/json" }
+        });
+        assertSdmxFanOut(parseSdmxJson(await probe.json()).length, seriesKey, confirmed);
+      }
 
       // Fetch observations
-      const obsUrl = `${ECB_BASE_URL}/data/${dataflowId}/${seriesKey}?format=jsondata`;
-      const response = await fetch(obsUrl, {
+      const response = await providerFetch("ECB", obsUrl, {
         headers: { "Accept": "application/json" }
       });
       
-      if (!response.ok) {
-        throw new Error(`ECB API error: ${response.status}`);
-      }
-      
+      const lastModified = response.headers.get("last-modified");
       const data = await response.json();
-      
-      // Parse observations
-      const observations: { series_id: string; date: string; value: number | null; value_eur: number | null }[] = [];
-      const dataSets = data?.data?.dataSets || [];
-      const timePeriods = data?.data?.structure?.dimensions?.observation?.[0]?.values || [];
-      
-      if (dataSets.length > 0 && dataSets[0].series) {
-        const firstSeriesKey = Object.keys(dataSets[0].series)[0];
-        const seriesObs = dataSets[0].series[firstSeriesKey]?.observations || {};
-        
-        for (const [idx, values] of Object.entries(seriesObs)) {
-          const period = timePeriods[parseInt(idx)]?.id;
-          const value = (values as number[])[0];
-          if (period) {
-            // Convert period to date format (YYYY-MM-DD)
-            let dateStr = period;
-            if (period.match(/^\d{4}$/)) {
-              dateStr = `${period}-01-01`;
-            } else if (period.match(/^\d{4}-\d{2}$/)) {
-              dateStr = `${period}-01`;
-            }
-            
-            observations.push({
-              series_id: seriesId,
-              date: dateStr,
-              value: value ?? null,
-              value_eur: value ?? null,
-            });
-          }
+      const parsed = parseSdmxJson(data);
+      assertSdmxFanOut(parsed.length, seriesKey, confirmed);
+
+      const targets = sdmxIngestTargets(parsed, {
+        idPrefix: "ECB",
+        flowId: dataflowId,
+        key: seriesKey,
+        seriesId,
+        title: title || dataflowId,
+      });
+      let observationCount = 0;
+
+      for (const target of targets) {
+        const observations = (target.series?.observations || [])
+          .filter((obs) => obs.date)
+          .map((obs) => ({
+            series_id: target.seriesId,
+            date: obs.date!,
+            value: obs.value,
+            status: sdmxObservationStatus(obs),
+          }));
+
+        // Check if series exists with this provider_id (may have different id)
+        const { data: existingSeries } = await supabase
+          .from("series")
+          .select("id")
+          .eq("source", "ECB")
+          .eq("provider_id", target.providerId)
+          .maybeSingle();
+
+        // If exists with different ID, delete the old one first to avoid conflict
+        if (existingSeries && existingSeries.id !== target.seriesId) {
+          console.log(`Replacing series ${existingSeries.id} with ${target.seriesId}`);
+          // Delete old observations first
+          await supabase.from("observations").delete().eq("series_id", existingSeries.id);
+          // Delete old series
+          await supabase.from("series").delete().eq("id", existingSeries.id);
         }
-      }
 
-      if (observations.length > 0) {
-        const { error: obsError } = await supabase
-          .from("observations")
-          .upsert(observations, { onConflict: "series_id,date" });
+        // Upsert series metadata using id as conflict target
+        const metadata = sdmxSeriesMetadata(target.series);
+        const { error: seriesError } = await supabase.from("series").upsert({
+          id: target.seriesId,
+          source: "ECB",
+          provider_id: target.providerId,
+          title: target.title,
+          description: `ECB ${dataflowId} series`,
+          freq: target.series ? sdmxFrequency(target.series) : null,
+          unit_original: metadata.unit,
+          currency_orig: metadata.currency,
+          geo: "EU",
+          seasonal_adjustment: metadata.seasonalAdjustment,
+          unit_multiplier: metadata.unitMultiplier,
+          provider_updated_at: lastModified ? new Date(lastModified).toISOString() : null,
+          license: ECB_LICENSE,
+        }, { onConflict: "id" });
 
-        if (obsError) throw obsError;
+        if (seriesError) throw seriesError;
+
+        if (observations.length > 0) {
+          const { error: obsError } = await supabase
+            .from("observations")
+            .upsert(observations, { onConflict: "series_id,date" });
+
+          if (obsError) throw obsError;
+        }
+
+        await replaceFootnotes(supabase, target.seriesId, sdmxFootnotes(target.series));
+
+        const { error: fxError } = await supabase.rpc("apply_fx_conversion", { p_series_id: target.seriesId });
+        if (fxError) console.error("FX conversion failed:", fxError);
+
+        const { error: rangeError } = await supabase.rpc("update_series_observation_range", { p_series_id: target.seriesId });
+        if (rangeError) console.error("Observation range update failed:", rangeError);
+
+        observationCount += observations.length;
       }
 
+      const seriesIds = targets.map((t) => t.seriesId);
+      await run.succeed({ seriesIds, rowsReceived: observationCount });
+
       return new Response(
         JSON.stringify({
           success: true,
-          seriesId,
-          observationCount: observations.length,
+          seriesId: seriesIds[0],
+          seriesIds,
+          seriesCount: seriesIds.length,
+          observationCount,
         }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
@@ -262,13 +314,7 @@ Deno.serve(async (req) => {
     });
   } catch (error) {
     console.error("Error in fetch-ecb:", error);
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    await run?.fail(error);
+    return errorResponse(error, corsHeaders);
   }
 });
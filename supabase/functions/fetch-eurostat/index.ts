@@ -1,4 +1,17 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireRole } from "../_shared/auth.ts";
+import { errorResponse, providerFetch } from "../_shared/http.ts";
+import { startIngestionRun, type IngestionRun } from "../_shared/ingestion-runs.ts";
+import { replaceFootnotes } from "../_shared/observation-flags.ts";
+import { replaceCatalog, searchCatalog, type CatalogEntry } from "../_shared/provider-catalog.ts";
+import {
+  parseSdmxJson,
+  parseSdmxStructure,
+  sdmxFootnotes,
+  sdmxFrequency,
+  sdmxObservationStatus,
+  sdmxSeriesMetadata,
+} from "../_shared/sdmx-json.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,12 +19,39 @@ const corsHeaders = {
 };
 
 const EUROSTAT_BASE_URL = "https://ec.europa.eu/eurostat/api/dissemination";
+const EUROSTAT_LICENSE = "CC BY 4.0";
+
+/**
+ * Datasets and tables from the Eurostat table of contents, for the provider_catalog table.
+ * The TSV has quoted "title", "code", "type" and update columns; titles are indented
+ * by their depth in the theme tree and folders are skipped.
+ */
+async function fetchCatalog(): Promise<CatalogEntry[]> {
+  const response = await providerFetch("Eurostat", `${EUROSTAT_BASE_URL}/catalogue/toc/txt?lang=EN`);
+
+  const lines = (await response.text()).split("\n").slice(1);
+  const entries: CatalogEntry[] = [];
+
+  for (const line of lines) {
+    const [title, code, type, lastUpdate] = line.split("\t").map((part) => part.replace(/^"|"$/g, "").trim());
+    if (!title || !code || (type !== "dataset" && type !== "table")) continue;
+    entries.push({
+      code,
+      title,
+      details: { id: code, title, type, lastUpdate: lastUpdate || null },
+    });
+  }
+
+  return entries;
+}
 
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let run: IngestionRun | null = null;
+
   try {
     const url = new URL(req.url);
     const action = url.searchParams.get("action");
@@ -21,59 +61,44 @@ Deno.serve(async (req) => {
     // Search datasets
     if (action === "search") {
       const query = url.searchParams.get("query") || "";
-      const searchUrl = `${EUROSTAT_BASE_URL}/catalogue/toc/txt?lang=EN`;
-      
-      const response = await fetch(searchUrl);
-      
-      if (!response.ok) {
-        throw new Error(`Eurostat API error: ${response.status}`);
-      }
-      
-      const text = await response.text();
-      const lines = text.split("\n");
-      
-      // Parse the TSV format and filter
-      const results: { id: string; title: string }[] = [];
-      const queryLower = query.toLowerCase();
-      
-      for (const line of lines) {
-        const parts = line.split("\t");
-        if (parts.length >= 2) {
-          const id = parts[0].trim();
-          const title = parts[1].trim();
-          
-          if (id && title && 
-              (id.toLowerCase().includes(queryLower) || 
-               title.toLowerCase().includes(queryLower))) {
-            results.push({ id, title });
-            if (results.length >= 50) break;
-          }
-        }
-      }
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      const catalog = await searchCatalog(supabase, "EUROSTAT", query);
 
       return new Response(
-        JSON.stringify({ results }),
+        JSON.stringify(catalog),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
-    // Get dataset metadata
+    // Re-download the table of contents into provider_catalog (scheduled daily)
+    if (action === "refresh-catalog") {
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
+      const entries = await replaceCatalog(supabase, "EUROSTAT", await fetchCatalog());
+
+      return new Response(
+        JSON.stringify({ success: true, source: "EUROSTAT", entries }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Key dimensions of a dataset (freq, unit, s_adj, geo...) with their code lists, in key order
     if (action === "metadata") {
       const datasetId = url.searchParams.get("datasetId");
       if (!datasetId) throw new Error("datasetId required");
 
-      const metaUrl = `${EUROSTAT_BASE_URL}/sdmx/2.1/datastructure/ESTAT/${datasetId}?format=JSON`;
-      
-      const response = await fetch(metaUrl);
+      const metaUrl = `${EUROSTAT_BASE_URL}/sdmx/2.1/datastructure/ESTAT/${datasetId}?references=children&format=JSON`;
       
-      if (!response.ok) {
-        throw new Error(`Eurostat API error: ${response.status}`);
-      }
+      const response = await providerFetch("Eurostat", metaUrl);
       
-      const data = await response.json();
+      const dimensions = parseSdmxStructure(await response.json());
       
       return new Response(
-        JSON.stringify(data),
+        JSON.stringify({ datasetId, dimensions }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -89,40 +114,15 @@ Deno.serve(async (req) => {
 
       console.log("Fetching Eurostat data:", obsUrl);
 
-      const response = await fetch(obsUrl);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("Eurostat API error:", errorText);
-        throw new Error(`Eurostat API error: ${response.status}`);
-      }
+      const response = await providerFetch("Eurostat", obsUrl);
       
       const data = await response.json();
       
-      // Parse SDMX JSON format
-      const observations: { date: string; value: number | null }[] = [];
-      const timeDimension = data?.structure?.dimensions?.observation?.find((d: any) => d.id === "TIME_PERIOD");
-      const timePeriods = timeDimension?.values || [];
-      
-      const dataSets = data?.dataSets || [];
-      if (dataSets.length > 0 && dataSets[0].series) {
-        const firstSeriesKey = Object.keys(dataSets[0].series)[0];
-        const seriesObs = dataSets[0].series[firstSeriesKey]?.observations || {};
-        
-        for (const [idx, values] of Object.entries(seriesObs)) {
-          const period = timePeriods[parseInt(idx)]?.id;
-          const value = (values as number[])[0];
-          if (period) {
-            observations.push({
-              date: period,
-              value: value ?? null,
-            });
-          }
-        }
-      }
+      // Every series matched by the key, with dimension codes and attributes resolved
+      const series = parseSdmxJson(data);
 
       return new Response(
-        JSON.stringify({ observations }),
+        JSON.stringify({ series }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -139,9 +139,40 @@ Deno.serve(async (req) => {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
       const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
 
       const seriesId = `EUROSTAT_${datasetId}_${filters.replace(/\./g, "_") || "default"}`;
 
+      run = await startIngestionRun(supabase, {
+        functionName: "fetch-eurostat",
+        source: "EUROSTAT",
+        seriesId,
+        params: Object.fromEntries(url.searchParams),
+        req,
+      });
+
+      // Fetch observations
+      const obsUrl = `${EUROSTAT_BASE_URL}/sdmx/2.1/data/${datasetId}/${filters}?format=JSON`;
+      const response = await providerFetch("Eurostat", obsUrl);
+      
+      const lastModified = response.headers.get("last-modified");
+      const data = await response.json();
+      const parsed = parseSdmxJson(data);
+      if (parsed.length > 1) {
+        throw new Error(`Key ${filters} matches ${parsed.length} series; specify every dimension to ingest a single series`);
+      }
+      const sdmxSeries = parsed[0];
+      const metadata = sdmxSeriesMetadata(sdmxSeries);
+
+      const observations = (sdmxSeries?.observations || [])
+        .filter((obs) => obs.date)
+        .map((obs) => ({
+          series_id: seriesId,
+          date: obs.date!,
+          value: obs.value,
+          status: sdmxObservationStatus(obs),
+        }));
+
       // Insert series metadata
       const { error: seriesError } = await supabase.from("series").upsert({
         id: seriesId,
@@ -149,60 +180,18 @@ Deno.serve(async (req) => {
         provider_id: `${datasetId}/${filters}`,
         title: title,
         description: `Eurostat ${datasetId} series`,
-        freq: null,
-        unit_original: null,
-        currency_orig: "EUR",
-        geo: geo,
+        freq: sdmxSeries ? sdmxFrequency(sdmxSeries) : null,
+        unit_original: metadata.unit,
+        currency_orig: metadata.currency,
+        geo: sdmxSeries?.dimensions.geo?.id || geo,
+        seasonal_adjustment: metadata.seasonalAdjustment,
+        unit_multiplier: metadata.unitMultiplier,
+        provider_updated_at: lastModified ? new Date(lastModified).toISOString() : null,
+        license: EUROSTAT_LICENSE,
       });
 
       if (seriesError) throw seriesError;
 
-      // Fetch observations
-      const obsUrl = `${EUROSTAT_BASE_URL}/sdmx/2.1/data/${datasetId}/${filters}?format=JSON`;
-      const response = await fetch(obsUrl);
-      
-      if (!response.ok) {
-        throw new Error(`Eurostat API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      
-      // Parse observations
-      const observations: { series_id: string; date: string; value: number | null; value_eur: number | null }[] = [];
-      const timeDimension = data?.structure?.dimensions?.observation?.find((d: any) => d.id === "TIME_PERIOD");
-      const timePeriods = timeDimension?.values || [];
-      
-      const dataSets = data?.dataSets || [];
-      if (dataSets.length > 0 && dataSets[0].series) {
-        const firstSeriesKey = Object.keys(dataSets[0].series)[0];
-        const seriesObs = dataSets[0].series[firstSeriesKey]?.observations || {};
-        
-        for (const [idx, values] of Object.entries(seriesObs)) {
-          const period = timePeriods[parseInt(idx)]?.id;
-          const value = (values as number[])[0];
-          if (period) {
-            let dateStr = period;
-            if (period.match(/^\d{4}$/)) {
-              dateStr = `${period}-01-01`;
-            } else if (period.match(/^\d{4}-\d{2}$/)) {
-              dateStr = `${period}-01`;
-            } else if (period.match(/^\d{4}Q\d$/)) {
-              const year = period.substring(0, 4);
-              const quarter = parseInt(period.substring(5));
-              const month = String((quarter - 1) * 3 + 1).padStart(2, "0");
-              dateStr = `${year}-${month}-01`;
-            }
-            
-            observations.push({
-              series_id: seriesId,
-              date: dateStr,
-              value: value ?? null,
-              value_eur: value ?? null,
-            });
-          }
-        }
-      }
-
       if (observations.length > 0) {
         const { error: obsError } = await supabase
           .from("observations")
@@ -211,6 +200,16 @@ Deno.serve(async (req) => {
         if (obsError) throw obsError;
       }
 
+      await replaceFootnotes(supabase, seriesId, sdmxFootnotes(sdmxSeries));
+
+      const { error: fxError } = await supabase.rpc("apply_fx_conversion", { p_series_id: seriesId });
+      if (fxError) console.error("FX conversion failed:", fxError);
+
+      const { error: rangeError } = await supabase.rpc("update_series_observation_range", { p_series_id: seriesId });
+      if (rangeError) console.error("Observation range update failed:", rangeError);
+
+      await run.succeed({ rowsReceived: observations.length });
+
       return new Response(
         JSON.stringify({
           success: true,
@@ -227,13 +226,7 @@ Deno.serve(async (req) => {
     });
   } catch (error) {
     console.error("Error in fetch-eurostat:", error);
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    await run?.fail(error);
+    return errorResponse(error, corsHeaders);
   }
 });
@@ -1,4 +1,7 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireRole } from "../_shared/auth.ts";
+import { errorResponse, providerFetch } from "../_shared/http.ts";
+import { startIngestionRun, type IngestionRun } from "../_shared/ingestion-runs.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -17,11 +20,47 @@ interface FredObservation {
   value: string;
 }
 
+interface FredVintageObservation extends FredObservation {
+  realtime_start: string;
+  realtime_end: string;
+}
+
+const FRED_LICENSE = "FRED terms of use; third-party copyright may apply";
+
+// Scale words FRED puts in front of units, e.g. "Billions of Dollars"
+const UNIT_SCALES: [RegExp, number][] = [
+  [/^thousands\b/i, 3],
+  [/^millions\b/i, 6],
+  [/^billions\b/i, 9],
+  [/^trillions\b/i, 12],
+];
+
+function fredUnitMultiplier(units: string | undefined): number | null {
+  if (!units) return null;
+  return UNIT_SCALES.find(([pattern]) => pattern.test(units))?.[1] ?? 0;
+}
+
+// FRED timestamps look like "2024-03-28 07:56:02-05"
+function fredTimestamp(value: string | undefined): string | null {
+  if (!value) return null;
+  const date = new Date(value.replace(" ", "T").replace(/([+-]\d{2})$/, "$1:00"));
+  return isNaN(date.getTime()) ? null : date.toISOString();
+}
+
+// History fetched by a plain ingest without startDate, full or incremental
+const DEFAULT_HISTORY_YEARS = 10;
+
+// Real-time bounds that request every ALFRED vintage of a series
+const ALFRED_REALTIME_START = "1776-07-04";
+const ALFRED_REALTIME_END = "9999-12-31";
+
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let run: IngestionRun | null = null;
+
   try {
     const fredApiKey = Deno.env.get("FRED_API_KEY");
     if (!fredApiKey) {
@@ -44,7 +83,7 @@ Deno.serve(async (req) => {
       )}&api_key=${fredApiKey}&file_type=json&limit=50`;
 
       console.log("FRED Search URL (without key):", searchUrl.replace(fredApiKey, "***"));
-      const response = await fetch(searchUrl);
+      const response = await providerFetch("FRED", searchUrl);
       const data = await response.json();
       console.log("FRED Search Response status:", response.status);
       console.log("FRED Search Response data:", JSON.stringify(data).substring(0, 500));
@@ -61,7 +100,7 @@ Deno.serve(async (req) => {
     if (action === "metadata" && seriesId) {
       const metadataUrl = `${fredBaseUrl}/series?series_id=${seriesId}&api_key=${fredApiKey}&file_type=json`;
 
-      const response = await fetch(metadataUrl);
+      const response = await providerFetch("FRED", metadataUrl);
       const data = await response.json();
 
       return new Response(JSON.stringify(data.seriess?.[0] || null), {
@@ -78,7 +117,7 @@ Deno.serve(async (req) => {
       if (startDate) obsUrl += `&observation_start=${startDate}`;
       if (endDate) obsUrl += `&observation_end=${endDate}`;
 
-      const response = await fetch(obsUrl);
+      const response = await providerFetch("FRED", obsUrl);
       const data = await response.json();
 
       return new Response(
@@ -94,11 +133,20 @@ Deno.serve(async (req) => {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
       const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
+
+      run = await startIngestionRun(supabase, {
+        functionName: "fetch-fred",
+        source: "FRED",
+        seriesId: `FRED_${seriesId}`,
+        params: Object.fromEntries(url.searchParams),
+        req,
+      });
 
       // Fetch metadata
       const metadataUrl = `${fredBaseUrl}/series?series_id=${seriesId}&api_key=${fredApiKey}&file_type=json`;
       console.log("Fetching metadata for:", seriesId);
-      const metaResponse = await fetch(metadataUrl);
+      const metaResponse = await providerFetch("FRED", metadataUrl);
       const metaData = await metaResponse.json();
       const series = metaData.seriess?.[0];
 
@@ -106,6 +154,8 @@ Deno.serve(async (req) => {
         throw new Error("Series not found");
       }
 
+      const isUSD = series.units?.includes("USD") || series.units?.includes("Dollars");
+
       // Insert or update series
       const { error: seriesError } = await supabase.from("series").upsert({
         id: `FRED_${seriesId}`,
@@ -115,38 +165,68 @@ Deno.serve(async (req) => {
         description: series.notes || null,
         freq: series.frequency_short || null,
         unit_original: series.units || null,
-        currency_orig: series.units?.includes("USD") ? "USD" : null,
+        currency_orig: isUSD ? "USD" : null,
         geo: "US",
+        seasonal_adjustment: series.seasonal_adjustment || null,
+        unit_multiplier: fredUnitMultiplier(series.units),
+        provider_updated_at: fredTimestamp(series.last_updated),
+        license: FRED_LICENSE,
       });
 
       if (seriesError) throw seriesError;
 
-      // Fetch observations - limit to last 10 years for efficiency
-      const tenYearsAgo = new Date();
-      tenYearsAgo.setFullYear(tenYearsAgo.getFullYear() - 10);
-      const startDate = tenYearsAgo.toISOString().split('T')[0];
+      // History depth: full=true fetches everything, startDate a fixed start, incremental=true
+      // only what follows the latest stored observation; otherwise the last 10 years
+      let startDate: string | null = url.searchParams.get("startDate");
+      const full = url.searchParams.get("full") === "true";
+      const incremental = url.searchParams.get("incremental") === "true";
+
+      if (startDate && !/^\d{4}-\d{2}-\d{2}$/.test(startDate)) {
+        throw new Error("startDate must be YYYY-MM-DD");
+      }
+
+      if (full) {
+        startDate = null;
+      } else if (!startDate && incremental) {
+        const { data: latest, error: latestError } = await supabase
+          .from("observations")
+          .select("date")
+          .eq("series_id", `FRED_${seriesId}`)
+          .order("date", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+
+        if (latestError) throw latestError;
+        // The latest stored date is fetched again so a revision of it is picked up
+        startDate = latest?.date ?? null;
+      }
+
+      if (!full && !startDate) {
+        const defaultStart = new Date();
+        defaultStart.setFullYear(defaultStart.getFullYear() - DEFAULT_HISTORY_YEARS);
+        startDate = defaultStart.toISOString().split('T')[0];
+      }
       
-      const obsUrl = `${fredBaseUrl}/series/observations?series_id=${seriesId}&api_key=${fredApiKey}&file_type=json&observation_start=${startDate}`;
-      console.log("Fetching observations for:", seriesId, "from:", startDate);
-      const obsResponse = await fetch(obsUrl);
+      let obsUrl = `${fredBaseUrl}/series/observations?series_id=${seriesId}&api_key=${fredApiKey}&file_type=json`;
+      if (startDate) obsUrl += `&observation_start=${startDate}`;
+      console.log("Fetching observations for:", seriesId, "from:", startDate || "first observation");
+      const obsResponse = await providerFetch("FRED", obsUrl);
       const obsData = await obsResponse.json();
       const observations = obsData.observations || [];
       console.log("Received", observations.length, "observations");
 
-      // Insert observations without FX conversion to save resources
-      // FX conversion can be done client-side or via a separate process
+      // value_eur is filled afterwards by apply_fx_conversion from stored ECB rates
       const obsToInsert = observations
         .filter((obs: FredObservation) => obs.value !== ".")
         .map((obs: FredObservation) => {
           const value = parseFloat(obs.value);
-          const isUSD = series.units?.includes("USD") || series.units?.includes("Dollars");
-          
+
           return {
             series_id: `FRED_${seriesId}`,
             date: obs.date,
             value,
             value_usd: isUSD ? value : null,
-            value_eur: null, // Skip FX conversion to save resources
+            value_eur: null,
           };
         });
 
@@ -163,12 +243,95 @@ Deno.serve(async (req) => {
         }
       }
 
+      const { error: fxError } = await supabase.rpc("apply_fx_conversion", { p_series_id: `FRED_${seriesId}` });
+      if (fxError) console.error("FX conversion failed:", fxError);
+
+      const { error: rangeError } = await supabase.rpc("update_series_observation_range", { p_series_id: `FRED_${seriesId}` });
+      if (rangeError) console.error("Observation range update failed:", rangeError);
+
       console.log("Successfully ingested", obsToInsert.length, "observations for", seriesId);
+      await run.succeed({ rowsReceived: obsToInsert.length });
+
       return new Response(
         JSON.stringify({
           success: true,
           seriesId: `FRED_${seriesId}`,
           observationCount: obsToInsert.length,
+          observationStart: startDate,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Import the full ALFRED revision history of an ingested series into observation_vintages
+    if (action === "vintages" && seriesId) {
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
+      const internalId = `FRED_${seriesId}`;
+
+      const { data: existing } = await supabase
+        .from("series")
+        .select("id")
+        .eq("id", internalId)
+        .maybeSingle();
+
+      if (!existing) {
+        throw new Error(`Series ${internalId} has not been ingested`);
+      }
+
+      // Every real-time period of every observation, paged by FRED's 100000 row limit
+      const pageSize = 100000;
+      const vintages: FredVintageObservation[] = [];
+      let offset = 0;
+      let total = 0;
+      do {
+        const vintageUrl = `${fredBaseUrl}/series/observations?series_id=${seriesId}&api_key=${fredApiKey}&file_type=json&realtime_start=${ALFRED_REALTIME_START}&realtime_end=${ALFRED_REALTIME_END}&limit=${pageSize}&offset=${offset}`;
+        console.log("Fetching ALFRED vintages for:", seriesId, "offset:", offset);
+        const response = await providerFetch("FRED", vintageUrl);
+        const data = await response.json();
+        vintages.push(...(data.observations || []));
+        total = data.count || 0;
+        offset += pageSize;
+      } while (offset < total);
+
+      console.log("Received", vintages.length, "ALFRED vintage rows");
+
+      const rows = vintages
+        .filter((obs) => obs.value !== ".")
+        .map((obs) => ({
+          series_id: internalId,
+          date: obs.date,
+          value: parseFloat(obs.value),
+          vintage_start: obs.realtime_start,
+          vintage_end: obs.realtime_end === ALFRED_REALTIME_END ? null : obs.realtime_end,
+          source: "alfred",
+        }));
+
+      // ALFRED is authoritative for FRED series, so it replaces the recorded history
+      const { error: deleteError } = await supabase
+        .from("observation_vintages")
+        .delete()
+        .eq("series_id", internalId);
+      if (deleteError) throw deleteError;
+
+      const batchSize = 500;
+      for (let i = 0; i < rows.length; i += batchSize) {
+        const batch = rows.slice(i, i + batchSize);
+        const { error: vintageError } = await supabase
+          .from("observation_vintages")
+          .upsert(batch, { onConflict: "series_id,date,vintage_start" });
+
+        if (vintageError) throw vintageError;
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          seriesId: internalId,
+          vintageCount: rows.length,
+          vintageDates: new Set(rows.map((r) => r.vintage_start)).size,
         }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
@@ -180,13 +343,7 @@ Deno.serve(async (req) => {
     });
   } catch (error) {
     console.error("Error in fetch-fred:", error);
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    await run?.fail(error);
+    return errorResponse(error, corsHeaders);
   }
 });
@@ -0,0 +1,155 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireRole } from "../_shared/auth.ts";
+import { errorResponse, providerFetch } from "../_shared/http.ts";
+import { parseSdmxJson, type SdmxJsonMessage } from "../_shared/sdmx-json.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// ECB SDMX REST API - EXR dataflow holds the daily euro foreign exchange reference rates
+const ECB_BASE_URL = "https://data-api.ecb.europa.eu/service";
+
+// Currencies quoted against EUR that we keep in fx_rates by default
+const DEFAULT_CURRENCIES = ["USD", "GBP", "JPY", "CHF", "SEK", "NOK", "DKK", "ISK", "CNY"];
+
+// First business day of the euro reference rates
+const EXR_FIRST_DATE = "1999-01-04";
+
+interface FxRateRow {
+  date: string;
+  base: string;
+  quote: string;
+  rate: number;
+  source: string;
+}
+
+/**
+ * Parse an EXR SDMX-JSON response into one fx_rates row per currency and day.
+ * Rates are quoted as units of currency per 1 EUR.
+ */
+function parseExrResponse(data: SdmxJsonMessage): FxRateRow[] {
+  const rows: FxRateRow[] = [];
+
+  for (const series of parseSdmxJson(data)) {
+    const quote = series.dimensions.CURRENCY?.id;
+    if (!quote) continue;
+
+    for (const obs of series.observations) {
+      if (obs.date && obs.value !== null) {
+        rows.push({ date: obs.date, base: "EUR", quote, rate: obs.value, source: "ECB" });
+      }
+    }
+  }
+
+  return rows;
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const action = url.searchParams.get("action");
+
+    console.log("FX Request:", { action });
+
+    const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+    const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+    const supabase = createClient(supabaseUrl, supabaseKey);
+    // Both actions write fx_rates or converted observation values
+    await requireRole(supabase, req, ["admin"]);
+
+    // Pull ECB reference rates into fx_rates and back-populate converted values
+    if (action === "ingest") {
+      const currencies = (url.searchParams.get("currencies") || DEFAULT_CURRENCIES.join(","))
+        .split(",")
+        .map((c) => c.trim().toUpperCase())
+        .filter(Boolean);
+      const convert = url.searchParams.get("convert") !== "false";
+      let startPeriod = url.searchParams.get("startPeriod");
+
+      // Incremental by default: continue from the latest stored rate
+      if (!startPeriod) {
+        const { data: latest } = await supabase
+          .from("fx_rates")
+          .select("date")
+          .eq("source", "ECB")
+          .order("date", { ascending: false })
+          .limit(1)
+          .maybeSingle();
+        startPeriod = latest?.date || EXR_FIRST_DATE;
+      }
+
+      const exrUrl = `${ECB_BASE_URL}/data/EXR/D.${currencies.join("+")}.EUR.SP00.A?format=jsondata&startPeriod=${startPeriod}`;
+      console.log("Fetching ECB EXR:", exrUrl);
+
+      const response = await providerFetch("ECB", exrUrl, {
+        headers: { "Accept": "application/json" }
+      });
+
+      const data = await response.json();
+      const rates = parseExrResponse(data);
+      console.log("Parsed", rates.length, "FX rates from", startPeriod);
+
+      const batchSize = 500;
+      for (let i = 0; i < rates.length; i += batchSize) {
+        const batch = rates.slice(i, i + batchSize);
+        const { error: fxError } = await supabase
+          .from("fx_rates")
+          .upsert(batch, { onConflict: "date,base,quote" });
+
+        if (fxError) throw fxError;
+      }
+
+      let convertedCount: number | null = null;
+      if (convert) {
+        const { data: count, error: convertError } = await supabase.rpc("apply_fx_conversion");
+        if (convertError) throw convertError;
+        convertedCount = count;
+      }
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          startPeriod,
+          currencies,
+          rateCount: rates.length,
+          convertedCount,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Recompute value_eur / value_usd for one series, or all series when no seriesId is given
+    if (action === "convert") {
+      const seriesId = url.searchParams.get("seriesId");
+
+      const { data: count, error: convertError } = await supabase.rpc(
+        "apply_fx_conversion",
+        seriesId ? { p_series_id: seriesId } : {}
+      );
+      if (convertError) throw convertError;
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          seriesId,
+          convertedCount: count,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(JSON.stringify({ error: "Invalid action" }), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in fetch-fx:", error);
+    return errorResponse(error, corsHeaders);
+  }
+});
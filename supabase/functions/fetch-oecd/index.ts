@@ -1,4 +1,22 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireRole } from "../_shared/auth.ts";
+import { errorResponse, providerFetch } from "../_shared/http.ts";
+import { startIngestionRun, type IngestionRun } from "../_shared/ingestion-runs.ts";
+import { replaceFootnotes } from "../_shared/observation-flags.ts";
+import { replaceCatalog, searchCatalog, type CatalogEntry } from "../_shared/provider-catalog.ts";
+import {
+  assertSdmxFanOut,
+  parseSdmxJson,
+  parseSdmxStructure,
+  sdmxFootnotes,
+  sdmxFrequency,
+  sdmxIngestPreview,
+  sdmxIngestTargets,
+  sdmxKeyIsPartial,
+  sdmxObservationStatus,
+  sdmxSeriesMetadata,
+  sdmxUrnTarget,
+} from "../_shared/sdmx-json.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,12 +24,89 @@ const corsHeaders = {
 };
 
 const OECD_BASE_URL = "https://sdmx.oecd.org/public/rest";
+const STRUCTURE_ACCEPT = "application/vnd.sdmx.structure+json;version=1.0";
+const DATA_ACCEPT = "application/vnd.sdmx.data+json;version=1.0";
+const OECD_LICENSE = "CC BY 4.0";
+
+interface OECDDataflowRef {
+  agencyId: string;
+  dataflowId: string;
+  version: string;
+  dsdId: string | null;
+}
+
+// Flow reference used in data URLs, e.g. "OECD.SDD.TPS,DSD_PRICES@DF_PRICES_ALL,1.0"
+function flowRef(ref: OECDDataflowRef): string {
+  return `${ref.agencyId},${ref.dataflowId},${ref.version}`;
+}
+
+/**
+ * Agency, version and data structure of the requested dataflow. Search results pass
+ * agencyId and version through; without them the dataflow is looked up in the registry.
+ */
+async function resolveDataflow(params: URLSearchParams): Promise<OECDDataflowRef> {
+  const dataflowId = params.get("dataflowId");
+  if (!dataflowId) throw new Error("dataflowId required");
+
+  const agencyId = params.get("agencyId");
+  const version = params.get("version");
+  if (agencyId && version) {
+    return { agencyId, dataflowId, version, dsdId: params.get("dsdId") };
+  }
+
+  const lookupUrl = `${OECD_BASE_URL}/dataflow/${agencyId || "all"}/${dataflowId}/${version || "latest"}`;
+  const response = await providerFetch("OECD", lookupUrl, {
+    headers: { "Accept": STRUCTURE_ACCEPT }
+  });
+
+  const data = await response.json();
+  const dataflow = data?.data?.dataflows?.[0];
+  if (!dataflow) throw new Error(`OECD dataflow ${dataflowId} not found`);
+
+  return {
+    agencyId: dataflow.agencyID,
+    dataflowId: dataflow.id,
+    version: dataflow.version,
+    dsdId: sdmxUrnTarget(dataflow.structure).artefactId,
+  };
+}
+
+// Every OECD dataflow with the agency, version and DSD needed to query it, for the provider_catalog table
+async function fetchCatalog(): Promise<CatalogEntry[]> {
+  // Every agency: most dataflows belong to directorates such as OECD.SDD.TPS, not to OECD itself
+  const response = await providerFetch("OECD", `${OECD_BASE_URL}/dataflow/all?format=json`, {
+    headers: { "Accept": STRUCTURE_ACCEPT }
+  });
+
+  const data = await response.json();
+  const dataflows = data?.data?.dataflows || [];
+
+  return dataflows
+    .filter((df: any) => df.id)
+    .map((df: any) => {
+      const name = df.name || df.names?.en || df.id;
+      return {
+        code: df.id,
+        title: name,
+        description: df.description || df.descriptions?.en || null,
+        details: {
+          id: df.id,
+          name,
+          agencyID: df.agencyID || "OECD",
+          version: df.version,
+          dsdId: sdmxUrnTarget(df.structure).artefactId,
+        },
+      };
+    });
+}
 
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let run: IngestionRun | null = null;
+
   try {
     const url = new URL(req.url);
     const action = url.searchParams.get("action");
@@ -21,103 +116,100 @@ Deno.serve(async (req) => {
     // Search dataflows
     if (action === "search") {
       const query = url.searchParams.get("query") || "";
-      const dataflowUrl = `${OECD_BASE_URL}/dataflow/OECD?format=json`;
-      
-      const response = await fetch(dataflowUrl, {
-        headers: { "Accept": "application/vnd.sdmx.structure+json;version=1.0" }
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      const catalog = await searchCatalog(supabase, "OECD", query);
+
+      return new Response(
+        JSON.stringify(catalog),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Re-download the dataflow list into provider_catalog (scheduled daily)
+    if (action === "refresh-catalog") {
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
+      const entries = await replaceCatalog(supabase, "OECD", await fetchCatalog());
+
+      return new Response(
+        JSON.stringify({ success: true, source: "OECD", entries }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Dimensions of a dataflow with their code lists, plus the resolved agency, version and DSD
+    if (action === "structure") {
+      const ref = await resolveDataflow(url.searchParams);
+      const structureUrl = `${OECD_BASE_URL}/dataflow/${ref.agencyId}/${ref.dataflowId}/${ref.version}?references=all&detail=referencepartial`;
+
+      const response = await providerFetch("OECD", structureUrl, {
+        headers: { "Accept": STRUCTURE_ACCEPT }
       });
-      
-      if (!response.ok) {
-        throw new Error(`OECD API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      const dataflows = data?.data?.dataflows || [];
-      
-      // Filter by query
-      const filtered = dataflows
-        .filter((df: any) => {
-          const name = df.name || df.names?.en || "";
-          const id = df.id || "";
-          const searchLower = query.toLowerCase();
-          return name.toLowerCase().includes(searchLower) || id.toLowerCase().includes(searchLower);
-        })
-        .slice(0, 50)
-        .map((df: any) => ({
-          id: df.id,
-          name: df.name || df.names?.en || df.id,
-          agencyID: df.agencyID || "OECD",
-        }));
+
+      const dimensions = parseSdmxStructure(await response.json());
 
       return new Response(
-        JSON.stringify({ results: filtered }),
+        JSON.stringify({ ...ref, dimensions }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
 
     // Fetch observations
     if (action === "observations") {
-      const dataflowId = url.searchParams.get("dataflowId");
       const key = url.searchParams.get("key") || "all";
       const startPeriod = url.searchParams.get("startPeriod");
       const endPeriod = url.searchParams.get("endPeriod");
-      
-      if (!dataflowId) throw new Error("dataflowId required");
+      const ref = await resolveDataflow(url.searchParams);
 
-      let obsUrl = `${OECD_BASE_URL}/data/OECD.SDD.TPS,DSD_${dataflowId}@DF_${dataflowId},1.0/${key}?format=json`;
+      let obsUrl = `${OECD_BASE_URL}/data/${flowRef(ref)}/${key}?format=json`;
       if (startPeriod) obsUrl += `&startPeriod=${startPeriod}`;
       if (endPeriod) obsUrl += `&endPeriod=${endPeriod}`;
 
       console.log("Fetching OECD data:", obsUrl);
 
-      // Try alternative URL format if first fails
-      let response = await fetch(obsUrl, {
-        headers: { "Accept": "application/vnd.sdmx.data+json;version=1.0" }
+      const response = await providerFetch("OECD", obsUrl, {
+        headers: { "Accept": DATA_ACCEPT }
       });
       
-      if (!response.ok) {
-        // Try simpler URL format
-        obsUrl = `${OECD_BASE_URL}/data/${dataflowId}/${key}?format=json`;
-        if (startPeriod) obsUrl += `&startPeriod=${startPeriod}`;
-        if (endPeriod) obsUrl += `&endPeriod=${endPeriod}`;
-        
-        response = await fetch(obsUrl, {
-          headers: { "Accept": "application/vnd.sdmx.data+json;version=1.0" }
-        });
-      }
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("OECD API error:", errorText);
-        throw new Error(`OECD API error: ${response.status}`);
-      }
-      
       const data = await response.json();
       
-      // Parse SDMX JSON format
-      const observations: { date: string; value: number | null }[] = [];
-      const timeDimension = data?.data?.structure?.dimensions?.observation?.find((d: any) => d.id === "TIME_PERIOD");
-      const timePeriods = timeDimension?.values || [];
+      // Every series matched by the key, with dimension codes and attributes resolved
+      const series = parseSdmxJson(data);
+
+      return new Response(
+        JSON.stringify({ series }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Preview the series a (partial) key would create, without writing
+    if (action === "preview") {
+      const key = url.searchParams.get("key") || "all";
+      const title = url.searchParams.get("title");
+      const ref = await resolveDataflow(url.searchParams);
+      const dataflowId = ref.dataflowId;
+
+      const previewUrl = `${OECD_BASE_URL}/data/${flowRef(ref)}/${key}?format=json&lastNObservations=1`;
+      const response = await providerFetch("OECD", previewUrl, {
+        headers: { "Accept": DATA_ACCEPT }
+      });
       
-      const dataSets = data?.data?.dataSets || [];
-      if (dataSets.length > 0 && dataSets[0].series) {
-        const firstSeriesKey = Object.keys(dataSets[0].series)[0];
-        const seriesObs = dataSets[0].series[firstSeriesKey]?.observations || {};
-        
-        for (const [idx, values] of Object.entries(seriesObs)) {
-          const period = timePeriods[parseInt(idx)]?.id;
-          const value = (values as number[])[0];
-          if (period) {
-            observations.push({
-              date: period,
-              value: value ?? null,
-            });
-          }
-        }
-      }
+      const data = await response.json();
+      const preview = sdmxIngestPreview(parseSdmxJson(data), {
+        idPrefix: "OECD",
+        flowId: dataflowId,
+        key,
+        seriesId: `OECD_${dataflowId}_${key.replace(/\./g, "_")}`,
+        title: title || dataflowId,
+        providerFlowId: flowRef(ref),
+      });
 
       return new Response(
-        JSON.stringify({ observations }),
+        JSON.stringify(preview),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -128,90 +220,116 @@ Deno.serve(async (req) => {
       const key = url.searchParams.get("key") || "all";
       const title = url.searchParams.get("title") || dataflowId;
       const geo = url.searchParams.get("geo") || "OECD";
+      const confirmed = url.searchParams.get("confirm") === "true";
       
       if (!dataflowId) throw new Error("dataflowId required");
 
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
       const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
 
       const seriesId = `OECD_${dataflowId}_${key.replace(/\./g, "_")}`;
 
-      // Insert series metadata
-      const { error: seriesError } = await supabase.from("series").upsert({
-        id: seriesId,
+      run = await startIngestionRun(supabase, {
+        functionName: "fetch-oecd",
         source: "OECD",
-        provider_id: `${dataflowId}/${key}`,
-        title: title,
-        description: `OECD ${dataflowId} series`,
-        freq: null,
-        unit_original: null,
-        currency_orig: null,
-        geo: geo,
+        seriesId,
+        params: Object.fromEntries(url.searchParams),
+        req,
       });
 
-      if (seriesError) throw seriesError;
+      const ref = await resolveDataflow(url.searchParams);
+      const obsUrl = `${OECD_BASE_URL}/data/${flowRef(ref)}/${key}?format=json`;
+
+      // Count a partial key's series from their latest observation, as preview does,
+      // so an over-broad key is refused before its full history is downloaded
+      if (sdmxKeyIsPartial(key)) {
+        const probe = await providerFetch("OECD", `${obsUrl}&lastNObservations=1`, {
+          headers: { "Accept": DATA_ACCEPT }
+        });
+        assertSdmxFanOut(parseSdmxJson(await probe.json()).length, key, confirmed);
+      }
 
       // Fetch observations
-      let obsUrl = `${OECD_BASE_URL}/data/${dataflowId}/${key}?format=json`;
-      const response = await fetch(obsUrl, {
-        headers: { "Accept": "application/vnd.sdmx.data+json;version=1.0" }
+      const response = await providerFetch("OECD", obsUrl, {
+        headers: { "Accept": DATA_ACCEPT }
       });
       
-      if (!response.ok) {
-        throw new Error(`OECD API error: ${response.status}`);
-      }
-      
+      const lastModified = response.headers.get("last-modified");
       const data = await response.json();
-      
-      // Parse observations
-      const observations: { series_id: string; date: string; value: number | null }[] = [];
-      const timeDimension = data?.data?.structure?.dimensions?.observation?.find((d: any) => d.id === "TIME_PERIOD");
-      const timePeriods = timeDimension?.values || [];
-      
-      const dataSets = data?.data?.dataSets || [];
-      if (dataSets.length > 0 && dataSets[0].series) {
-        const firstSeriesKey = Object.keys(dataSets[0].series)[0];
-        const seriesObs = dataSets[0].series[firstSeriesKey]?.observations || {};
-        
-        for (const [idx, values] of Object.entries(seriesObs)) {
-          const period = timePeriods[parseInt(idx)]?.id;
-          const value = (values as number[])[0];
-          if (period) {
-            let dateStr = period;
-            if (period.match(/^\d{4}$/)) {
-              dateStr = `${period}-01-01`;
-            } else if (period.match(/^\d{4}-\d{2}$/)) {
-              dateStr = `${period}-01`;
-            } else if (period.match(/^\d{4}Q\d$/)) {
-              const year = period.substring(0, 4);
-              const quarter = parseInt(period.substring(5));
-              const month = String((quarter - 1) * 3 + 1).padStart(2, "0");
-              dateStr = `${year}-${month}-01`;
-            }
-            
-            observations.push({
-              series_id: seriesId,
-              date: dateStr,
-              value: value ?? null,
-            });
-          }
+      const parsed = parseSdmxJson(data);
+      assertSdmxFanOut(parsed.length, key, confirmed);
+
+      const targets = sdmxIngestTargets(parsed, {
+        idPrefix: "OECD",
+        flowId: dataflowId,
+        key,
+        seriesId,
+        title: title || dataflowId,
+        providerFlowId: flowRef(ref),
+      });
+      let observationCount = 0;
+
+      for (const target of targets) {
+        const observations = (target.series?.observations || [])
+          .filter((obs) => obs.date)
+          .map((obs) => ({
+            series_id: target.seriesId,
+            date: obs.date!,
+            value: obs.value,
+            status: sdmxObservationStatus(obs),
+          }));
+
+        // Insert series metadata
+        const metadata = sdmxSeriesMetadata(target.series);
+        const { error: seriesError } = await supabase.from("series").upsert({
+          id: target.seriesId,
+          source: "OECD",
+          provider_id: target.providerId,
+          title: target.title,
+          description: `OECD ${dataflowId} series`,
+          freq: target.series ? sdmxFrequency(target.series) : null,
+          unit_original: metadata.unit,
+          currency_orig: metadata.currency,
+          geo: target.series?.dimensions.REF_AREA?.id || geo,
+          seasonal_adjustment: metadata.seasonalAdjustment,
+          unit_multiplier: metadata.unitMultiplier,
+          provider_updated_at: lastModified ? new Date(lastModified).toISOString() : null,
+          license: OECD_LICENSE,
+        });
+
+        if (seriesError) throw seriesError;
+
+        if (observations.length > 0) {
+          const { error: obsError } = await supabase
+            .from("observations")
+            .upsert(observations, { onConflict: "series_id,date" });
+
+          if (obsError) throw obsError;
         }
-      }
 
-      if (observations.length > 0) {
-        const { error: obsError } = await supabase
-          .from("observations")
-          .upsert(observations, { onConflict: "series_id,date" });
+        await replaceFootnotes(supabase, target.seriesId, sdmxFootnotes(target.series));
+
+        const { error: fxError } = await supabase.rpc("apply_fx_conversion", { p_series_id: target.seriesId });
+        if (fxError) console.error("FX conversion failed:", fxError);
+
+        const { error: rangeError } = await supabase.rpc("update_series_observation_range", { p_series_id: target.seriesId });
+        if (rangeError) console.error("Observation range update failed:", rangeError);
 
-        if (obsError) throw obsError;
+        observationCount += observations.length;
       }
 
+      const seriesIds = targets.map((t) => t.seriesId);
+      await run.succeed({ seriesIds, rowsReceived: observationCount });
+
       return new Response(
         JSON.stringify({
           success: true,
-          seriesId,
-          observationCount: observations.length,
+          seriesId: seriesIds[0],
+          seriesIds,
+          seriesCount: seriesIds.length,
+          observationCount,
         }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
@@ -223,13 +341,7 @@ Deno.serve(async (req) => {
     });
   } catch (error) {
     console.error("Error in fetch-oecd:", error);
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    await run?.fail(error);
+    return errorResponse(error, corsHeaders);
   }
 });
@@ -0,0 +1,285 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireRole } from "../_shared/auth.ts";
+import { errorResponse, providerFetch } from "../_shared/http.ts";
+import { startIngestionRun, type IngestionRun } from "../_shared/ingestion-runs.ts";
+import {
+  PXWEB_MAX_SERIES,
+  PXWEB_SOURCES,
+  assertPxWebProviderIdsFree,
+  pxwebBaseUrl,
+  pxwebIngestTargets,
+  type PxWebMetadata,
+  type PxWebQuery,
+  type PxWebSeriesSlice,
+} from "../_shared/pxweb.ts";
+import { fetchV2Data, fetchV2Metadata, pxwebV2TableId, type JsonStat2Dataset } from "../_shared/pxweb-v2.ts";
+import { storeSeries } from "../_shared/series-store.ts";
+import {
+  STATFIN_TABLE_MODULES,
+  buildModuleQuery,
+  getTableModule,
+  moduleRows,
+  resolveModuleVariables,
+  type StatFinTableModule,
+} from "../_shared/statfin-modules.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+const STATFIN = PXWEB_SOURCES.STATFIN;
+
+interface ModuleRequestBody {
+  /** Selected value codes per module variable key */
+  selections?: Record<string, string[]>;
+  seriesId?: string;
+  title?: string;
+}
+
+// ========== Helper Functions ==========
+
+function tableUrl(module: StatFinTableModule): string {
+  return `${pxwebBaseUrl(STATFIN, module.language)}/${module.tablePath}`;
+}
+
+/**
+ * Table metadata from PxWeb v1, or from PxWebApi 2.0 when api is "v2"
+ */
+async function fetchModuleMeta(module: StatFinTableModule, api: string): Promise<PxWebMetadata> {
+  if (api === "v2") {
+    return await fetchV2Metadata(STATFIN, pxwebV2TableId(module.tablePath), module.language);
+  }
+
+  const response = await providerFetch(STATFIN.name, tableUrl(module), {
+    headers: { "Accept": "application/json" },
+  });
+  return await response.json() as PxWebMetadata;
+}
+
+/**
+ * JSON-stat2 data for a query; both API versions return the same format
+ */
+async function fetchModuleData(module: StatFinTableModule, api: string, query: PxWebQuery): Promise<JsonStat2Dataset> {
+  if (api === "v2") {
+    const { dataset } = await fetchV2Data(STATFIN, pxwebV2TableId(module.tablePath), query, module.language);
+    return dataset;
+  }
+
+  const response = await providerFetch(STATFIN.name, tableUrl(module), {
+    method: "POST",
+    headers: {
+      "Content-Type": "application/json",
+      "Accept": "application/json",
+    },
+    body: JSON.stringify(query),
+  });
+  return await response.json() as JsonStat2Dataset;
+}
+
+async function readBody(req: Request): Promise<ModuleRequestBody> {
+  if (req.method !== "POST") return {};
+  try {
+    return await req.json();
+  } catch {
+    // Use module defaults if no body
+    return {};
+  }
+}
+
+// ========== Request Handler ==========
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let run: IngestionRun | null = null;
+
+  try {
+    const url = new URL(req.url);
+    const action = url.searchParams.get("action");
+    const api = url.searchParams.get("api") === "v2" ? "v2" : "v1";
+
+    console.log("StatFin Table Module Request:", { action, module: url.searchParams.get("module"), api });
+
+    // ===== GET /modules - List module definitions =====
+    if (action === "modules") {
+      return new Response(
+        JSON.stringify({ success: true, modules: Object.values(STATFIN_TABLE_MODULES) }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    const module = getTableModule(url.searchParams.get("module"));
+
+    // ===== GET /meta - Fetch table metadata =====
+    if (action === "meta") {
+      const meta = await fetchModuleMeta(module, api);
+
+      console.log("Fetched metadata:", meta.title, "Variables:", meta.variables.length);
+
+      return new Response(
+        JSON.stringify({ success: true, module, meta }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ===== POST /data - Fetch rows for the selected values =====
+    if (action === "data") {
+      const { selections } = await readBody(req);
+
+      const meta = await fetchModuleMeta(module, api);
+      const query = buildModuleQuery(module, meta, selections);
+      console.log("Built PxWeb query:", JSON.stringify(query));
+
+      const dataset = await fetchModuleData(module, api, query);
+      const rows = moduleRows(module, dataset);
+
+      console.log(`Parsed ${rows.length} data rows`);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          meta: {
+            title: dataset.label,
+            source: dataset.source,
+            updated: dataset.updated,
+          },
+          data: rows,
+          rowCount: rows.length,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // ===== POST /ingest - Store the module's series in the warehouse =====
+    if (action === "ingest") {
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
+
+      const body = await readBody(req);
+      const seriesId = body.seriesId || module.series.id;
+      const customTitle = body.title || module.series.title;
+
+      console.log("Ingesting table module:", { module: module.id, seriesId, customTitle });
+
+      run = await startIngestionRun(supabase, {
+        functionName: "fetch-statfin-module",
+        source: STATFIN.code,
+        seriesId,
+        params: { ...body, module: module.id, api },
+        req,
+      });
+
+      const meta = await fetchModuleMeta(module, api);
+      const query = buildModuleQuery(module, meta, body.selections);
+      const dataset = await fetchModuleData(module, api, query);
+      const rows = moduleRows(module, dataset);
+
+      // One series per combination of measure and dimension values, as fetch-statfin splits tables
+      const resolved = resolveModuleVariables(module, meta);
+      const sliceKeys = module.variables
+        .filter((v) => (v.role === "measure" || v.role === "dimension") && resolved.has(v.key))
+        .map((v) => v.key);
+      const slices = new Map<string, PxWebSeriesSlice>();
+      const seenDates = new Map<string, Set<string>>();
+      for (const row of rows) {
+        if (row.value === null || !row.date) continue;
+        const sliceKey = sliceKeys.map((key) => row.codes[key]).join("|");
+        let slice = slices.get(sliceKey);
+        if (!slice) {
+          slice = {
+            selection: Object.fromEntries(sliceKeys.map((key) => [resolved.get(key)!.code, row.codes[key]])),
+            labels: Object.fromEntries(sliceKeys.map((key) => [resolved.get(key)!.code, row.labels[key]])),
+            unit: module.series.unit,
+            observations: [],
+            footnotes: [],
+          };
+          slices.set(sliceKey, slice);
+          seenDates.set(sliceKey, new Set());
+        }
+        // Only table variables the module does not list can still repeat a date
+        const dates = seenDates.get(sliceKey)!;
+        if (dates.has(row.date)) {
+          throw new Error(`Several values for ${row.date} in one series: a variable of ${module.tablePath} that the ${module.id} module does not list has more than one value`);
+        }
+        dates.add(row.date);
+        slice.observations.push({ date: row.date, value: row.value, status: null });
+      }
+      if (slices.size > PXWEB_MAX_SERIES) {
+        throw new Error(`Selections match ${slices.size} series; narrow them to at most ${PXWEB_MAX_SERIES}`);
+      }
+
+      const targets = pxwebIngestTargets(Array.from(slices.values()), {
+        tablePath: module.tablePath,
+        seriesId,
+        title: customTitle,
+        query,
+      });
+      await assertPxWebProviderIdsFree(supabase, STATFIN.code, targets);
+
+      const keyByCode = new Map(sliceKeys.map((key) => [resolved.get(key)!.code, key]));
+      const providerUpdatedAt = dataset.updated ? new Date(dataset.updated).toISOString() : null;
+
+      const observationCount = await storeSeries(supabase, targets.map((target) => {
+        // Narrow the selections to this series' values so refreshes re-create only it
+        const selections = { ...body.selections };
+        for (const [code, value] of Object.entries(target.slice?.selection || {})) {
+          selections[keyByCode.get(code)!] = [value];
+        }
+
+        return {
+          row: {
+            id: target.seriesId,
+            source: STATFIN.code,
+            provider_id: target.providerId,
+            title: target.title,
+            description: meta.title,
+            freq: module.series.freq,
+            unit_original: module.series.unit,
+            currency_orig: null,
+            geo: STATFIN.geo,
+            unit_multiplier: 0,
+            provider_updated_at: providerUpdatedAt,
+            license: STATFIN.license,
+            ingest_params: {
+              function: "fetch-statfin-module",
+              module: module.id,
+              api,
+              selections,
+            },
+          },
+          observations: (target.slice?.observations || []).map((obs) => ({ date: obs.date, value: obs.value })),
+        };
+      }));
+
+      const seriesIds = targets.map((t) => t.seriesId);
+      await run.succeed({ seriesIds, rowsReceived: observationCount });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          seriesId: seriesIds[0],
+          seriesIds,
+          seriesCount: seriesIds.length,
+          observationCount,
+          sampleDates: (targets[0].slice?.observations || []).slice(0, 5).map((o) => o.date),
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(
+      JSON.stringify({ error: "Invalid action. Use: modules, meta, data, or ingest" }),
+      { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } }
+    );
+
+  } catch (error) {
+    console.error("Error in fetch-statfin-module:", error);
+    await run?.fail(error);
+    return errorResponse(error, corsHeaders);
+  }
+});
@@ -1,195 +1,103 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireRole } from "../_shared/auth.ts";
+import { errorResponse, providerFetch } from "../_shared/http.ts";
+import { startIngestionRun, type IngestionRun } from "../_shared/ingestion-runs.ts";
+import { replaceCatalog, searchCatalog, type CatalogEntry } from "../_shared/provider-catalog.ts";
+import {
+  PXWEB_MAX_SERIES,
+  assertPxWebProviderIdsFree,
+  detectFrequency,
+  detectSeasonalAdjustment,
+  detectUnitMultiplier,
+  findTimeVariable,
+  getPxWebSource,
+  pxwebBaseUrl,
+  pxwebCurrency,
+  pxwebIngestTargets,
+  pxwebTablePath,
+  splitPxWebIntoSeries,
+  type PxWebDataResponse,
+  type PxWebMetadata,
+  type PxWebQuery,
+  type PxWebSource,
+} from "../_shared/pxweb.ts";
+import { fetchV2Data, fetchV2Metadata, fetchV2Navigation, fetchV2Tables, pxwebV2TableId } from "../_shared/pxweb-v2.ts";
+import { runPxWebQueryInChunks } from "../_shared/pxweb-chunks.ts";
+import { storeSeries } from "../_shared/series-store.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
-interface PxWebQuery {
-  query: Array<{
-    code: string;
-    selection: {
-      filter: string;
-      values: string[];
-    };
-  }>;
-  response: {
-    format: string;
-  };
-}
-
-interface PxWebVariable {
-  code: string;
-  text: string;
-  values: string[];
-  valueTexts: string[];
-  time?: boolean;
-}
-
-interface PxWebMetadata {
-  title: string;
-  variables: PxWebVariable[];
-  updated?: string;
-  source?: string;
-}
-
-interface PxWebDataItem {
-  key: string[];
-  values: string[];
-}
-
-interface PxWebDataResponse {
-  columns?: Array<{ code: string; text: string; type: string; unit?: string }>;
-  comments?: any[];
-  data?: PxWebDataItem[];
-}
-
 /**
- * Find the time variable in metadata
+ * Table metadata and the query's data, run in chunks when it exceeds the source's cell limit.
+ * tablePath is a v1 path under baseUrl, or a table id for v2.
  */
-function findTimeVariable(variables: PxWebVariable[]): { index: number; variable: PxWebVariable | null } {
-  const idx = variables.findIndex(
-    (v) =>
-      v.time === true ||
-      v.code.toLowerCase().includes('vuosi') ||
-      v.code.toLowerCase().includes('aika') ||
-      v.code.toLowerCase().includes('kuukausi') ||
-      v.code.toLowerCase().includes('neljännes') ||
-      v.code.toLowerCase() === 'year' ||
-      v.code.toLowerCase() === 'time' ||
-      v.code.toLowerCase() === 'quarter' ||
-      v.code.toLowerCase() === 'month' ||
-      (v.values.length > 0 && /^\d{4}/.test(v.values[0]))
-  );
-  return { index: idx, variable: idx >= 0 ? variables[idx] : null };
-}
-
-/**
- * Convert StatFin time values to ISO date format
- * - Annual: 2020 -> 2020-01-01
- * - Quarterly: 2020Q1 or 2020K1 -> 2020-01-01, Q2->04-01, Q3->07-01, Q4->10-01
- * - Monthly: 2020M01 or 2020-01 -> 2020-01-01
- */
-function normalizeTimeToISO(timeKey: string): string {
-  if (!timeKey) return '';
-  
-  // Quarterly format: 2024Q1, 2024K1, 2024Q3
-  const quarterMatch = timeKey.match(/^(\d{4})[QK](\d)$/i);
-  if (quarterMatch) {
-    const year = quarterMatch[1];
-    const quarter = parseInt(quarterMatch[2]);
-    const monthMap: Record<number, string> = { 1: '01', 2: '04', 3: '07', 4: '10' };
-    const month = monthMap[quarter] || '01';
-    return `${year}-${month}-01`;
-  }
-  
-  // Monthly format: 2024M01
-  const monthMatch = timeKey.match(/^(\d{4})M(\d{2})$/i);
-  if (monthMatch) {
-    return `${monthMatch[1]}-${monthMatch[2]}-01`;
-  }
-  
-  // Monthly format: 2024-01
-  const monthDashMatch = timeKey.match(/^(\d{4})-(\d{2})$/);
-  if (monthDashMatch) {
-    return `${monthDashMatch[1]}-${monthDashMatch[2]}-01`;
-  }
-  
-  // Already ISO format: 2024-01-01
-  if (/^\d{4}-\d{2}-\d{2}$/.test(timeKey)) {
-    return timeKey;
-  }
-  
-  // Annual format: 2024 -> 2024-01-01
-  if (/^\d{4}$/.test(timeKey)) {
-    return `${timeKey}-01-01`;
+async function fetchTableData(
+  source: PxWebSource,
+  api: "v1" | "v2",
+  baseUrl: string,
+  tablePath: string,
+  query: PxWebQuery,
+  language: string,
+): Promise<{ metadata: PxWebMetadata; data: PxWebDataResponse }> {
+  if (api === "v2") {
+    const metadata = await fetchV2Metadata(source, tablePath, language);
+    const data = await runPxWebQueryInChunks(query, metadata, source.limits, async (chunk) =>
+      (await fetchV2Data(source, tablePath, chunk, language)).data
+    );
+    return { metadata, data };
   }
-  
-  // Fallback: return as is
-  return timeKey;
-}
 
-/**
- * Determine frequency from time values
- */
-function detectFrequency(timeValues: string[]): string {
-  if (timeValues.length === 0) return 'A';
-  const sample = timeValues[0];
-  if (/[QK]\d/i.test(sample)) return 'Q';
-  if (/M\d{2}/i.test(sample) || /^\d{4}-\d{2}$/.test(sample)) return 'M';
-  return 'A';
+  const apiUrl = `${baseUrl}/${tablePath}`;
+  console.log("Fetching data from:", apiUrl);
+
+  const metaResponse = await providerFetch(source.name, apiUrl);
+  const metadata: PxWebMetadata = await metaResponse.json();
+  console.log("Metadata title:", metadata.title);
+  console.log("Variables:", metadata.variables?.map(v => `${v.code} (${v.values.length} values)`).join(', '));
+
+  const data = await runPxWebQueryInChunks(query, metadata, source.limits, async (chunk) => {
+    const response = await providerFetch(source.name, apiUrl, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(chunk),
+    });
+    return await response.json();
+  });
+  return { metadata, data };
 }
 
 /**
- * Flatten PxWeb response to observations array
- * Deduplicate by date - if multiple values exist for same date, take the first one
+ * Every table of a source from the v2 listing, for the provider_catalog table. Titles are
+ * English where the source translates them; sources publishing in Finnish also get the
+ * Finnish title so Finnish searches match.
  */
-function flattenPxWebToObservations(
-  data: PxWebDataResponse,
-  metadata: PxWebMetadata,
-  seriesId: string
-): Array<{ series_id: string; date: string; value: number | null; value_eur: number | null }> {
-  const observationMap = new Map<string, { series_id: string; date: string; value: number | null; value_eur: number | null }>();
-  
-  if (!data.data || !Array.isArray(data.data)) {
-    console.log("No data array in PxWeb response");
-    return [];
-  }
-  
-  const { index: timeIndex, variable: timeVar } = findTimeVariable(metadata.variables);
-  console.log(`Time variable found at index ${timeIndex}:`, timeVar?.code);
-  
-  if (timeIndex < 0) {
-    console.warn("No time variable found in metadata, attempting position-based extraction");
-  }
-  
-  // Build lookup for time values -> ISO dates
-  const timeValueToISO: Record<string, string> = {};
-  if (timeVar) {
-    timeVar.values.forEach((val) => {
-      timeValueToISO[val] = normalizeTimeToISO(val);
-    });
-  }
-  
-  // Process each data item
-  data.data.forEach((item) => {
-    if (!item.key || !item.values || item.values.length === 0) return;
-    
-    // Get time value from the key at timeIndex, or assume first key is time
-    const timeKey = timeIndex >= 0 ? item.key[timeIndex] : item.key[0];
-    const date = timeValueToISO[timeKey] || normalizeTimeToISO(timeKey);
-    
-    if (!date) {
-      console.warn("Could not parse date from:", timeKey);
-      return;
-    }
-    
-    // Skip if we already have an observation for this date (deduplicate)
-    if (observationMap.has(date)) {
-      return;
-    }
-    
-    // Parse value (handle ".." as null)
-    const rawValue = item.values[0];
-    let value: number | null = null;
-    if (rawValue !== '..' && rawValue !== '.' && rawValue !== '' && rawValue !== null && rawValue !== undefined) {
-      const parsed = parseFloat(rawValue);
-      if (!isNaN(parsed)) {
-        value = parsed;
-      }
-    }
-    
-    observationMap.set(date, {
-      series_id: seriesId,
-      date,
-      value,
-      value_eur: value, // StatFin data is in EUR
-    });
-  });
-  
-  const observations = Array.from(observationMap.values());
-  console.log(`Flattened ${observations.length} observations (deduplicated from ${data.data.length} items)`);
-  return observations;
+async function fetchCatalog(source: PxWebSource): Promise<CatalogEntry[]> {
+  const language = source.languages.includes("en") ? "en" : source.defaultLanguage;
+  const tables = await fetchV2Tables(source, language);
+  const finnishTitles = source.languages.includes("fi")
+    ? new Map((await fetchV2Tables(source, "fi")).map((table) => [table.id, table.label]))
+    : new Map<string, string>();
+
+  return tables.map((table) => ({
+    code: table.id,
+    title: table.label,
+    titleFi: finnishTitles.get(table.id) ?? null,
+    description: table.description || null,
+    details: {
+      id: table.id,
+      title: table.label,
+      titleFi: finnishTitles.get(table.id) ?? null,
+      updated: table.updated ?? null,
+      firstPeriod: table.firstPeriod ?? null,
+      lastPeriod: table.lastPeriod ?? null,
+      api: "v2",
+    },
+  }));
 }
 
 Deno.serve(async (req) => {
@@ -197,18 +105,64 @@ Deno.serve(async (req) => {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let run: IngestionRun | null = null;
+
   try {
     const url = new URL(req.url);
     const action = url.searchParams.get("action");
-    const language = url.searchParams.get("language") || "en";
+    const source = getPxWebSource(url.searchParams.get("source"));
+    const language = url.searchParams.get("language") || source.defaultLanguage;
+    // PxWebApi 2.0 addresses tables by id and returns JSON-stat2; responses are converted to the v1 shapes
+    const api = url.searchParams.get("api") === "v2" ? "v2" : "v1";
+
+    console.log("PxWeb API Request:", { source: source.code, api, action, language });
+
+    const baseUrl = pxwebBaseUrl(source, language);
+
+    // The catalog is the v2 table listing; v1-only sources (SSB, Hagstofa) are browsed with action=databases
+    if ((action === "search" || action === "refresh-catalog") && !source.v2BaseUrl) {
+      return new Response(
+        JSON.stringify({ error: `${source.name} does not publish a table listing to search; browse its tables with action=databases` }),
+        { status: 400, headers: { ...corsHeaders, "Content-Type": "application/json" } },
+      );
+    }
+
+    // Search the source's tables (v2 table ids, ingestable with api=v2)
+    if (action === "search") {
+      const query = url.searchParams.get("query") || "";
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      const catalog = await searchCatalog(supabase, source.code, query);
 
-    console.log("StatFin API Request:", { action, language });
+      return new Response(JSON.stringify(catalog), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
-    const pxwebBaseUrl = `https://pxdata.stat.fi/PXWeb/api/v1/${language}`;
+    // Re-download the table list into provider_catalog (scheduled daily for StatFin)
+    if (action === "refresh-catalog") {
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
+      const entries = await replaceCatalog(supabase, source.code, await fetchCatalog(source));
+
+      return new Response(JSON.stringify({ success: true, source: source.code, entries }), {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+      });
+    }
 
     // List databases
     if (action === "databases") {
-      const response = await fetch(`${pxwebBaseUrl}`);
+      if (api === "v2") {
+        const data = await fetchV2Navigation(source, null, language);
+        return new Response(JSON.stringify(data), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      const response = await providerFetch(source.name, baseUrl);
       const data = await response.json();
 
       return new Response(JSON.stringify(data), {
@@ -218,18 +172,22 @@ Deno.serve(async (req) => {
 
     // List tables in a database
     if (action === "tables") {
-      let databasePath = url.searchParams.get("databasePath") || "StatFin";
-      databasePath = databasePath.replace(/^\/+|\/+$/g, '');
+      // v2 folder ids are unique, so only the last segment of the path is needed
+      if (api === "v2") {
+        const folderId = url.searchParams.get("databasePath")?.split("/").filter(Boolean).pop() || null;
+        const data = await fetchV2Navigation(source, folderId, language);
+        return new Response(JSON.stringify(data), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
+      }
+
+      // Sources whose API root is a single database list it with an empty path
+      const databasePath = (url.searchParams.get("databasePath") ?? source.databases[0] ?? "").replace(/^\/+|\/+$/g, '');
       
-      const apiUrl = `${pxwebBaseUrl}/${databasePath}`;
+      const apiUrl = databasePath ? `${baseUrl}/${databasePath}` : baseUrl;
       console.log("Fetching tables from:", apiUrl);
       
-      const response = await fetch(apiUrl);
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("StatFin API error:", response.status, errorText);
-        throw new Error(`StatFin API returned ${response.status}: ${errorText}`);
-      }
+      const response = await providerFetch(source.name, apiUrl);
       const data = await response.json();
 
       return new Response(JSON.stringify(data), {
@@ -243,20 +201,18 @@ Deno.serve(async (req) => {
       if (!tablePath) {
         throw new Error("tablePath required");
       }
-      tablePath = tablePath.replace(/^\/+/, '');
-      if (!tablePath.includes("/") || !["StatFin", "Check", "Hyvinvointialueet", "Kokeelliset_tilastot", "Kuntien_avainluvut", "Kuntien_talous_ja_toiminta", "Maahanmuuttajat_ja_kotoutuminen", "NOVI-fi", "Postinumeroalueittainen_avoin_tieto", "SDG", "StatFin_Passiivi"].some(db => tablePath!.startsWith(db))) {
-        tablePath = `StatFin/${tablePath}`;
+      if (api === "v2") {
+        const data = await fetchV2Metadata(source, pxwebV2TableId(tablePath), language);
+        return new Response(JSON.stringify(data), {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+        });
       }
+      tablePath = pxwebTablePath(source, tablePath);
 
-      const apiUrl = `${pxwebBaseUrl}/${tablePath}`;
+      const apiUrl = `${baseUrl}/${tablePath}`;
       console.log("Fetching metadata from:", apiUrl);
       
-      const response = await fetch(apiUrl);
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("StatFin API error:", response.status, errorText);
-        throw new Error(`StatFin API returned ${response.status}: ${errorText}`);
-      }
+      const response = await providerFetch(source.name, apiUrl);
       const data = await response.json();
 
       return new Response(JSON.stringify(data), {
@@ -270,31 +226,13 @@ Deno.serve(async (req) => {
       if (!tablePath) {
         throw new Error("tablePath required");
       }
-      tablePath = tablePath.replace(/^\/+/, '');
-      if (!tablePath.includes("/") || !["StatFin", "Check", "Hyvinvointialueet", "Kokeelliset_tilastot", "Kuntien_avainluvut", "Kuntien_talous_ja_toiminta", "Maahanmuuttajat_ja_kotoutuminen", "NOVI-fi", "Postinumeroalueittainen_avoin_tieto", "SDG", "StatFin_Passiivi"].some(db => tablePath!.startsWith(db))) {
-        tablePath = `StatFin/${tablePath}`;
-      }
+
+      tablePath = api === "v2" ? pxwebV2TableId(tablePath) : pxwebTablePath(source, tablePath);
 
       const body = await req.json();
       const query: PxWebQuery = body.query;
 
-      const apiUrl = `${pxwebBaseUrl}/${tablePath}`;
-      console.log("Fetching data from:", apiUrl);
-
-      const response = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(query),
-      });
-
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("StatFin API error:", response.status, errorText);
-        throw new Error(`StatFin API returned ${response.status}: ${errorText}`);
-      }
-      const data = await response.json();
+      const { data } = await fetchTableData(source, api, baseUrl, tablePath, query, language);
 
       return new Response(JSON.stringify(data), {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
@@ -309,10 +247,7 @@ Deno.serve(async (req) => {
       if (!tablePath) {
         throw new Error("tablePath required");
       }
-      tablePath = tablePath.replace(/^\/+/, '');
-      if (!tablePath.includes("/") || !["StatFin", "Check", "Hyvinvointialueet", "Kokeelliset_tilastot", "Kuntien_avainluvut", "Kuntien_talous_ja_toiminta", "Maahanmuuttajat_ja_kotoutuminen", "NOVI-fi", "Postinumeroalueittainen_avoin_tieto", "SDG", "StatFin_Passiivi"].some(db => tablePath!.startsWith(db))) {
-        tablePath = `StatFin/${tablePath}`;
-      }
+      tablePath = api === "v2" ? pxwebV2TableId(tablePath) : pxwebTablePath(source, tablePath);
 
       const body = await req.json();
       const query: PxWebQuery = body.query;
@@ -321,40 +256,22 @@ Deno.serve(async (req) => {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
       const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
 
-      const apiUrl = `${pxwebBaseUrl}/${tablePath}`;
-      console.log("Ingesting from:", apiUrl);
-
-      // Fetch metadata first
-      const metaResponse = await fetch(apiUrl);
-      if (!metaResponse.ok) {
-        const errorText = await metaResponse.text();
-        console.error("StatFin metadata error:", metaResponse.status, errorText);
-        throw new Error(`StatFin API returned ${metaResponse.status}: ${errorText}`);
-      }
-      const metadata: PxWebMetadata = await metaResponse.json();
-      console.log("Metadata title:", metadata.title);
-      console.log("Variables:", metadata.variables?.map(v => `${v.code} (${v.values.length} values)`).join(', '));
-
-      // Fetch data
-      const dataResponse = await fetch(apiUrl, {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(query),
+      // Generate series ID
+      const seriesId = seriesIdParam || `${source.code}_${tablePath.replace(/\//g, "_").replace(/\.px$/, '')}`;
+
+      run = await startIngestionRun(supabase, {
+        functionName: "fetch-statfin",
+        source: source.code,
+        seriesId,
+        params: { ...Object.fromEntries(url.searchParams), query, title: customTitle },
+        req,
       });
 
-      if (!dataResponse.ok) {
-        const errorText = await dataResponse.text();
-        console.error("StatFin data error:", dataResponse.status, errorText);
-        throw new Error(`StatFin API returned ${dataResponse.status}: ${errorText}`);
-      }
-      const data: PxWebDataResponse = await dataResponse.json();
+      const { metadata, data } = await fetchTableData(source, api, baseUrl, tablePath, query, language);
       console.log("Data items received:", data.data?.length || 0);
 
-      // Generate series ID
-      const seriesId = seriesIdParam || `STATFIN_${tablePath.replace(/\//g, "_").replace(/\.px$/, '')}`;
       const title = customTitle || metadata.title || tablePath;
 
       // Detect frequency from time variable
@@ -362,38 +279,56 @@ Deno.serve(async (req) => {
       const freq = timeVar ? detectFrequency(timeVar.values) : 'A';
 
       // Extract unit from response columns or metadata
-      const unit = data.columns?.find(c => c.type === 'c')?.unit || 
-                   data.columns?.find(c => c.type === 'c')?.text || 
-                   null;
-
-      // Upsert series
-      const { error: seriesError } = await supabase.from("series").upsert({
-        id: seriesId,
-        source: "STATFIN",
-        provider_id: tablePath,
-        title: title,
-        description: metadata.source || null,
-        freq: freq,
-        unit_original: unit,
-        currency_orig: "EUR",
-        geo: "FI",
-      });
+      const tableUnit = data.columns?.find(c => c.type === 'c')?.unit || 
+                        data.columns?.find(c => c.type === 'c')?.text || 
+                        null;
 
-      if (seriesError) {
-        console.error("Series upsert error:", seriesError);
-        throw seriesError;
+      const slices = splitPxWebIntoSeries(data, metadata);
+      if (slices.length > PXWEB_MAX_SERIES) {
+        throw new Error(`Query matches ${slices.length} series; narrow it to at most ${PXWEB_MAX_SERIES}`);
       }
-      console.log("Series upserted:", seriesId);
 
-      // Flatten observations
-      const observations = flattenPxWebToObservations(data, metadata, seriesId);
-      
-      if (observations.length === 0) {
+      const targets = pxwebIngestTargets(slices, { tablePath, seriesId, title, query });
+
+      await assertPxWebProviderIdsFree(supabase, source.code, targets);
+
+      const providerUpdatedAt = data.metadata?.[0]?.updated ? new Date(data.metadata[0].updated).toISOString() : null;
+      // value_eur and value_usd are filled by apply_fx_conversion_many from the unit's currency
+      const insertedCount = await storeSeries(supabase, targets.map((target) => {
+        const unit = target.slice?.unit || tableUnit;
+        return {
+          row: {
+            id: target.seriesId,
+            source: source.code,
+            provider_id: target.providerId,
+            title: target.title,
+            description: metadata.source || null,
+            freq: freq,
+            unit_original: unit,
+            currency_orig: pxwebCurrency(source, unit),
+            geo: source.geo,
+            ingest_params: { language, query: target.query, api, tablePath },
+            seasonal_adjustment: detectSeasonalAdjustment(metadata, target.query),
+            unit_multiplier: detectUnitMultiplier(unit),
+            provider_updated_at: providerUpdatedAt,
+            license: source.license,
+          },
+          observations: target.slice?.observations || [],
+          footnotes: target.slice?.footnotes || [],
+        };
+      }));
+
+      const seriesIds = targets.map((t) => t.seriesId);
+      await run.succeed({ seriesIds, rowsReceived: insertedCount });
+
+      if (insertedCount === 0) {
         console.warn("No observations extracted from data");
         return new Response(
           JSON.stringify({
             success: true,
-            seriesId,
+            seriesId: seriesIds[0],
+            seriesIds,
+            seriesCount: seriesIds.length,
             observationCount: 0,
             warning: "No observations could be extracted from the data",
           }),
@@ -401,36 +336,16 @@ Deno.serve(async (req) => {
         );
       }
 
-      // Log first few observations for debugging
-      console.log("Sample observations:", observations.slice(0, 3));
-
-      // Upsert observations in batches
-      const batchSize = 500;
-      let insertedCount = 0;
-      
-      for (let i = 0; i < observations.length; i += batchSize) {
-        const batch = observations.slice(i, i + batchSize);
-        const { error: obsError } = await supabase
-          .from("observations")
-          .upsert(batch, { onConflict: "series_id,date" });
-
-        if (obsError) {
-          console.error("Observations upsert error:", obsError);
-          throw obsError;
-        }
-        insertedCount += batch.length;
-      }
-
-      console.log(`Upserted ${insertedCount} observations for ${seriesId}`);
-
       return new Response(
         JSON.stringify({
           success: true,
-          seriesId,
-          title,
+          seriesId: seriesIds[0],
+          seriesIds,
+          seriesCount: seriesIds.length,
+          title: targets[0].title,
           freq,
           observationCount: insertedCount,
-          sampleDates: observations.slice(0, 5).map(o => o.date),
+          sampleDates: (targets[0].slice?.observations || []).slice(0, 5).map(o => o.date),
         }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
@@ -442,13 +357,7 @@ Deno.serve(async (req) => {
     });
   } catch (error) {
     console.error("Error in fetch-statfin:", error);
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    await run?.fail(error);
+    return errorResponse(error, corsHeaders);
   }
 });
@@ -1,4 +1,8 @@
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireRole } from "../_shared/auth.ts";
+import { errorResponse, providerFetch } from "../_shared/http.ts";
+import { startIngestionRun, type IngestionRun } from "../_shared/ingestion-runs.ts";
+import { replaceCatalog, searchCatalog, type CatalogEntry } from "../_shared/provider-catalog.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -6,12 +10,36 @@ const corsHeaders = {
 };
 
 const WB_BASE_URL = "https://api.worldbank.org/v2";
+const WB_LICENSE = "CC BY 4.0";
+
+// Every World Development Indicators indicator (source 2), for the provider_catalog table
+async function fetchCatalog(): Promise<CatalogEntry[]> {
+  const response = await providerFetch("World Bank", `${WB_BASE_URL}/indicator?format=json&per_page=20000&source=2`);
+  const data = await response.json();
+  const indicators = data[1] || [];
+
+  return indicators
+    .filter((ind: any) => ind.id && ind.name)
+    .map((ind: any) => ({
+      code: ind.id,
+      title: ind.name,
+      description: ind.sourceNote || null,
+      details: {
+        id: ind.id,
+        name: ind.name,
+        sourceNote: ind.sourceNote,
+        sourceOrganization: ind.sourceOrganization,
+      },
+    }));
+}
 
 Deno.serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
   }
 
+  let run: IngestionRun | null = null;
+
   try {
     const url = new URL(req.url);
     const action = url.searchParams.get("action");
@@ -21,35 +49,27 @@ Deno.serve(async (req) => {
     // Search indicators
     if (action === "search") {
       const query = url.searchParams.get("query") || "";
-      const searchUrl = `${WB_BASE_URL}/indicator?format=json&per_page=50&source=2`;
-      
-      const response = await fetch(searchUrl);
-      
-      if (!response.ok) {
-        throw new Error(`World Bank API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
-      const indicators = data[1] || [];
-      
-      // Filter by query
-      const queryLower = query.toLowerCase();
-      const filtered = indicators
-        .filter((ind: any) => {
-          const name = ind.name || "";
-          const id = ind.id || "";
-          return name.toLowerCase().includes(queryLower) || id.toLowerCase().includes(queryLower);
-        })
-        .slice(0, 50)
-        .map((ind: any) => ({
-          id: ind.id,
-          name: ind.name,
-          sourceNote: ind.sourceNote,
-          sourceOrganization: ind.sourceOrganization,
-        }));
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      const catalog = await searchCatalog(supabase, "WORLDBANK", query);
 
       return new Response(
-        JSON.stringify({ results: filtered }),
+        JSON.stringify(catalog),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    // Re-download the indicator list into provider_catalog (scheduled daily)
+    if (action === "refresh-catalog") {
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
+      const entries = await replaceCatalog(supabase, "WORLDBANK", await fetchCatalog());
+
+      return new Response(
+        JSON.stringify({ success: true, source: "WORLDBANK", entries }),
         { headers: { ...corsHeaders, "Content-Type": "application/json" } }
       );
     }
@@ -58,11 +78,7 @@ Deno.serve(async (req) => {
     if (action === "countries") {
       const countriesUrl = `${WB_BASE_URL}/country?format=json&per_page=300`;
       
-      const response = await fetch(countriesUrl);
-      
-      if (!response.ok) {
-        throw new Error(`World Bank API error: ${response.status}`);
-      }
+      const response = await providerFetch("World Bank", countriesUrl);
       
       const data = await response.json();
       const countries = (data[1] || []).map((c: any) => ({
@@ -91,13 +107,7 @@ Deno.serve(async (req) => {
 
       console.log("Fetching World Bank data:", obsUrl);
 
-      const response = await fetch(obsUrl);
-      
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error("World Bank API error:", errorText);
-        throw new Error(`World Bank API error: ${response.status}`);
-      }
+      const response = await providerFetch("World Bank", obsUrl);
       
       const data = await response.json();
       const observations = (data[1] || [])
@@ -126,9 +136,27 @@ Deno.serve(async (req) => {
       const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
       const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
       const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
 
       const seriesId = `WB_${indicatorId}_${country}`;
 
+      run = await startIngestionRun(supabase, {
+        functionName: "fetch-worldbank",
+        source: "WORLDBANK",
+        seriesId,
+        params: Object.fromEntries(url.searchParams),
+        req,
+      });
+
+      // Fetch observations
+      const obsUrl = `${WB_BASE_URL}/country/${country}/indicator/${indicatorId}?format=json&date=1960:${new Date().getFullYear()}&per_page=1000`;
+      const response = await providerFetch("World Bank", obsUrl);
+      
+      const data = await response.json();
+      // data[0] is the paging header, which also carries the indicator's last update date
+      const lastUpdated: string | undefined = data[0]?.lastupdated;
+      const rows: { date: string; value: number | null; unit?: string }[] = data[1] || [];
+
       // Insert series metadata
       const { error: seriesError } = await supabase.from("series").upsert({
         id: seriesId,
@@ -137,27 +165,19 @@ Deno.serve(async (req) => {
         title: title,
         description: `World Bank ${indicatorId} for ${country}`,
         freq: "A",
-        unit_original: null,
-        currency_orig: null,
+        unit_original: rows.find((obs) => obs.unit)?.unit || null,
+        currency_orig: title?.includes("US$") ? "USD" : null,
         geo: country,
+        provider_updated_at: lastUpdated ? new Date(lastUpdated).toISOString() : null,
+        license: WB_LICENSE,
       });
 
       if (seriesError) throw seriesError;
-
-      // Fetch observations
-      const obsUrl = `${WB_BASE_URL}/country/${country}/indicator/${indicatorId}?format=json&date=1960:${new Date().getFullYear()}&per_page=1000`;
-      const response = await fetch(obsUrl);
-      
-      if (!response.ok) {
-        throw new Error(`World Bank API error: ${response.status}`);
-      }
-      
-      const data = await response.json();
       
       // Parse observations
       const observations: { series_id: string; date: string; value: number | null }[] = [];
       
-      for (const obs of (data[1] || [])) {
+      for (const obs of rows) {
         if (obs.value !== null) {
           observations.push({
             series_id: seriesId,
@@ -175,6 +195,14 @@ Deno.serve(async (req) => {
         if (obsError) throw obsError;
       }
 
+      const { error: fxError } = await supabase.rpc("apply_fx_conversion", { p_series_id: seriesId });
+      if (fxError) console.error("FX conversion failed:", fxError);
+
+      const { error: rangeError } = await supabase.rpc("update_series_observation_range", { p_series_id: seriesId });
+      if (rangeError) console.error("Observation range update failed:", rangeError);
+
+      await run.succeed({ rowsReceived: observations.length });
+
       return new Response(
         JSON.stringify({
           success: true,
@@ -191,13 +219,7 @@ Deno.serve(async (req) => {
     });
   } catch (error) {
     console.error("Error in fetch-worldbank:", error);
-    const errorMessage = error instanceof Error ? error.message : "Unknown error";
-    return new Response(
-      JSON.stringify({ error: errorMessage }),
-      {
-        status: 500,
-        headers: { ...corsHeaders, "Content-Type": "application/json" },
-      }
-    );
+    await run?.fail(error);
+    return errorResponse(error, corsHeaders);
   }
 });
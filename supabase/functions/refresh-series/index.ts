@@ -0,0 +1,310 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireRole } from "../_shared/auth.ts";
+import { errorResponse } from "../_shared/http.ts";
+import { INGEST_TRIGGER_HEADER } from "../_shared/ingestion-runs.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Series refreshed per invocation; the hourly cron job works through the rest
+const DEFAULT_BATCH_SIZE = 20;
+
+// Series refreshed more recently than this are skipped
+const DEFAULT_STALE_HOURS = 24;
+
+// Pause between two calls to the same provider to stay within its rate limits
+const DELAY_MS = 1500;
+
+// No new ingest starts after this much time, leaving room before the edge function
+// wall-clock limit; series not reached stay due and lead the next run
+const TIME_BUDGET_MS = 100_000;
+
+interface SeriesRow {
+  id: string;
+  source: string;
+  provider_id: string;
+  title: string;
+  geo: string | null;
+  ingest_params: Record<string, unknown> | null;
+  observation_end: string | null;
+}
+
+interface RefreshStatusRow {
+  series_id: string;
+  last_attempt_at: string;
+}
+
+interface IngestRequest {
+  fn: string;
+  params: Record<string, string>;
+  body?: Record<string, unknown>;
+}
+
+interface RefreshResult {
+  seriesId: string;
+  status: "success" | "error" | "skipped";
+  observationCount?: number;
+  error?: string;
+}
+
+/**
+ * Split "dataflow/key" style provider ids on the first slash
+ */
+function splitProviderId(providerId: string): [string, string] {
+  const idx = providerId.indexOf("/");
+  if (idx < 0) return [providerId, ""];
+  return [providerId.substring(0, idx), providerId.substring(idx + 1)];
+}
+
+/**
+ * Rebuild the provider ingest call for a stored series.
+ * Returns null when the series cannot be re-created (e.g. PxWeb series without a stored query).
+ */
+function buildIngestRequest(series: SeriesRow): IngestRequest | null {
+  const ingestParams = series.ingest_params || {};
+
+  switch (series.source) {
+    case "FRED":
+      // Only what follows the latest stored observation, which is fetched again for revisions
+      return {
+        fn: "fetch-fred",
+        params: series.observation_end
+          ? { seriesId: series.provider_id, startDate: series.observation_end }
+          : { seriesId: series.provider_id, incremental: "true" },
+      };
+
+    case "ECB": {
+      const [dataflowId, seriesKey] = splitProviderId(series.provider_id);
+      return {
+        fn: "fetch-ecb",
+        params: { dataflowId, seriesKey, title: series.title, seriesId: series.id },
+      };
+    }
+
+    case "EUROSTAT": {
+      const [datasetId, filters] = splitProviderId(series.provider_id);
+      return {
+        fn: "fetch-eurostat",
+        params: { datasetId, filters, title: series.title, geo: series.geo || "EU" },
+      };
+    }
+
+    case "OECD": {
+      // "AGENCY,DATAFLOW,VERSION/KEY"; older rows store only the dataflow id and are resolved by fetch-oecd
+      const [flow, key] = splitProviderId(series.provider_id);
+      const [agencyId, dataflowId, version] = flow.includes(",") ? flow.split(",") : ["", flow, ""];
+      return {
+        fn: "fetch-oecd",
+        params: { dataflowId, agencyId, version, key, title: series.title, geo: series.geo || "OECD" },
+      };
+    }
+
+    case "WORLDBANK": {
+      const [indicatorId, country] = splitProviderId(series.provider_id);
+      return {
+        fn: "fetch-worldbank",
+        params: { indicatorId, country, title: series.title },
+      };
+    }
+
+    case "STATFIN":
+    case "SCB":
+    case "SSB":
+    case "HAGSTOFA": {
+      if (ingestParams.function === "fetch-statfin-module") {
+        return {
+          fn: "fetch-statfin-module",
+          params: { module: ingestParams.module as string, api: (ingestParams.api as string) || "v1" },
+          body: { seriesId: series.id, title: series.title, selections: ingestParams.selections },
+        };
+      }
+      // Series ingested by the former fetch-statfin-births function, now the births module
+      if (ingestParams.function === "fetch-statfin-births") {
+        return {
+          fn: "fetch-statfin-module",
+          params: { module: "births", api: (ingestParams.api as string) || "v1" },
+          body: {
+            seriesId: series.id,
+            title: series.title,
+            selections: { year: ingestParams.years, month: ingestParams.months, info: ingestParams.infoCodes },
+          },
+        };
+      }
+      if (!ingestParams.query) return null;
+      return {
+        fn: "fetch-statfin",
+        params: {
+          source: series.source,
+          api: (ingestParams.api as string) || "v1",
+          // provider_id carries the selection after the table path; older series stored the bare path
+          tablePath: (ingestParams.tablePath as string) || series.provider_id,
+          seriesId: series.id,
+          language: (ingestParams.language as string) || "en",
+        },
+        body: { query: ingestParams.query, title: series.title },
+      };
+    }
+
+    default:
+      return null;
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const url = new URL(req.url);
+    const action = url.searchParams.get("action");
+
+    console.log("Refresh Request:", { action });
+
+    if (action === "run") {
+      const source = url.searchParams.get("source");
+      const onlySeriesId = url.searchParams.get("seriesId");
+      const batchSize = parseInt(url.searchParams.get("batchSize") || "") || DEFAULT_BATCH_SIZE;
+      // staleHours=0 refreshes every series now
+      const parsedStaleHours = parseFloat(url.searchParams.get("staleHours") ?? "");
+      const staleHours = Number.isFinite(parsedStaleHours) ? parsedStaleHours : DEFAULT_STALE_HOURS;
+
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
+
+      let seriesQuery = supabase
+        .from("series")
+        .select("id, source, provider_id, title, geo, ingest_params, observation_end")
+        // Uploaded series have no provider to re-fetch them from
+        .neq("source", "USER");
+      if (source) seriesQuery = seriesQuery.eq("source", source);
+      if (onlySeriesId) seriesQuery = seriesQuery.eq("id", onlySeriesId);
+
+      const { data: allSeries, error: seriesError } = await seriesQuery;
+      if (seriesError) throw seriesError;
+
+      const { data: statuses, error: statusError } = await supabase
+        .from("series_refresh_status")
+        .select("series_id, last_attempt_at");
+      if (statusError) throw statusError;
+
+      const lastAttempt = new Map<string, number>(
+        (statuses as RefreshStatusRow[] || []).map((s) => [s.series_id, new Date(s.last_attempt_at).getTime()])
+      );
+
+      // Never-refreshed series first, then the stalest ones
+      const cutoff = Date.now() - staleHours * 60 * 60 * 1000;
+      const due = (allSeries as SeriesRow[] || [])
+        .filter((s) => onlySeriesId || (lastAttempt.get(s.id) ?? 0) < cutoff)
+        .sort((a, b) => (lastAttempt.get(a.id) ?? 0) - (lastAttempt.get(b.id) ?? 0))
+        .slice(0, batchSize);
+
+      console.log(`Refreshing ${due.length} of ${allSeries?.length || 0} series`);
+
+      const startedAt = Date.now();
+
+      const refreshOne = async (series: SeriesRow): Promise<RefreshResult> => {
+        const request = buildIngestRequest(series);
+        const attemptAt = new Date().toISOString();
+
+        if (!request) {
+          const error = "No stored ingest parameters to re-create this series";
+          await supabase.from("series_refresh_status").upsert({
+            series_id: series.id,
+            last_attempt_at: attemptAt,
+            status: "skipped",
+            error,
+          });
+          return { seriesId: series.id, status: "skipped", error };
+        }
+
+        try {
+          const ingestUrl = new URL(`${supabaseUrl}/functions/v1/${request.fn}`);
+          ingestUrl.searchParams.set("action", "ingest");
+          for (const [key, value] of Object.entries(request.params)) {
+            ingestUrl.searchParams.set(key, value);
+          }
+
+          const response = await fetch(ingestUrl.toString(), {
+            method: request.body ? "POST" : "GET",
+            headers: {
+              "Content-Type": "application/json",
+              "Authorization": `Bearer ${supabaseKey}`,
+              [INGEST_TRIGGER_HEADER]: "refresh-series",
+            },
+            body: request.body ? JSON.stringify(request.body) : undefined,
+          });
+
+          const payload = await response.json();
+          if (!response.ok) {
+            throw new Error(payload.error || `${request.fn} returned ${response.status}`);
+          }
+
+          await supabase.from("series_refresh_status").upsert({
+            series_id: series.id,
+            last_attempt_at: attemptAt,
+            last_success_at: new Date().toISOString(),
+            status: "success",
+            error: null,
+            observation_count: payload.observationCount ?? null,
+          });
+          return { seriesId: series.id, status: "success", observationCount: payload.observationCount };
+        } catch (err) {
+          const error = err instanceof Error ? err.message : "Unknown error";
+          console.error(`Failed to refresh ${series.id}:`, error);
+          await supabase.from("series_refresh_status").upsert({
+            series_id: series.id,
+            last_attempt_at: attemptAt,
+            status: "error",
+            error,
+          });
+          return { seriesId: series.id, status: "error", error };
+        }
+      };
+
+      // Providers are called in parallel, each provider's series one after another
+      const bySource = new Map<string, SeriesRow[]>();
+      for (const series of due) {
+        bySource.set(series.source, [...(bySource.get(series.source) || []), series]);
+      }
+
+      const results: RefreshResult[] = [];
+      await Promise.all(Array.from(bySource.values()).map(async (sourceSeries) => {
+        for (const [index, series] of sourceSeries.entries()) {
+          if (index > 0) await new Promise((resolve) => setTimeout(resolve, DELAY_MS));
+          if (Date.now() - startedAt > TIME_BUDGET_MS) return;
+          results.push(await refreshOne(series));
+        }
+      }));
+
+      const deferred = due.length - results.length;
+      if (deferred > 0) console.log(`Time budget used up; ${deferred} series left for the next run`);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          total: allSeries?.length || 0,
+          attempted: results.length,
+          succeeded: results.filter((r) => r.status === "success").length,
+          failed: results.filter((r) => r.status === "error").length,
+          skipped: results.filter((r) => r.status === "skipped").length,
+          deferred,
+          results,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(JSON.stringify({ error: "Invalid action" }), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in refresh-series:", error);
+    return errorResponse(error, corsHeaders);
+  }
+});
@@ -0,0 +1,228 @@
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { requireRole } from "../_shared/auth.ts";
+import { errorResponse } from "../_shared/http.ts";
+import { startIngestionRun, type IngestionRun } from "../_shared/ingestion-runs.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+// Source code of series uploaded from CSV and Excel files
+const USER_SOURCE = "USER";
+
+const FREQUENCIES = ["D", "W", "M", "Q", "A"];
+
+// Shape of the ids userSeriesId derives, the only ids an upload may write
+const USER_SERIES_ID = /^USER_[A-Z0-9_]{1,60}$/;
+
+// Bounds on one upload, well above any hand-maintained spreadsheet
+const MAX_UPLOAD_SERIES = 50;
+const MAX_SERIES_OBSERVATIONS = 50000;
+
+interface UploadedSeries {
+  /**
+   * Id of an uploaded series to replace. Without it the id is derived from the title,
+   * and an upload whose derived id already exists is refused.
+   */
+  seriesId?: string;
+  title: string;
+  description?: string;
+  /** Value column in the uploaded file */
+  column: string;
+  freq: string;
+  unit?: string;
+  currency?: string | null;
+  geo?: string | null;
+  observations: Array<{ date: string; value: number | null }>;
+}
+
+interface UploadRequestBody {
+  fileName: string;
+  series: UploadedSeries[];
+}
+
+/**
+ * USER_ id from a title, e.g. "Consultancy GDP forecast" gives "USER_CONSULTANCY_GDP_FORECAST"
+ */
+function userSeriesId(title: string): string {
+  const slug = title
+    .toUpperCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^A-Z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "")
+    .substring(0, 60);
+  return `${USER_SOURCE}_${slug || "SERIES"}`;
+}
+
+/**
+ * Reject uploads the warehouse cannot store; the frontend validates the same rules first
+ */
+function validateUpload(body: UploadRequestBody): void {
+  if (!body.fileName) throw new Error("fileName required");
+  if (!Array.isArray(body.series) || body.series.length === 0) throw new Error("series required");
+  if (body.series.length > MAX_UPLOAD_SERIES) {
+    throw new Error(`Upload contains ${body.series.length} series; at most ${MAX_UPLOAD_SERIES} are allowed`);
+  }
+
+  for (const series of body.series) {
+    if (!series.title?.trim()) throw new Error(`Column ${series.column} has no title`);
+    // Provider ids stay free for provider ingests
+    if (series.seriesId !== undefined && !USER_SERIES_ID.test(series.seriesId)) {
+      throw new Error(`${series.title}: series id ${series.seriesId} must start with ${USER_SOURCE}_ and contain only A-Z, 0-9 and _`);
+    }
+    if (!FREQUENCIES.includes(series.freq)) {
+      throw new Error(`${series.title}: frequency must be one of ${FREQUENCIES.join(", ")}`);
+    }
+    if (!Array.isArray(series.observations) || series.observations.length === 0) {
+      throw new Error(`${series.title}: no observations`);
+    }
+    if (series.observations.length > MAX_SERIES_OBSERVATIONS) {
+      throw new Error(`${series.title}: at most ${MAX_SERIES_OBSERVATIONS} observations are allowed`);
+    }
+    for (const obs of series.observations) {
+      if (!/^\d{4}-\d{2}-\d{2}$/.test(obs.date) || isNaN(new Date(obs.date).getTime())) {
+        throw new Error(`${series.title}: invalid date ${obs.date}`);
+      }
+      if (obs.value !== null && !Number.isFinite(obs.value)) {
+        throw new Error(`${series.title}: invalid value on ${obs.date}`);
+      }
+    }
+  }
+}
+
+Deno.serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let run: IngestionRun | null = null;
+
+  try {
+    const url = new URL(req.url);
+    const action = url.searchParams.get("action");
+
+    console.log("Upload Request:", { action });
+
+    // Store parsed file columns as USER series, replacing the series named by seriesId
+    if (action === "ingest") {
+      const body: UploadRequestBody = await req.json();
+      validateUpload(body);
+
+      const supabaseUrl = Deno.env.get("SUPABASE_URL")!;
+      const supabaseKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")!;
+      const supabase = createClient(supabaseUrl, supabaseKey);
+      await requireRole(supabase, req, ["admin"]);
+
+      const seriesIds = body.series.map((s) => s.seriesId || userSeriesId(s.title));
+      if (new Set(seriesIds).size !== seriesIds.length) {
+        throw new Error("Two columns map to the same series id; give them different titles");
+      }
+
+      // Only an explicit seriesId replaces a series, and only an uploaded one
+      const { data: existing, error: existingError } = await supabase
+        .from("series")
+        .select("id, source")
+        .in("id", seriesIds);
+      if (existingError) throw existingError;
+      for (const row of existing || []) {
+        if (row.source !== USER_SOURCE) {
+          throw new Error(`${row.id} is a ${row.source} series and cannot be replaced by an upload`);
+        }
+        if (!body.series[seriesIds.indexOf(row.id)].seriesId) {
+          throw new Error(`${row.id} already exists; give the column another title, or choose to replace it`);
+        }
+      }
+
+      run = await startIngestionRun(supabase, {
+        functionName: "upload-series",
+        source: USER_SOURCE,
+        seriesId: seriesIds[0],
+        params: { fileName: body.fileName, columns: body.series.map((s) => s.column) },
+        req,
+      });
+
+      let insertedCount = 0;
+
+      for (const [index, series] of body.series.entries()) {
+        const seriesId = seriesIds[index];
+
+        const { error: seriesError } = await supabase.from("series").upsert({
+          id: seriesId,
+          source: USER_SOURCE,
+          // Columns of different files or sheets share names, so the id is the stable key
+          provider_id: seriesId,
+          title: series.title.trim(),
+          description: series.description || `Uploaded from ${body.fileName}`,
+          freq: series.freq,
+          unit_original: series.unit || null,
+          currency_orig: series.currency || null,
+          geo: series.geo || null,
+          provider_updated_at: new Date().toISOString(),
+          ingest_params: { function: "upload-series", fileName: body.fileName, column: series.column },
+        });
+
+        if (seriesError) {
+          console.error("Series upsert error:", seriesError);
+          throw seriesError;
+        }
+
+        // A re-upload replaces the series' history rather than merging into it
+        const { error: deleteError } = await supabase.from("observations").delete().eq("series_id", seriesId);
+        if (deleteError) throw deleteError;
+
+        const uniqueObs = new Map<string, { series_id: string; date: string; value: number | null }>();
+        for (const obs of series.observations) {
+          if (!uniqueObs.has(obs.date)) uniqueObs.set(obs.date, { series_id: seriesId, date: obs.date, value: obs.value });
+        }
+        const observations = Array.from(uniqueObs.values());
+
+        // Upsert observations in batches
+        const batchSize = 500;
+        for (let i = 0; i < observations.length; i += batchSize) {
+          const batch = observations.slice(i, i + batchSize);
+          const { error: obsError } = await supabase
+            .from("observations")
+            .upsert(batch, { onConflict: "series_id,date" });
+
+          if (obsError) {
+            console.error("Observations upsert error:", obsError);
+            throw obsError;
+          }
+          insertedCount += batch.length;
+        }
+
+        console.log(`Stored ${observations.length} observations for ${seriesId}`);
+
+        const { error: fxError } = await supabase.rpc("apply_fx_conversion", { p_series_id: seriesId });
+        if (fxError) console.error("FX conversion failed:", fxError);
+
+        const { error: rangeError } = await supabase.rpc("update_series_observation_range", { p_series_id: seriesId });
+        if (rangeError) console.error("Observation range update failed:", rangeError);
+      }
+
+      await run.succeed({ seriesIds, rowsReceived: insertedCount });
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          seriesId: seriesIds[0],
+          seriesIds,
+          seriesCount: seriesIds.length,
+          observationCount: insertedCount,
+        }),
+        { headers: { ...corsHeaders, "Content-Type": "application/json" } }
+      );
+    }
+
+    return new Response(JSON.stringify({ error: "Invalid action" }), {
+      status: 400,
+      headers: { ...corsHeaders, "Content-Type": "application/json" },
+    });
+  } catch (error) {
+    console.error("Error in upload-series:", error);
+    await run?.fail(error);
+    return errorResponse(error, corsHeaders);
+  }
+});
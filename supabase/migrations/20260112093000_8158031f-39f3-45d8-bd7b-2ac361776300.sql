@@ -0,0 +1,72 @@
+-- Average EUR -> quote rate over the period that starts at p_date.
+-- Observation dates are stored as period starts, so the window is
+-- [p_date, p_date + period length) for the series frequency.
+-- Daily (or unknown) frequencies use the latest rate on or before p_date.
+CREATE OR REPLACE FUNCTION public.fx_period_rate(p_quote TEXT, p_date DATE, p_freq TEXT)
+RETURNS NUMERIC AS $$
+DECLARE
+  period_length INTERVAL;
+  result NUMERIC;
+BEGIN
+  IF p_quote = 'EUR' THEN
+    RETURN 1;
+  END IF;
+
+  period_length := CASE upper(coalesce(p_freq, 'D'))
+    WHEN 'A' THEN INTERVAL '1 year'
+    WHEN 'SA' THEN INTERVAL '6 months'
+    WHEN 'Q' THEN INTERVAL '3 months'
+    WHEN 'M' THEN INTERVAL '1 month'
+    WHEN 'BW' THEN INTERVAL '14 days'
+    WHEN 'W' THEN INTERVAL '7 days'
+    ELSE NULL
+  END;
+
+  IF period_length IS NULL THEN
+    SELECT rate INTO result
+    FROM public.fx_rates
+    WHERE base = 'EUR' AND quote = p_quote AND date <= p_date AND date > p_date - 7
+    ORDER BY date DESC
+    LIMIT 1;
+  ELSE
+    SELECT avg(rate) INTO result
+    FROM public.fx_rates
+    WHERE base = 'EUR' AND quote = p_quote AND date >= p_date AND date < p_date + period_length;
+  END IF;
+
+  RETURN result;
+END;
+$$ LANGUAGE plpgsql STABLE
+SET search_path = public;
+
+-- Fill value_eur / value_usd from the original value using series.currency_orig.
+-- Series without a currency (indices, rates, counts) are left untouched.
+-- Pass NULL to back-populate every series.
+CREATE OR REPLACE FUNCTION public.apply_fx_conversion(p_series_id TEXT DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE public.observations o
+  SET
+    value_eur = CASE
+      WHEN s.currency_orig = 'EUR' THEN o.value
+      ELSE o.value / nullif(public.fx_period_rate(s.currency_orig, o.date, s.freq), 0)
+    END,
+    value_usd = CASE
+      WHEN s.currency_orig = 'USD' THEN o.value
+      ELSE o.value * public.fx_period_rate('USD', o.date, s.freq)
+        / nullif(public.fx_period_rate(s.currency_orig, o.date, s.freq), 0)
+    END
+  FROM public.series s
+  WHERE o.series_id = s.id
+    AND s.currency_orig IS NOT NULL
+    AND (p_series_id IS NULL OR s.id = p_series_id);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE INDEX IF NOT EXISTS idx_fx_rates_pair_date ON public.fx_rates(base, quote, date);
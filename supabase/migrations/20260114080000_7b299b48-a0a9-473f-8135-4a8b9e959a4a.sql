@@ -0,0 +1,37 @@
+-- Parameters needed to re-run an ingest beyond provider_id
+-- (e.g. the PxWeb query and language for StatFin tables)
+ALTER TABLE public.series ADD COLUMN ingest_params JSONB;
+
+-- Latest automatic refresh outcome per series
+CREATE TABLE public.series_refresh_status (
+  series_id TEXT PRIMARY KEY REFERENCES public.series(id) ON DELETE CASCADE,
+  last_attempt_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  last_success_at TIMESTAMPTZ,
+  status TEXT NOT NULL CHECK (status IN ('success', 'error', 'skipped')),
+  error TEXT,
+  observation_count INTEGER
+);
+
+CREATE INDEX idx_series_refresh_status_attempt ON public.series_refresh_status(last_attempt_at);
+
+ALTER TABLE public.series_refresh_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to series_refresh_status"
+  ON public.series_refresh_status FOR SELECT
+  USING (true);
+
+-- Run the refresh job every hour; each run refreshes the stalest batch of series
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+  'refresh-series-hourly',
+  '15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://nfofmjbsjzscmdonmnac.supabase.co/functions/v1/refresh-series?action=run',
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,92 @@
+-- Revision history of observation values. A new vintage is recorded whenever an
+-- ingest inserts an observation or changes its value; FRED series can also be
+-- filled from ALFRED real-time periods.
+CREATE TABLE public.observation_vintages (
+  id BIGSERIAL PRIMARY KEY,
+  series_id TEXT NOT NULL REFERENCES public.series(id) ON DELETE CASCADE,
+  date DATE NOT NULL,
+  value NUMERIC,
+  vintage_start TIMESTAMPTZ NOT NULL,
+  vintage_end TIMESTAMPTZ,
+  source TEXT NOT NULL DEFAULT 'ingest' CHECK (source IN ('ingest', 'alfred')),
+  UNIQUE(series_id, date, vintage_start)
+);
+
+CREATE INDEX idx_observation_vintages_series_date ON public.observation_vintages(series_id, date);
+
+ALTER TABLE public.observation_vintages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to observation_vintages"
+  ON public.observation_vintages FOR SELECT
+  USING (true);
+
+-- Record a vintage for new observations and for every value change
+CREATE OR REPLACE FUNCTION public.record_observation_vintage()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.value IS NOT DISTINCT FROM OLD.value THEN
+      RETURN NEW;
+    END IF;
+
+    UPDATE public.observation_vintages
+    SET vintage_end = now()
+    WHERE series_id = NEW.series_id AND date = NEW.date AND vintage_end IS NULL;
+  END IF;
+
+  INSERT INTO public.observation_vintages (series_id, date, value, vintage_start, source)
+  VALUES (NEW.series_id, NEW.date, NEW.value, now(), 'ingest')
+  ON CONFLICT (series_id, date, vintage_start)
+  DO UPDATE SET value = EXCLUDED.value, vintage_end = NULL;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE TRIGGER record_observation_vintage
+  AFTER INSERT OR UPDATE OF value ON public.observations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_observation_vintage();
+
+-- Seed the first vintage from what is already stored
+INSERT INTO public.observation_vintages (series_id, date, value, vintage_start, source)
+SELECT series_id, date, value, last_update, 'ingest'
+FROM public.observations
+ON CONFLICT (series_id, date, vintage_start) DO NOTHING;
+
+-- Observations as they were known at p_as_of: the latest vintage per date that
+-- started on or before that time. Converted values use the current FX rates.
+CREATE OR REPLACE FUNCTION public.observations_as_of(p_series_id TEXT, p_as_of TIMESTAMPTZ)
+RETURNS TABLE (
+  date DATE,
+  value NUMERIC,
+  value_eur NUMERIC,
+  value_usd NUMERIC,
+  vintage_start TIMESTAMPTZ
+) AS $$
+  SELECT
+    v.date,
+    v.value,
+    CASE
+      WHEN s.currency_orig IS NULL THEN NULL
+      WHEN s.currency_orig = 'EUR' THEN v.value
+      ELSE v.value / nullif(public.fx_period_rate(s.currency_orig, v.date, s.freq), 0)
+    END,
+    CASE
+      WHEN s.currency_orig IS NULL THEN NULL
+      WHEN s.currency_orig = 'USD' THEN v.value
+      ELSE v.value * public.fx_period_rate('USD', v.date, s.freq)
+        / nullif(public.fx_period_rate(s.currency_orig, v.date, s.freq), 0)
+    END,
+    v.vintage_start
+  FROM (
+    SELECT DISTINCT ON (ov.date) ov.date, ov.value, ov.vintage_start
+    FROM public.observation_vintages ov
+    WHERE ov.series_id = p_series_id AND ov.vintage_start <= p_as_of
+    ORDER BY ov.date, ov.vintage_start DESC
+  ) v
+  JOIN public.series s ON s.id = p_series_id
+  ORDER BY v.date;
+$$ LANGUAGE sql STABLE
+SET search_path = public;
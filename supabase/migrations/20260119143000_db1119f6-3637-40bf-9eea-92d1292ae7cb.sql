@@ -0,0 +1,89 @@
+-- One row per ingest call of a fetch-* edge function
+CREATE TABLE public.ingestion_runs (
+  id BIGSERIAL PRIMARY KEY,
+  function_name TEXT NOT NULL,
+  source TEXT NOT NULL,
+  series_id TEXT,
+  params JSONB NOT NULL DEFAULT '{}'::jsonb,
+  triggered_by TEXT NOT NULL DEFAULT 'manual',
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'error')),
+  started_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  finished_at TIMESTAMPTZ,
+  duration_ms INTEGER,
+  rows_received INTEGER,
+  rows_inserted INTEGER,
+  rows_updated INTEGER,
+  error TEXT,
+  error_details JSONB
+);
+
+CREATE INDEX idx_ingestion_runs_started_at ON public.ingestion_runs(started_at DESC);
+CREATE INDEX idx_ingestion_runs_series_id ON public.ingestion_runs(series_id);
+
+ALTER TABLE public.ingestion_runs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to ingestion_runs"
+  ON public.ingestion_runs FOR SELECT
+  USING (true);
+
+-- Close a run. Inserted/updated counts come from the vintages recorded by the
+-- observations trigger since the run started: a vintage for a date that already
+-- had an earlier vintage is an update, otherwise an insert.
+CREATE OR REPLACE FUNCTION public.finish_ingestion_run(
+  p_run_id BIGINT,
+  p_status TEXT,
+  p_series_id TEXT DEFAULT NULL,
+  p_rows_received INTEGER DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_error_details JSONB DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_started_at TIMESTAMPTZ;
+  v_series_id TEXT;
+  v_inserted INTEGER := NULL;
+  v_updated INTEGER := NULL;
+BEGIN
+  SELECT started_at, COALESCE(p_series_id, series_id)
+  INTO v_started_at, v_series_id
+  FROM public.ingestion_runs
+  WHERE id = p_run_id;
+
+  IF v_started_at IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_series_id IS NOT NULL THEN
+    SELECT
+      COUNT(*) FILTER (WHERE NOT prior.has_prior),
+      COUNT(*) FILTER (WHERE prior.has_prior)
+    INTO v_inserted, v_updated
+    FROM public.observation_vintages ov
+    CROSS JOIN LATERAL (
+      SELECT EXISTS (
+        SELECT 1 FROM public.observation_vintages earlier
+        WHERE earlier.series_id = ov.series_id
+          AND earlier.date = ov.date
+          AND earlier.vintage_start < v_started_at
+      ) AS has_prior
+    ) prior
+    WHERE ov.series_id = v_series_id
+      AND ov.source = 'ingest'
+      AND ov.vintage_start >= v_started_at;
+  END IF;
+
+  UPDATE public.ingestion_runs
+  SET
+    status = p_status,
+    series_id = v_series_id,
+    finished_at = clock_timestamp(),
+    duration_ms = (EXTRACT(EPOCH FROM (clock_timestamp() - v_started_at)) * 1000)::INTEGER,
+    rows_received = p_rows_received,
+    rows_inserted = v_inserted,
+    rows_updated = v_updated,
+    error = p_error,
+    error_details = p_error_details
+  WHERE id = p_run_id;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
@@ -0,0 +1,70 @@
+-- A wildcard SDMX ingest creates several series in one run
+ALTER TABLE public.ingestion_runs ADD COLUMN series_ids TEXT[];
+
+DROP FUNCTION public.finish_ingestion_run(BIGINT, TEXT, TEXT, INTEGER, TEXT, JSONB);
+
+-- Close a run. Inserted/updated counts come from the vintages recorded by the
+-- observations trigger since the run started: a vintage for a date that already
+-- had an earlier vintage is an update, otherwise an insert.
+CREATE OR REPLACE FUNCTION public.finish_ingestion_run(
+  p_run_id BIGINT,
+  p_status TEXT,
+  p_series_id TEXT DEFAULT NULL,
+  p_rows_received INTEGER DEFAULT NULL,
+  p_error TEXT DEFAULT NULL,
+  p_error_details JSONB DEFAULT NULL,
+  p_series_ids TEXT[] DEFAULT NULL
+)
+RETURNS VOID AS $$
+DECLARE
+  v_started_at TIMESTAMPTZ;
+  v_series_ids TEXT[];
+  v_inserted INTEGER := NULL;
+  v_updated INTEGER := NULL;
+BEGIN
+  SELECT started_at, COALESCE(p_series_ids, ARRAY[COALESCE(p_series_id, series_id)])
+  INTO v_started_at, v_series_ids
+  FROM public.ingestion_runs
+  WHERE id = p_run_id;
+
+  IF v_started_at IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_series_ids := array_remove(v_series_ids, NULL);
+
+  IF cardinality(v_series_ids) > 0 THEN
+    SELECT
+      COUNT(*) FILTER (WHERE NOT prior.has_prior),
+      COUNT(*) FILTER (WHERE prior.has_prior)
+    INTO v_inserted, v_updated
+    FROM public.observation_vintages ov
+    CROSS JOIN LATERAL (
+      SELECT EXISTS (
+        SELECT 1 FROM public.observation_vintages earlier
+        WHERE earlier.series_id = ov.series_id
+          AND earlier.date = ov.date
+          AND earlier.vintage_start < v_started_at
+      ) AS has_prior
+    ) prior
+    WHERE ov.series_id = ANY(v_series_ids)
+      AND ov.source = 'ingest'
+      AND ov.vintage_start >= v_started_at;
+  END IF;
+
+  UPDATE public.ingestion_runs
+  SET
+    status = p_status,
+    series_id = CASE WHEN cardinality(v_series_ids) = 1 THEN v_series_ids[1] END,
+    series_ids = CASE WHEN cardinality(v_series_ids) > 1 THEN v_series_ids END,
+    finished_at = clock_timestamp(),
+    duration_ms = (EXTRACT(EPOCH FROM (clock_timestamp() - v_started_at)) * 1000)::INTEGER,
+    rows_received = p_rows_received,
+    rows_inserted = v_inserted,
+    rows_updated = v_updated,
+    error = p_error,
+    error_details = p_error_details
+  WHERE id = p_run_id;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
@@ -0,0 +1,42 @@
+-- Descriptive metadata filled by every fetch function from the provider response
+ALTER TABLE public.series
+  ADD COLUMN seasonal_adjustment TEXT,
+  -- Power of ten the stored values are expressed in (SDMX UNIT_MULT): 3 = thousands, 6 = millions
+  ADD COLUMN unit_multiplier INTEGER,
+  -- When the provider last updated the series or table, as reported by the provider
+  ADD COLUMN provider_updated_at TIMESTAMPTZ,
+  ADD COLUMN observation_start DATE,
+  ADD COLUMN observation_end DATE,
+  ADD COLUMN license TEXT;
+
+-- Set observation_start / observation_end from the stored observations.
+-- Pass NULL to back-populate every series.
+CREATE OR REPLACE FUNCTION public.update_series_observation_range(p_series_id TEXT DEFAULT NULL)
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.series s
+  SET
+    observation_start = r.first_date,
+    observation_end = r.last_date
+  FROM (
+    SELECT series_id, MIN(date) AS first_date, MAX(date) AS last_date
+    FROM public.observations
+    WHERE p_series_id IS NULL OR series_id = p_series_id
+    GROUP BY series_id
+  ) r
+  WHERE s.id = r.series_id;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+SELECT public.update_series_observation_range();
+
+-- Every provider currently ingested publishes under these terms
+UPDATE public.series SET license = CASE source
+  WHEN 'FRED' THEN 'FRED terms of use; third-party copyright may apply'
+  WHEN 'ECB' THEN 'ECB statistics reuse policy (free reuse with attribution)'
+  WHEN 'EUROSTAT' THEN 'CC BY 4.0'
+  WHEN 'OECD' THEN 'CC BY 4.0'
+  WHEN 'WORLDBANK' THEN 'CC BY 4.0'
+  WHEN 'STATFIN' THEN 'CC BY 4.0'
+END;
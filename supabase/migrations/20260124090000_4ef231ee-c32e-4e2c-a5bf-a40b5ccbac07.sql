@@ -0,0 +1,5 @@
+-- Allow the PxWeb sources served by fetch-statfin: Statistics Sweden, Statistics Norway and Statistics Iceland
+ALTER TABLE public.series DROP CONSTRAINT IF EXISTS series_source_check;
+
+ALTER TABLE public.series ADD CONSTRAINT series_source_check 
+  CHECK (source = ANY (ARRAY['FRED'::text, 'STATFIN'::text, 'ECB'::text, 'EUROSTAT'::text, 'OECD'::text, 'WORLDBANK'::text, 'SCB'::text, 'SSB'::text, 'HAGSTOFA'::text]));
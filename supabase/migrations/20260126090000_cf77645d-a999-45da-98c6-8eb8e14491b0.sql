@@ -0,0 +1,36 @@
+-- Registry of data sources. series.source references it, so adding a source is an
+-- INSERT here instead of a new series_source_check constraint.
+CREATE TABLE public.sources (
+  code TEXT PRIMARY KEY,
+  label TEXT NOT NULL,
+  homepage TEXT,
+  license TEXT,
+  -- Credit line to show next to charts and exports of the source's data
+  attribution TEXT,
+  default_currency TEXT,
+  -- Disabled sources keep their series but are hidden from the source selectors
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.sources ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to sources"
+  ON public.sources FOR SELECT
+  USING (true);
+
+INSERT INTO public.sources (code, label, homepage, license, attribution, default_currency) VALUES
+  ('FRED', 'FRED', 'https://fred.stlouisfed.org', 'FRED terms of use; third-party copyright may apply', 'Source: FRED, Federal Reserve Bank of St. Louis', 'USD'),
+  ('ECB', 'ECB', 'https://data.ecb.europa.eu', 'ECB statistics reuse policy (free reuse with attribution)', 'Source: European Central Bank', 'EUR'),
+  ('EUROSTAT', 'Eurostat', 'https://ec.europa.eu/eurostat', 'CC BY 4.0', 'Source: Eurostat', 'EUR'),
+  ('OECD', 'OECD', 'https://data-explorer.oecd.org', 'CC BY 4.0', 'Source: OECD', NULL),
+  ('WORLDBANK', 'World Bank', 'https://data.worldbank.org', 'CC BY 4.0', 'Source: World Bank Open Data', 'USD'),
+  ('STATFIN', 'StatFin', 'https://stat.fi', 'CC BY 4.0', 'Source: Statistics Finland', 'EUR'),
+  ('SCB', 'Statistics Sweden', 'https://www.scb.se', 'CC0 1.0', 'Source: Statistics Sweden', 'SEK'),
+  ('SSB', 'Statistics Norway', 'https://www.ssb.no', 'CC BY 4.0', 'Source: Statistics Norway', 'NOK'),
+  ('HAGSTOFA', 'Statistics Iceland', 'https://www.statice.is', 'CC BY 4.0', 'Source: Statistics Iceland', 'ISK');
+
+ALTER TABLE public.series DROP CONSTRAINT IF EXISTS series_source_check;
+
+ALTER TABLE public.series
+  ADD CONSTRAINT series_source_fkey FOREIGN KEY (source) REFERENCES public.sources(code);
@@ -0,0 +1,4 @@
+-- Series uploaded from CSV and Excel files through the upload-series function.
+-- They have no provider to refresh from, so refresh-series leaves them alone.
+INSERT INTO public.sources (code, label, homepage, license, attribution, default_currency) VALUES
+  ('USER', 'User upload', NULL, NULL, 'Source: user-uploaded data', NULL);
@@ -0,0 +1,35 @@
+-- Data quality findings per series, replaced by each check run (after every ingest
+-- and on demand through the check-quality function)
+CREATE TABLE public.series_quality_findings (
+  id BIGSERIAL PRIMARY KEY,
+  series_id TEXT NOT NULL REFERENCES public.series(id) ON DELETE CASCADE,
+  check_type TEXT NOT NULL CHECK (check_type IN ('no_data', 'all_null', 'missing_periods', 'outlier', 'stale', 'duplicate_values')),
+  severity TEXT NOT NULL CHECK (severity IN ('info', 'warning', 'error')),
+  message TEXT NOT NULL,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_series_quality_findings_series ON public.series_quality_findings(series_id);
+
+-- Latest check outcome per series: the most severe finding, or 'ok'
+CREATE TABLE public.series_quality_status (
+  series_id TEXT PRIMARY KEY REFERENCES public.series(id) ON DELETE CASCADE,
+  status TEXT NOT NULL CHECK (status IN ('ok', 'info', 'warning', 'error')),
+  -- Warnings and errors; info findings are not counted
+  finding_count INTEGER NOT NULL DEFAULT 0,
+  checked_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_series_quality_status_status ON public.series_quality_status(status);
+
+ALTER TABLE public.series_quality_findings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.series_quality_status ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to series_quality_findings"
+  ON public.series_quality_findings FOR SELECT
+  USING (true);
+
+CREATE POLICY "Allow public read access to series_quality_status"
+  ON public.series_quality_status FOR SELECT
+  USING (true);
@@ -0,0 +1,22 @@
+-- Observation status flag, normalized to SDMX OBS_STATUS codes: P provisional,
+-- E estimated, F forecast, B break in series, I imputed, U low reliability,
+-- C confidential, D definition differs, M missing. NULL for normal values.
+ALTER TABLE public.observations ADD COLUMN status TEXT;
+
+-- Footnotes published with the data: SDMX comment attributes and PxWeb value notes.
+-- A NULL date applies the note to the whole series. Each ingest replaces a series' notes.
+CREATE TABLE public.observation_footnotes (
+  id BIGSERIAL PRIMARY KEY,
+  series_id TEXT NOT NULL REFERENCES public.series(id) ON DELETE CASCADE,
+  date DATE,
+  footnote TEXT NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_observation_footnotes_series ON public.observation_footnotes(series_id, date);
+
+ALTER TABLE public.observation_footnotes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to observation_footnotes"
+  ON public.observation_footnotes FOR SELECT
+  USING (true);
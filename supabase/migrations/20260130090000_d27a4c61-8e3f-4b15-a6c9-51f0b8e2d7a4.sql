@@ -0,0 +1,90 @@
+-- Dataflow, dataset, indicator and table listings per provider, so the search
+-- actions query Postgres instead of downloading the provider catalog every time.
+-- Each refresh replaces a source's rows; details holds the fields the search
+-- action returns for the entry (agency, version, data structure...).
+CREATE TABLE public.provider_catalog (
+  source TEXT NOT NULL REFERENCES public.sources(code),
+  code TEXT NOT NULL,
+  title TEXT NOT NULL,
+  title_fi TEXT,
+  description TEXT,
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  refreshed_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  search_vector TSVECTOR GENERATED ALWAYS AS (
+    setweight(to_tsvector('simple', code), 'A') ||
+    setweight(to_tsvector('english', title), 'A') ||
+    setweight(to_tsvector('finnish', coalesce(title_fi, '')), 'A') ||
+    setweight(to_tsvector('english', coalesce(description, '')), 'B')
+  ) STORED,
+  PRIMARY KEY (source, code)
+);
+
+CREATE INDEX idx_provider_catalog_search ON public.provider_catalog USING GIN (search_vector);
+
+ALTER TABLE public.provider_catalog ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow public read access to provider_catalog"
+  ON public.provider_catalog FOR SELECT
+  USING (true);
+
+-- Catalog entries of a source matching p_query, best match first.
+-- Words are matched as English and Finnish stems and as prefixes, so results
+-- appear while the user is still typing; an exact code match ranks first.
+-- An empty query lists the catalog by title.
+CREATE OR REPLACE FUNCTION public.search_provider_catalog(p_source TEXT, p_query TEXT, p_limit INTEGER DEFAULT 50)
+RETURNS TABLE (code TEXT, title TEXT, details JSONB, rank REAL) AS $$
+DECLARE
+  prefix_query TEXT;
+  search_query TSQUERY;
+BEGIN
+  SELECT string_agg(word || ':*', ' & ')
+  INTO prefix_query
+  FROM regexp_split_to_table(lower(coalesce(p_query, '')), '[^[:alnum:]]+') AS word
+  WHERE word <> '';
+
+  IF prefix_query IS NULL THEN
+    RETURN QUERY
+    SELECT c.code, c.title, c.details, 0::REAL
+    FROM public.provider_catalog c
+    WHERE c.source = p_source
+    ORDER BY c.title
+    LIMIT p_limit;
+    RETURN;
+  END IF;
+
+  search_query := websearch_to_tsquery('english', p_query)
+    || websearch_to_tsquery('finnish', p_query)
+    || to_tsquery('simple', prefix_query);
+
+  RETURN QUERY
+  SELECT c.code, c.title, c.details,
+    (ts_rank(c.search_vector, search_query)
+      + CASE WHEN lower(c.code) = lower(trim(p_query)) THEN 1 ELSE 0 END)::REAL AS match_rank
+  FROM public.provider_catalog c
+  WHERE c.source = p_source
+    AND (c.search_vector @@ search_query OR c.code ILIKE trim(p_query) || '%')
+  ORDER BY match_rank DESC, c.title
+  LIMIT p_limit;
+END;
+$$ LANGUAGE plpgsql STABLE
+SET search_path = public;
+
+-- Refresh the catalogs once a day; each function replaces its own source's rows
+SELECT cron.schedule(
+  'refresh-provider-catalog-daily',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://nfofmjbsjzscmdonmnac.supabase.co/functions/v1/' || fn,
+    headers := '{"Content-Type": "application/json"}'::jsonb,
+    body := '{}'::jsonb
+  )
+  FROM unnest(ARRAY[
+    'fetch-ecb?action=refresh-catalog',
+    'fetch-eurostat?action=refresh-catalog',
+    'fetch-oecd?action=refresh-catalog',
+    'fetch-worldbank?action=refresh-catalog',
+    'fetch-statfin?action=refresh-catalog&source=STATFIN'
+  ]) AS fn;
+  $$
+);
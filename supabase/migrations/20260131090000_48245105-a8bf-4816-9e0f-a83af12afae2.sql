@@ -0,0 +1,110 @@
+-- Roles of signed-in users. Admins ingest and edit warehouse data, analysts
+-- also run quality checks and save analyses, viewers only read.
+CREATE TYPE public.app_role AS ENUM ('admin', 'analyst', 'viewer');
+
+CREATE TABLE public.user_roles (
+  user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  role public.app_role NOT NULL DEFAULT 'viewer',
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+-- Whether a user holds a role. SECURITY DEFINER so policies can call it
+-- without user_roles' own policies applying.
+CREATE OR REPLACE FUNCTION public.has_role(p_user_id UUID, p_role public.app_role)
+RETURNS BOOLEAN AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = p_user_id AND role = p_role
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public;
+
+ALTER TABLE public.user_roles ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their own role"
+  ON public.user_roles FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid());
+
+CREATE POLICY "Admins can manage roles"
+  ON public.user_roles FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Every new account starts as a viewer; an admin promotes it
+CREATE OR REPLACE FUNCTION public.assign_default_role()
+RETURNS TRIGGER AS $$
+BEGIN
+  INSERT INTO public.user_roles (user_id, role)
+  VALUES (NEW.id, 'viewer')
+  ON CONFLICT (user_id) DO NOTHING;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER
+SET search_path = public;
+
+CREATE TRIGGER on_auth_user_created_assign_role
+  AFTER INSERT ON auth.users
+  FOR EACH ROW
+  EXECUTE FUNCTION public.assign_default_role();
+
+-- Warehouse data stays publicly readable; only admins write it directly.
+-- Edge functions write with the service role after checking the caller's role.
+CREATE POLICY "Allow admins to write series"
+  ON public.series FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Allow admins to write observations"
+  ON public.observations FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+CREATE POLICY "Allow admins to write fx_rates"
+  ON public.fx_rates FOR ALL
+  TO authenticated
+  USING (public.has_role(auth.uid(), 'admin'))
+  WITH CHECK (public.has_role(auth.uid(), 'admin'));
+
+-- Scheduled jobs call write actions, which now require a JWT with the admin role
+-- or the service role. The key is read from Vault, stored once per project with
+-- SELECT vault.create_secret('<service role key>', 'service_role_key');
+SELECT cron.schedule(
+  'refresh-series-hourly',
+  '15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://nfofmjbsjzscmdonmnac.supabase.co/functions/v1/refresh-series?action=run',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
+
+SELECT cron.schedule(
+  'refresh-provider-catalog-daily',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://nfofmjbsjzscmdonmnac.supabase.co/functions/v1/' || fn,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  FROM unnest(ARRAY[
+    'fetch-ecb?action=refresh-catalog',
+    'fetch-eurostat?action=refresh-catalog',
+    'fetch-oecd?action=refresh-catalog',
+    'fetch-worldbank?action=refresh-catalog',
+    'fetch-statfin?action=refresh-catalog&source=STATFIN'
+  ]) AS fn;
+  $$
+);
@@ -0,0 +1,55 @@
+-- Analysis Builder configurations saved by analysts and admins. config holds the
+-- selected series, transformations, date range and currency; the id doubles as
+-- the share link, which opens the analysis read-only for anyone.
+CREATE TABLE public.saved_analyses (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  owner_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  config JSONB NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT now(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_saved_analyses_owner ON public.saved_analyses (owner_id, updated_at DESC);
+
+CREATE TRIGGER update_saved_analyses_updated_at
+  BEFORE UPDATE ON public.saved_analyses
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+ALTER TABLE public.saved_analyses ENABLE ROW LEVEL SECURITY;
+
+-- Owners list their own analyses; others reach one only through get_saved_analysis
+CREATE POLICY "Owners can read their analyses"
+  ON public.saved_analyses FOR SELECT
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+CREATE POLICY "Analysts and admins can save analyses"
+  ON public.saved_analyses FOR INSERT
+  TO authenticated
+  WITH CHECK (
+    owner_id = auth.uid()
+    AND (public.has_role(auth.uid(), 'analyst') OR public.has_role(auth.uid(), 'admin'))
+  );
+
+CREATE POLICY "Owners can update their analyses"
+  ON public.saved_analyses FOR UPDATE
+  TO authenticated
+  USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners can delete their analyses"
+  ON public.saved_analyses FOR DELETE
+  TO authenticated
+  USING (owner_id = auth.uid());
+
+-- One analysis by id for its share link, readable without signing in.
+-- Listing all analyses stays impossible, so only holders of the link see one.
+CREATE OR REPLACE FUNCTION public.get_saved_analysis(p_id UUID)
+RETURNS TABLE (id UUID, name TEXT, config JSONB, created_at TIMESTAMPTZ, updated_at TIMESTAMPTZ, is_owner BOOLEAN) AS $$
+  SELECT a.id, a.name, a.config, a.created_at, a.updated_at, coalesce(a.owner_id = auth.uid(), false)
+  FROM public.saved_analyses a
+  WHERE a.id = p_id;
+$$ LANGUAGE sql STABLE SECURITY DEFINER
+SET search_path = public;
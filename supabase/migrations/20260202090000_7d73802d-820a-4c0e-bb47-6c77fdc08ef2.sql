@@ -0,0 +1,44 @@
+-- Fill value_eur / value_usd from the original value using series.currency_orig.
+-- Series without a currency (indices, rates, counts) show their original value in
+-- every currency view instead of being converted.
+-- Pass NULL to back-populate every series.
+CREATE OR REPLACE FUNCTION public.apply_fx_conversion(p_series_id TEXT DEFAULT NULL)
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE public.observations o
+  SET
+    value_eur = CASE
+      WHEN s.currency_orig IS NULL OR s.currency_orig = 'EUR' THEN o.value
+      ELSE o.value / nullif(public.fx_period_rate(s.currency_orig, o.date, s.freq), 0)
+    END,
+    value_usd = CASE
+      WHEN s.currency_orig IS NULL OR s.currency_orig = 'USD' THEN o.value
+      ELSE o.value * public.fx_period_rate('USD', o.date, s.freq)
+        / nullif(public.fx_period_rate(s.currency_orig, o.date, s.freq), 0)
+    END
+  FROM public.series s
+  WHERE o.series_id = s.id
+    AND (p_series_id IS NULL OR s.id = p_series_id);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+-- ECB, Eurostat and StatFin ingests used to tag every series as EUR. Keep the
+-- currency only where the unit is an amount of euros (ECB "EUR", Eurostat
+-- "Million euro", StatFin "1000 euroa"); percentages, indices and counts lose it.
+UPDATE public.series
+SET currency_orig = NULL
+WHERE source IN ('ECB', 'EUROSTAT', 'STATFIN')
+  AND currency_orig = 'EUR'
+  AND (
+    unit_original IS NULL
+    OR unit_original !~* '(^|[^a-z])(eur|euro|euros|euroa|meur)([^a-z]|$)'
+    OR unit_original ~* '^(pc|pch|percent|percentage|index|%)'
+  );
+
+SELECT public.apply_fx_conversion(NULL);
@@ -0,0 +1,24 @@
+-- SCB, SSB and Statistics Iceland ingests used to tag every series with the source's
+-- currency. Keep it only where the unit is an amount of money ("mnkr", "Million kroner",
+-- "krónur"); populations, employment counts and price indices lose it. Units in euros
+-- or dollars get that currency instead.
+UPDATE public.series
+SET currency_orig = CASE
+  WHEN unit_original ~* '\mm?eur(o|oa|os)?\M|€' THEN 'EUR'
+  WHEN unit_original ~* '\musd\M|\mdollars?\M' THEN 'USD'
+  ELSE currency_orig
+END
+WHERE source IN ('SCB', 'SSB', 'HAGSTOFA')
+  AND currency_orig IS NOT NULL;
+
+UPDATE public.series
+SET currency_orig = NULL
+WHERE source IN ('SCB', 'SSB', 'HAGSTOFA')
+  AND currency_orig IS NOT NULL
+  AND (
+    unit_original IS NULL
+    OR unit_original !~* '\mm?eur(o|oa|os)?\M|€|\musd\M|\mdollars?\M|\m(sek|nok|isk)\M|kronor|kroner|krón|kr\M'
+    OR unit_original ~* '^\s*(%|per ?cent|procent|prosent|indeks|index)'
+  );
+
+SELECT public.apply_fx_conversion(NULL);
@@ -0,0 +1,8 @@
+-- Info findings never change a series' status, so 'info' is no longer a status.
+-- Series whose only findings were info-level are 'ok'.
+UPDATE public.series_quality_status SET status = 'ok' WHERE status = 'info';
+
+ALTER TABLE public.series_quality_status DROP CONSTRAINT series_quality_status_status_check;
+
+ALTER TABLE public.series_quality_status
+  ADD CONSTRAINT series_quality_status_status_check CHECK (status IN ('ok', 'warning', 'error'));
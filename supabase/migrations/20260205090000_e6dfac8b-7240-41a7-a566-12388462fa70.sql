@@ -0,0 +1,24 @@
+-- Searches no longer download a missing catalog, so every searchable source needs
+-- the daily refresh; SCB is the other PxWeb source with a v2 table listing.
+SELECT cron.schedule(
+  'refresh-provider-catalog-daily',
+  '30 3 * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://nfofmjbsjzscmdonmnac.supabase.co/functions/v1/' || fn,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  )
+  FROM unnest(ARRAY[
+    'fetch-ecb?action=refresh-catalog',
+    'fetch-eurostat?action=refresh-catalog',
+    'fetch-oecd?action=refresh-catalog',
+    'fetch-worldbank?action=refresh-catalog',
+    'fetch-statfin?action=refresh-catalog&source=STATFIN',
+    'fetch-statfin?action=refresh-catalog&source=SCB'
+  ]) AS fn;
+  $$
+);
@@ -0,0 +1,46 @@
+-- Set-based versions of apply_fx_conversion and update_series_observation_range for
+-- ingests that write hundreds of series at once, so each needs one call, not one per series.
+
+CREATE OR REPLACE FUNCTION public.apply_fx_conversion_many(p_series_ids TEXT[])
+RETURNS INTEGER AS $$
+DECLARE
+  updated_count INTEGER;
+BEGIN
+  UPDATE public.observations o
+  SET
+    value_eur = CASE
+      WHEN s.currency_orig IS NULL OR s.currency_orig = 'EUR' THEN o.value
+      ELSE o.value / nullif(public.fx_period_rate(s.currency_orig, o.date, s.freq), 0)
+    END,
+    value_usd = CASE
+      WHEN s.currency_orig IS NULL OR s.currency_orig = 'USD' THEN o.value
+      ELSE o.value * public.fx_period_rate('USD', o.date, s.freq)
+        / nullif(public.fx_period_rate(s.currency_orig, o.date, s.freq), 0)
+    END
+  FROM public.series s
+  WHERE o.series_id = s.id
+    AND s.id = ANY(p_series_ids);
+
+  GET DIAGNOSTICS updated_count = ROW_COUNT;
+  RETURN updated_count;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_series_observation_ranges(p_series_ids TEXT[])
+RETURNS VOID AS $$
+BEGIN
+  UPDATE public.series s
+  SET
+    observation_start = r.first_date,
+    observation_end = r.last_date
+  FROM (
+    SELECT series_id, MIN(date) AS first_date, MAX(date) AS last_date
+    FROM public.observations
+    WHERE series_id = ANY(p_series_ids)
+    GROUP BY series_id
+  ) r
+  WHERE s.id = r.series_id;
+END;
+$$ LANGUAGE plpgsql
+SET search_path = public;
@@ -0,0 +1,39 @@
+-- observations_as_of converts like apply_fx_conversion: series without a currency
+-- (indices, rates, counts) show their original value in the EUR and USD views.
+-- Vintages keep no flags, so status is the observation's current status flag.
+DROP FUNCTION IF EXISTS public.observations_as_of(TEXT, TIMESTAMPTZ);
+
+CREATE FUNCTION public.observations_as_of(p_series_id TEXT, p_as_of TIMESTAMPTZ)
+RETURNS TABLE (
+  date DATE,
+  value NUMERIC,
+  value_eur NUMERIC,
+  value_usd NUMERIC,
+  status TEXT,
+  vintage_start TIMESTAMPTZ
+) AS $$
+  SELECT
+    v.date,
+    v.value,
+    CASE
+      WHEN s.currency_orig IS NULL OR s.currency_orig = 'EUR' THEN v.value
+      ELSE v.value / nullif(public.fx_period_rate(s.currency_orig, v.date, s.freq), 0)
+    END,
+    CASE
+      WHEN s.currency_orig IS NULL OR s.currency_orig = 'USD' THEN v.value
+      ELSE v.value * public.fx_period_rate('USD', v.date, s.freq)
+        / nullif(public.fx_period_rate(s.currency_orig, v.date, s.freq), 0)
+    END,
+    o.status,
+    v.vintage_start
+  FROM (
+    SELECT DISTINCT ON (ov.date) ov.date, ov.value, ov.vintage_start
+    FROM public.observation_vintages ov
+    WHERE ov.series_id = p_series_id AND ov.vintage_start <= p_as_of
+    ORDER BY ov.date, ov.vintage_start DESC
+  ) v
+  JOIN public.series s ON s.id = p_series_id
+  LEFT JOIN public.observations o ON o.series_id = p_series_id AND o.date = v.date
+  ORDER BY v.date;
+$$ LANGUAGE sql STABLE
+SET search_path = public;